@@ -0,0 +1,103 @@
+// Service worker for the installable app. It keeps the app shell and built
+// assets cached so the app opens without a connection. Flashcard data is
+// stored in IndexedDB by the app itself (src/offline) and Supabase requests
+// always go to the network.
+const VERSION = "v1";
+const SHELL_CACHE = `ethiocard-shell-${VERSION}`;
+const ASSET_CACHE = `ethiocard-assets-${VERSION}`;
+const FONT_CACHE = `ethiocard-fonts-${VERSION}`;
+
+const STATIC_FILES = ["/manifest.webmanifest", "/icon.svg", "/favicon.ico"];
+
+// Built files have hashed names, so read them from the page: the first visit
+// is then enough to open the app offline
+async function cacheShell() {
+  const response = await fetch("/", { cache: "no-cache" });
+  if (!response.ok) throw new Error(`Couldn't load the app shell (${response.status})`);
+
+  const html = await response.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((match) => match[1]);
+
+  const shell = await caches.open(SHELL_CACHE);
+  await shell.put("/", response);
+  await shell.addAll(STATIC_FILES);
+  await (await caches.open(ASSET_CACHE)).addAll([...new Set(assets)]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  const current = [SHELL_CACHE, ASSET_CACHE, FONT_CACHE];
+
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("ethiocard-") && !current.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Every route is rendered by the same index.html
+async function networkFirstShell(request) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put("/", response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Hashed assets never change
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) await cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+
+  return cached ?? network;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstShell(request));
+  } else if (sameOrigin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (sameOrigin && STATIC_FILES.includes(url.pathname)) {
+    event.respondWith(staleWhileRevalidate(request, SHELL_CACHE));
+  } else if (url.hostname === "fonts.googleapis.com" || url.hostname === "fonts.gstatic.com") {
+    event.respondWith(staleWhileRevalidate(request, FONT_CACHE));
+  }
+});
@@ -3,12 +3,23 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { I18nProvider } from "@/i18n/I18nProvider";
+import { AuthProvider } from "@/auth/AuthProvider";
+import { RequireAuth, RequireRole } from "@/auth/RequireAuth";
+import { OfflineProvider } from "@/offline/OfflineProvider";
+import { OfflineStatus } from "@/components/OfflineStatus";
 import Landing from "./pages/Landing";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Upload from "./pages/Upload";
 import Study from "./pages/Study";
+import EditSet from "./pages/EditSet";
+import PrintSet from "./pages/PrintSet";
+import SharedSet from "./pages/SharedSet";
+import PublicSets from "./pages/PublicSets";
 import Quiz from "./pages/Quiz";
+import QuizHistory from "./pages/QuizHistory";
+import Memory from "./pages/Memory";
 import Premium from "./pages/Premium";
 import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
@@ -17,24 +28,37 @@ const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/upload" element={<Upload />} />
-          <Route path="/study/:setId" element={<Study />} />
-          <Route path="/quiz/:setId" element={<Quiz />} />
-          <Route path="/premium" element={<Premium />} />
-          <Route path="/admin" element={<Admin />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <AuthProvider>
+      <I18nProvider>
+        <OfflineProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <OfflineStatus />
+            <BrowserRouter>
+              <Routes>
+                <Route path="/" element={<Landing />} />
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/dashboard" element={<RequireAuth><Dashboard /></RequireAuth>} />
+                <Route path="/upload" element={<RequireAuth><Upload /></RequireAuth>} />
+                <Route path="/study/:setId" element={<RequireAuth><Study /></RequireAuth>} />
+                <Route path="/study/:setId/edit" element={<RequireAuth><EditSet /></RequireAuth>} />
+                <Route path="/study/:setId/print" element={<RequireAuth><PrintSet /></RequireAuth>} />
+                <Route path="/shared" element={<PublicSets />} />
+                <Route path="/shared/:token" element={<SharedSet />} />
+                <Route path="/quiz/:setId" element={<RequireAuth><Quiz /></RequireAuth>} />
+                <Route path="/quiz/:setId/history" element={<RequireAuth><QuizHistory /></RequireAuth>} />
+                <Route path="/memory" element={<RequireAuth><Memory /></RequireAuth>} />
+                <Route path="/premium" element={<RequireAuth><Premium /></RequireAuth>} />
+                <Route path="/admin" element={<RequireAuth><RequireRole role="admin"><Admin /></RequireRole></RequireAuth>} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </OfflineProvider>
+      </I18nProvider>
+    </AuthProvider>
   </QueryClientProvider>
 );
 
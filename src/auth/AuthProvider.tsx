@@ -0,0 +1,103 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { hasActivePremium } from "@/lib/premium";
+import { AuthContext, type AppRole, type AuthProfile } from "./context";
+
+const ACCOUNT_QUERY_KEY = "account";
+const STORAGE_KEY = "ethiocard-account";
+
+interface Account {
+  profile: AuthProfile | null;
+  roles: AppRole[];
+}
+
+const fetchAccount = async (userId: string): Promise<Account> => {
+  const [profileResult, rolesResult] = await Promise.all([
+    supabase
+      .from("profiles")
+      .select("id, username, email, is_premium, premium_expires_at, premium_plan_id, language")
+      .eq("id", userId)
+      .maybeSingle(),
+    supabase.from("user_roles").select("role").eq("user_id", userId),
+  ]);
+
+  if (profileResult.error) throw profileResult.error;
+  if (rolesResult.error) throw rolesResult.error;
+
+  const account = {
+    profile: profileResult.data,
+    roles: rolesResult.data.map((row) => row.role),
+  };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ userId, account }));
+  return account;
+};
+
+// The last account loaded on this device, so the app still knows who the
+// user is and what they may do when it opens offline
+const storedAccount = (userId: string | undefined): Account | undefined => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    return stored?.userId === userId ? stored.account : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Holds who is signed in and what they may do. Pages read roles and premium
+// from here instead of querying them, so every check agrees; the database
+// still enforces the same rules through RLS.
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, next) => {
+      setSession(next);
+      setSessionLoaded(true);
+
+      if (event === "SIGNED_OUT") {
+        queryClient.removeQueries({ queryKey: [ACCOUNT_QUERY_KEY] });
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  const userId = session?.user.id;
+
+  const account = useQuery({
+    queryKey: [ACCOUNT_QUERY_KEY, userId],
+    queryFn: () => fetchAccount(userId as string),
+    enabled: !!userId,
+    placeholderData: () => storedAccount(userId),
+    // Premium can lapse while the tab stays open
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const refresh = useCallback(async () => {
+    await queryClient.invalidateQueries({ queryKey: [ACCOUNT_QUERY_KEY] });
+  }, [queryClient]);
+
+  const value = useMemo(() => {
+    const profile = account.data?.profile ?? null;
+    const roles = account.data?.roles ?? [];
+    const isAdmin = roles.includes("admin");
+
+    return {
+      session,
+      user: session?.user ?? null,
+      profile,
+      roles,
+      isAdmin,
+      isPremium: isAdmin || hasActivePremium(profile),
+      loading: !sessionLoaded || (!!userId && account.isPending),
+      refresh,
+    };
+  }, [session, sessionLoaded, userId, account.data, account.isPending, refresh]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
@@ -0,0 +1,51 @@
+import { ReactNode, useEffect } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth, type AppRole } from "./context";
+
+const AuthLoading = () => {
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+      <p className="text-muted-foreground">{t("common.loading")}</p>
+    </div>
+  );
+};
+
+// Sends signed-out visitors to /auth, which brings them back here afterwards
+const RequireAuth = ({ children }: { children: ReactNode }) => {
+  const { user, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return <AuthLoading />;
+  if (!user) return <Navigate to="/auth" replace state={{ from: location }} />;
+
+  return <>{children}</>;
+};
+
+// Only for signed-in users with the given role; use inside RequireAuth
+const RequireRole = ({ role, children }: { role: AppRole; children: ReactNode }) => {
+  const { roles, loading } = useAuth();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const allowed = roles.includes(role);
+
+  useEffect(() => {
+    if (!loading && !allowed) {
+      toast({
+        title: t("auth.accessDenied"),
+        description: t("auth.accessDeniedBody"),
+        variant: "destructive",
+      });
+    }
+  }, [loading, allowed]);
+
+  if (loading) return <AuthLoading />;
+  if (!allowed) return <Navigate to="/dashboard" replace />;
+
+  return <>{children}</>;
+};
+
+export { RequireAuth, RequireRole };
@@ -0,0 +1,42 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export interface AuthProfile {
+  id: string;
+  username: string;
+  email: string;
+  is_premium: boolean | null;
+  premium_expires_at: string | null;
+  premium_plan_id: string | null;
+  language: string;
+}
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: AuthProfile | null;
+  roles: AppRole[];
+  isAdmin: boolean;
+  // Active premium, or an admin (admins always get premium features)
+  isPremium: boolean;
+  // True until the session and, when signed in, the account are known
+  loading: boolean;
+  // Reload profile and roles, e.g. after premium was granted
+  refresh: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  user: null,
+  profile: null,
+  roles: [],
+  isAdmin: false,
+  isPremium: false,
+  loading: true,
+  refresh: async () => {},
+});
+
+export const useAuth = () => useContext(AuthContext);
@@ -0,0 +1,74 @@
+import { Card } from "@/components/ui/card";
+import { useI18n } from "@/i18n/context";
+
+interface FlipCardProps {
+  question: string;
+  answer: string;
+  isFlipped: boolean;
+  onFlip: () => void;
+  // Language of the card text, when it differs from the interface
+  lang?: string;
+}
+
+const FlipCard = ({ question, answer, isFlipped, onFlip, lang }: FlipCardProps) => {
+  const { t } = useI18n();
+
+  return (
+    <>
+      <div
+        className="relative h-64 sm:h-80 md:h-96 cursor-pointer perspective-1000"
+        onClick={onFlip}
+      >
+        <div
+          className={`absolute inset-0 transition-transform duration-500 transform-style-3d ${
+            isFlipped ? "rotate-y-180" : ""
+          }`}
+        >
+          {/* Front */}
+          <Card
+            className={`absolute inset-0 p-6 sm:p-8 flex flex-col items-center justify-center text-center shadow-[var(--shadow-elevated)] backface-hidden overflow-hidden ${
+              isFlipped ? "invisible" : "visible"
+            }`}
+          >
+            <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">{t("flipCard.question")}</p>
+            <p lang={lang} className="text-lg sm:text-xl md:text-2xl font-medium px-4 break-words w-full overflow-hidden">
+              {question}
+            </p>
+            <p className="text-xs sm:text-sm text-muted-foreground mt-6 sm:mt-8">
+              {t("flipCard.reveal")}
+            </p>
+          </Card>
+
+          {/* Back */}
+          <Card
+            className={`absolute inset-0 p-6 sm:p-8 flex flex-col items-center justify-center text-center shadow-[var(--shadow-elevated)] rotate-y-180 backface-hidden overflow-hidden ${
+              isFlipped ? "visible" : "invisible"
+            }`}
+          >
+            <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">{t("flipCard.answer")}</p>
+            <p lang={lang} className="text-lg sm:text-xl md:text-2xl font-medium px-4 break-words w-full overflow-hidden">
+              {answer}
+            </p>
+          </Card>
+        </div>
+      </div>
+
+      <style>{`
+        .perspective-1000 {
+          perspective: 1000px;
+        }
+        .transform-style-3d {
+          transform-style: preserve-3d;
+        }
+        .backface-hidden {
+          backface-visibility: hidden;
+        }
+        .rotate-y-180 {
+          transform: rotateY(180deg);
+        }
+      `}</style>
+    </>
+  );
+};
+
+export { FlipCard };
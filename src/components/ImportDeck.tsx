@@ -0,0 +1,360 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, FileUp, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import type { MessageKey } from "@/i18n";
+import { CONTENT_LANGUAGES, ContentLanguage, contentLang, contentLanguageName, isContentLanguage } from "@/lib/languages";
+import {
+  ImportError,
+  ImportTable,
+  MAX_IMPORT_CARDS,
+  importSet,
+  mapRows,
+  parseQuizlet,
+  readImportFile,
+} from "@/lib/importers";
+
+const TERM_SEPARATORS: { value: string; labelKey: MessageKey }[] = [
+  { value: "\t", labelKey: "import.separator.tab" },
+  { value: ",", labelKey: "import.separator.comma" },
+  { value: " - ", labelKey: "import.separator.dash" },
+];
+
+const CARD_SEPARATORS: { value: string; labelKey: MessageKey }[] = [
+  { value: "\n", labelKey: "import.separator.newLine" },
+  { value: ";", labelKey: "import.separator.semicolon" },
+];
+
+const PREVIEW_ROWS = 5;
+const LISTED_ISSUES = 10;
+
+// Creates a set from cards made elsewhere: a CSV/TSV file, an Anki package
+// or text copied from Quizlet's export box. Nothing goes through the AI, so
+// it doesn't use the upload quota.
+const ImportDeck = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { language, t } = useI18n();
+
+  const [source, setSource] = useState<"file" | "quizlet">("file");
+  const [quizletText, setQuizletText] = useState("");
+  const [termSeparator, setTermSeparator] = useState("\t");
+  const [cardSeparator, setCardSeparator] = useState("\n");
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [reading, setReading] = useState(false);
+  const [questionColumn, setQuestionColumn] = useState(0);
+  const [answerColumn, setAnswerColumn] = useState(1);
+  const [skipHeader, setSkipHeader] = useState(false);
+  const [title, setTitle] = useState("");
+  const [deckLanguage, setDeckLanguage] = useState<ContentLanguage>(language);
+  const [importing, setImporting] = useState(false);
+
+  const showTable = (next: ImportTable) => {
+    setTable(next);
+    setQuestionColumn(0);
+    setAnswerColumn(1);
+    setSkipHeader(!!next.hasHeader);
+    if (next.title) setTitle(next.title);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setReading(true);
+    try {
+      showTable(await readImportFile(file));
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      setTable(null);
+      toast({
+        title: t("import.readFailed"),
+        description: t(error instanceof ImportError ? error.messageKey : "import.error.unreadable"),
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleQuizletChange = (text: string, term = termSeparator, card = cardSeparator) => {
+    setQuizletText(text);
+    setTermSeparator(term);
+    setCardSeparator(card);
+    if (text.trim()) {
+      showTable(parseQuizlet(text, term, card));
+    } else {
+      setTable(null);
+    }
+  };
+
+  const columnCount = table ? Math.max(0, ...table.rows.map((row) => row.length)) : 0;
+  const columnLabel = (index: number) =>
+    table?.columns?.[index] ||
+    (skipHeader && table?.rows[0]?.[index]?.trim()) ||
+    t("import.column", { number: index + 1 });
+
+  const { cards, issues } = useMemo(
+    () => (table ? mapRows(table, { questionColumn, answerColumn, skipHeader }) : { cards: [], issues: [] }),
+    [table, questionColumn, answerColumn, skipHeader]
+  );
+
+  const tooMany = cards.length > MAX_IMPORT_CARDS;
+  const canImport = cards.length > 0 && !tooMany && title.trim() !== "" && questionColumn !== answerColumn;
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    setImporting(true);
+    try {
+      const setId = await importSet({ title: title.trim(), description: "", language: deckLanguage, cards });
+      toast({
+        title: t("import.done"),
+        description: t("import.doneBody", { count: cards.length }),
+      });
+      navigate(`/study/${setId}`);
+    } catch (error) {
+      console.error("Error importing set:", error);
+      toast({
+        title: t("common.error"),
+        description: t("import.failed"),
+        variant: "destructive",
+      });
+      setImporting(false);
+    }
+  };
+
+  const columnSelect = (id: string, value: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(next) => onChange(Number(next))}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Array.from({ length: columnCount }, (_, index) => (
+          <SelectItem key={index} value={String(index)}>
+            {columnLabel(index)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Tabs
+        value={source}
+        onValueChange={(value) => {
+          setSource(value === "quizlet" ? "quizlet" : "file");
+          setTable(null);
+        }}
+      >
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="file">{t("import.fromFile")}</TabsTrigger>
+          <TabsTrigger value="quizlet">{t("import.fromQuizlet")}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="file" className="space-y-2 pt-2">
+          <div className="flex flex-col items-center justify-center w-full min-h-32 border-2 border-dashed rounded-lg p-4 border-primary/30 bg-secondary/30">
+            {reading ? (
+              <Loader2 className="w-8 h-8 mb-3 text-primary animate-spin" />
+            ) : (
+              <FileUp className="w-8 h-8 mb-3 text-primary" />
+            )}
+            <input
+              type="file"
+              accept=".csv,.tsv,.txt,.apkg,.colpkg"
+              onChange={handleFileChange}
+              disabled={reading || importing}
+              className="block w-full text-sm text-muted-foreground
+                file:mr-4 file:py-2 file:px-4
+                file:rounded-md file:border-0
+                file:text-sm file:font-semibold
+                file:bg-primary file:text-primary-foreground
+                hover:file:bg-primary/90
+                file:cursor-pointer cursor-pointer"
+            />
+            <p className="text-xs text-muted-foreground mt-2">{t("import.fileTypes")}</p>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="quizlet" className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="quizlet-text">{t("import.quizletPaste")}</Label>
+            <Textarea
+              id="quizlet-text"
+              value={quizletText}
+              onChange={(e) => handleQuizletChange(e.target.value)}
+              placeholder={t("import.quizletPlaceholder")}
+              rows={6}
+              disabled={importing}
+            />
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="term-separator">{t("import.termSeparator")}</Label>
+              <Select value={termSeparator} onValueChange={(value) => handleQuizletChange(quizletText, value)}>
+                <SelectTrigger id="term-separator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TERM_SEPARATORS.map((option) => (
+                    <SelectItem key={option.labelKey} value={option.value}>
+                      {t(option.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="card-separator">{t("import.cardSeparator")}</Label>
+              <Select
+                value={cardSeparator}
+                onValueChange={(value) => handleQuizletChange(quizletText, termSeparator, value)}
+              >
+                <SelectTrigger id="card-separator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CARD_SEPARATORS.map((option) => (
+                    <SelectItem key={option.labelKey} value={option.value}>
+                      {t(option.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      {table && (
+        <div className="space-y-6">
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="question-column">{t("import.questionColumn")}</Label>
+              {columnSelect("question-column", questionColumn, setQuestionColumn)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="answer-column">{t("import.answerColumn")}</Label>
+              {columnSelect("answer-column", answerColumn, setAnswerColumn)}
+            </div>
+          </div>
+
+          {table.noteTypes && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {t("import.mixedNoteTypes", { count: table.noteTypes })}
+            </p>
+          )}
+
+          {!table.columns && (
+            <div className="flex items-center gap-3">
+              <Switch id="skip-header" checked={skipHeader} onCheckedChange={setSkipHeader} />
+              <Label htmlFor="skip-header" className="font-normal cursor-pointer">
+                {t("import.skipHeader")}
+              </Label>
+            </div>
+          )}
+
+          {questionColumn === answerColumn && (
+            <p className="text-sm text-destructive">{t("import.sameColumn")}</p>
+          )}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">{t("import.preview")}</p>
+            <div className="border rounded-md overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("editSet.questionPlaceholder")}</TableHead>
+                    <TableHead>{t("editSet.answerPlaceholder")}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cards.slice(0, PREVIEW_ROWS).map((card, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="align-top whitespace-pre-wrap break-words" lang={contentLang(deckLanguage)}>
+                        {card.question}
+                      </TableCell>
+                      <TableCell className="align-top whitespace-pre-wrap break-words" lang={contentLang(deckLanguage)}>
+                        {card.answer}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t("import.summary", { count: cards.length, skipped: issues.length })}
+            </p>
+          </div>
+
+          {issues.length > 0 && (
+            <Card className="p-4 bg-destructive/5 border-destructive/30 space-y-1">
+              <p className="text-sm font-medium flex items-center gap-2 text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                {t("import.issuesTitle")}
+              </p>
+              <ul className="text-sm text-muted-foreground space-y-0.5">
+                {issues.slice(0, LISTED_ISSUES).map((issue) => (
+                  <li key={issue.row}>{t("import.rowIssue", { row: issue.row, problem: t(issue.messageKey) })}</li>
+                ))}
+              </ul>
+              {issues.length > LISTED_ISSUES && (
+                <p className="text-sm text-muted-foreground">
+                  {t("import.moreIssues", { count: issues.length - LISTED_ISSUES })}
+                </p>
+              )}
+            </Card>
+          )}
+
+          {tooMany && (
+            <p className="text-sm text-destructive">{t("import.tooMany", { limit: MAX_IMPORT_CARDS })}</p>
+          )}
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-title">{t("import.setTitle")}</Label>
+              <Input id="import-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-language">{t("import.setLanguage")}</Label>
+              <Select
+                value={deckLanguage}
+                onValueChange={(value) => isContentLanguage(value) && setDeckLanguage(value)}
+              >
+                <SelectTrigger id="import-language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTENT_LANGUAGES.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {contentLanguageName(code, t)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button size="lg" className="w-full" onClick={handleImport} disabled={!canImport || importing}>
+            {importing ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <FileUp className="w-5 h-5 mr-2" />}
+            {importing ? t("import.importing") : t("import.submit", { count: cards.length })}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { ImportDeck };
@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Languages } from "lucide-react";
+import { LANGUAGES, isLanguage } from "@/i18n";
+import { useI18n } from "@/i18n/context";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+const LanguageSwitcher = ({ className }: LanguageSwitcherProps) => {
+  const { language, setLanguage, t } = useI18n();
+  const current = LANGUAGES.find((option) => option.code === language);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className={className} aria-label={t("language.label")}>
+          <Languages className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">{current?.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup
+          value={language}
+          onValueChange={(value) => isLanguage(value) && setLanguage(value)}
+        >
+          {LANGUAGES.map((option) => (
+            <DropdownMenuRadioItem key={option.code} value={option.code} lang={option.code}>
+              {option.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export { LanguageSwitcher };
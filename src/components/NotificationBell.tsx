@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { Bell } from "lucide-react";
+import { useI18n } from "@/i18n/context";
+import {
+  AppNotification,
+  describeNotification,
+  fetchNotifications,
+  markNotificationsRead,
+} from "@/lib/notifications";
+
+interface NotificationBellProps {
+  userId: string;
+  className?: string;
+}
+
+const NotificationBell = ({ userId, className }: NotificationBellProps) => {
+  const navigate = useNavigate();
+  const { language, t } = useI18n();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    fetchNotifications()
+      .then(setNotifications)
+      .catch((error) => console.error("Error loading notifications:", error));
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          setNotifications((current) => [payload.new as AppNotification, ...current]);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const unread = notifications.filter((notification) => !notification.read_at);
+
+  const markRead = async (ids?: string[]) => {
+    const readAt = new Date().toISOString();
+    setNotifications((current) =>
+      current.map((notification) =>
+        !ids || ids.includes(notification.id) ? { ...notification, read_at: notification.read_at ?? readAt } : notification
+      )
+    );
+
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+    }
+  };
+
+  const openNotification = (notification: AppNotification, path: string) => {
+    if (!notification.read_at) markRead([notification.id]);
+    navigate(path);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={`relative ${className ?? ""}`}
+          aria-label={t("notifications.title")}
+        >
+          <Bell className="w-4 h-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-medium flex items-center justify-center">
+              {unread.length > 9 ? "9+" : unread.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>{t("notifications.title")}</DropdownMenuLabel>
+          {unread.length > 0 && (
+            <Button variant="link" size="sm" className="h-auto px-2" onClick={() => markRead()}>
+              {t("notifications.markAllRead")}
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">{t("notifications.empty")}</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => {
+              const { title, body, path } = describeNotification(notification, t, language);
+
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onSelect={() => openNotification(notification, path)}
+                  className="flex items-start gap-2 cursor-pointer"
+                >
+                  <span
+                    className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${
+                      notification.read_at ? "bg-transparent" : "bg-primary"
+                    }`}
+                  />
+                  <div className="min-w-0 space-y-0.5">
+                    <p className={`text-sm ${notification.read_at ? "" : "font-semibold"}`}>{title}</p>
+                    <p className="text-xs text-muted-foreground break-words">{body}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(notification.created_at).toLocaleString(language)}
+                    </p>
+                  </div>
+                </DropdownMenuItem>
+              );
+            })}
+          </ScrollArea>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export { NotificationBell };
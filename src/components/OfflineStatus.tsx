@@ -0,0 +1,37 @@
+import { CloudUpload, WifiOff } from "lucide-react";
+import { useI18n } from "@/i18n/context";
+import { useOffline } from "@/offline/context";
+
+// Small notice at the bottom of every page while offline or while results
+// recorded offline are waiting to be uploaded
+const OfflineStatus = () => {
+  const { t } = useI18n();
+  const { online, pendingCount, syncing } = useOffline();
+
+  if (online && pendingCount === 0) return null;
+
+  const waiting = t("offline.waiting", { count: pendingCount });
+  const message = online
+    ? syncing
+      ? t("offline.syncing")
+      : waiting
+    : pendingCount > 0
+      ? `${t("offline.status")} · ${waiting}`
+      : t("offline.status");
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 print:hidden -translate-x-1/2 z-50 flex items-center gap-2 rounded-full border border-border bg-card px-4 py-2 text-xs sm:text-sm shadow-lg max-w-[calc(100%-2rem)]"
+    >
+      {online ? (
+        <CloudUpload className="w-4 h-4 flex-shrink-0 text-primary" />
+      ) : (
+        <WifiOff className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+      )}
+      <span>{message}</span>
+    </div>
+  );
+};
+
+export { OfflineStatus };
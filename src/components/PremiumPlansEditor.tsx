@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { PremiumPlan, fetchPremiumPlans, planName } from "@/lib/premium";
+import { Save } from "lucide-react";
+
+// Form values are kept as strings so fields can be cleared while typing
+interface PlanDraft {
+  price: string;
+  days: string;
+  uploadLimit: string;
+  isActive: boolean;
+}
+
+const toDraft = (plan: PremiumPlan): PlanDraft => ({
+  price: String(plan.price_etb),
+  days: String(plan.duration_days),
+  uploadLimit: plan.upload_limit === null ? "" : String(plan.upload_limit),
+  isActive: plan.is_active,
+});
+
+// Admin pricing: price, length, upload limit and availability of each plan.
+// Changes apply to requests approved from then on.
+const PremiumPlansEditor = () => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  const [plans, setPlans] = useState<PremiumPlan[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, PlanDraft>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPlans();
+  }, []);
+
+  const loadPlans = async () => {
+    try {
+      const data = await fetchPremiumPlans(true);
+      setPlans(data);
+      setDrafts(Object.fromEntries(data.map((plan) => [plan.id, toDraft(plan)])));
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: t("admin.plansLoadFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateDraft = (id: string, changes: Partial<PlanDraft>) => {
+    setDrafts((current) => ({ ...current, [id]: { ...current[id], ...changes } }));
+  };
+
+  const handleSave = async (plan: PremiumPlan) => {
+    const draft = drafts[plan.id];
+    const price = Number(draft.price);
+    const days = Number(draft.days);
+    const uploadLimit = draft.uploadLimit.trim() === "" ? null : Number(draft.uploadLimit);
+
+    if (
+      !(price > 0) ||
+      !Number.isInteger(days) ||
+      days <= 0 ||
+      (uploadLimit !== null && (!Number.isInteger(uploadLimit) || uploadLimit <= 0))
+    ) {
+      toast({
+        title: t("admin.planInvalid"),
+        description: t("admin.planInvalidBody"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingId(plan.id);
+    try {
+      const { error } = await supabase
+        .from("premium_plans")
+        .update({
+          price_etb: price,
+          duration_days: days,
+          upload_limit: uploadLimit,
+          is_active: draft.isActive,
+        })
+        .eq("id", plan.id);
+
+      if (error) throw error;
+
+      toast({
+        title: t("admin.updated"),
+        description: t("admin.planSaved", { plan: planName(plan, t) }),
+      });
+      await loadPlans();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("admin.planSaveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {plans.map((plan) => {
+        const draft = drafts[plan.id];
+        if (!draft) return null;
+
+        return (
+          <Card key={plan.id}>
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex items-center justify-between gap-3">
+                <span className="font-bold">{planName(plan, t)}</span>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`plan-active-${plan.id}`} className="text-sm text-muted-foreground">
+                    {t("admin.planActive")}
+                  </Label>
+                  <Switch
+                    id={`plan-active-${plan.id}`}
+                    checked={draft.isActive}
+                    onCheckedChange={(checked) => updateDraft(plan.id, { isActive: checked })}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`plan-price-${plan.id}`}>{t("admin.planPrice")}</Label>
+                  <Input
+                    id={`plan-price-${plan.id}`}
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    value={draft.price}
+                    onChange={(e) => updateDraft(plan.id, { price: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`plan-days-${plan.id}`}>{t("admin.planDays")}</Label>
+                  <Input
+                    id={`plan-days-${plan.id}`}
+                    type="number"
+                    min="1"
+                    value={draft.days}
+                    onChange={(e) => updateDraft(plan.id, { days: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`plan-limit-${plan.id}`}>{t("admin.planUploadLimit")}</Label>
+                  <Input
+                    id={`plan-limit-${plan.id}`}
+                    type="number"
+                    min="1"
+                    value={draft.uploadLimit}
+                    placeholder={t("admin.planUnlimited")}
+                    onChange={(e) => updateDraft(plan.id, { uploadLimit: e.target.value })}
+                  />
+                </div>
+              </div>
+              <Button
+                size="sm"
+                className="gap-2"
+                onClick={() => handleSave(plan)}
+                disabled={savingId === plan.id}
+              >
+                <Save className="w-4 h-4" />
+                {t("editSet.save")}
+              </Button>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export { PremiumPlansEditor };
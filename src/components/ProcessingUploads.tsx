@@ -0,0 +1,72 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Loader2, RotateCw } from "lucide-react";
+import { PROCESSING_STAGES, UploadStatus, isProcessing } from "@/lib/uploads";
+import { useI18n } from "@/i18n/context";
+
+interface ProcessingUploadsProps {
+  uploads: UploadStatus[];
+  retryingId?: string | null;
+  onRetry: (upload: UploadStatus) => void;
+}
+
+const ProcessingUploads = ({ uploads, retryingId, onRetry }: ProcessingUploadsProps) => {
+  const { t } = useI18n();
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-semibold">{t("processing.title")}</h3>
+      {uploads.map((upload) => {
+        const stage = PROCESSING_STAGES[upload.processing_status];
+        const failed = upload.processing_status === "failed";
+
+        return (
+          <Card key={upload.id} className={`p-4 ${failed ? "border-destructive" : ""}`}>
+            <div className="flex items-start gap-3">
+              {failed ? (
+                <AlertCircle className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+              ) : (
+                <Loader2 className="w-5 h-5 text-primary mt-0.5 flex-shrink-0 animate-spin" />
+              )}
+              <div className="flex-1 min-w-0 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium truncate">{upload.file_name}</p>
+                  <Badge variant={failed ? "destructive" : "secondary"} className="flex-shrink-0">
+                    {t(stage.labelKey)}
+                  </Badge>
+                </div>
+                {isProcessing(upload.processing_status) && (
+                  <Progress value={stage.progress} className="h-2" />
+                )}
+                {upload.processing_error && (
+                  <p className={`text-sm break-words ${failed ? "text-destructive" : "text-muted-foreground"}`}>
+                    {failed
+                      ? upload.processing_error
+                      : t("processing.retryingAfterError", { error: upload.processing_error })}
+                  </p>
+                )}
+                {failed && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRetry(upload)}
+                    disabled={retryingId === upload.id}
+                  >
+                    <RotateCw className="w-4 h-4 mr-2" />
+                    {retryingId === upload.id ? t("common.retrying") : t("common.retry")}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export { ProcessingUploads };
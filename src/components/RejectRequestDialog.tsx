@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n } from "@/i18n/context";
+import { REJECTION_REASONS, RejectionReason, isRejectionReason } from "@/lib/premium";
+
+interface RejectRequestDialogProps {
+  // Who the request is from; the dialog is open while this is set
+  username: string | null;
+  submitting: boolean;
+  onCancel: () => void;
+  onConfirm: (reason: RejectionReason, notes: string) => void;
+}
+
+// Lets an admin say why a payment proof was rejected, so the user knows what
+// to correct before resubmitting
+const RejectRequestDialog = ({ username, submitting, onCancel, onConfirm }: RejectRequestDialogProps) => {
+  const { t } = useI18n();
+  const [reason, setReason] = useState<RejectionReason>("amount_mismatch");
+  const [notes, setNotes] = useState("");
+
+  // Start from a clean form for every request
+  useEffect(() => {
+    if (username) {
+      setReason("amount_mismatch");
+      setNotes("");
+    }
+  }, [username]);
+
+  // "Other" means nothing to the user without an explanation
+  const needsNotes = reason === "other" && !notes.trim();
+
+  return (
+    <Dialog open={!!username} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("admin.rejectTitle")}</DialogTitle>
+          <DialogDescription>{t("admin.rejectDescription", { username: username ?? "" })}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason}
+          onValueChange={(value) => isRejectionReason(value) && setReason(value)}
+          className="gap-3"
+        >
+          {(Object.keys(REJECTION_REASONS) as RejectionReason[]).map((option) => (
+            <div key={option} className="flex items-center gap-3">
+              <RadioGroupItem id={`reject-${option}`} value={option} />
+              <Label htmlFor={`reject-${option}`} className="font-normal cursor-pointer">
+                {t(REJECTION_REASONS[option])}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="reject-notes">
+            {reason === "other" ? t("admin.rejectNotesRequired") : t("admin.rejectNotes")}
+          </Label>
+          <Textarea
+            id="reject-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t("admin.rejectNotesPlaceholder")}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={submitting}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => onConfirm(reason, notes.trim())}
+            disabled={submitting || needsNotes}
+          >
+            {t("admin.reject")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { RejectRequestDialog };
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Copy, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import {
+  VISIBILITIES,
+  Visibility,
+  isVisibility,
+  resetShareToken,
+  shareUrl,
+  updateVisibility,
+} from "@/lib/sharing";
+
+interface ShareSetDialogProps {
+  open: boolean;
+  setId: string;
+  visibility: Visibility;
+  shareToken: string;
+  onOpenChange: (open: boolean) => void;
+  onChange: (visibility: Visibility, shareToken: string) => void;
+}
+
+// Lets the owner choose who can see a set and copy its link
+const ShareSetDialog = ({ open, setId, visibility, shareToken, onOpenChange, onChange }: ShareSetDialogProps) => {
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [saving, setSaving] = useState(false);
+  const link = shareUrl(shareToken);
+
+  const changeVisibility = async (next: Visibility) => {
+    setSaving(true);
+    try {
+      await updateVisibility(setId, next);
+      onChange(next, shareToken);
+    } catch (error) {
+      console.error("Error updating visibility:", error);
+      toast({
+        title: t("common.error"),
+        description: t("share.updateFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetLink = async () => {
+    setSaving(true);
+    try {
+      onChange(visibility, await resetShareToken(setId));
+      toast({ title: t("share.linkReset") });
+    } catch (error) {
+      console.error("Error resetting share link:", error);
+      toast({
+        title: t("common.error"),
+        description: t("share.updateFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: t("share.copied") });
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("share.title")}</DialogTitle>
+          <DialogDescription>{t("share.description")}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={visibility}
+          onValueChange={(value) => isVisibility(value) && changeVisibility(value)}
+          disabled={saving}
+          className="gap-3"
+        >
+          {(Object.keys(VISIBILITIES) as Visibility[]).map((option) => (
+            <div key={option} className="flex items-start gap-3">
+              <RadioGroupItem id={`visibility-${option}`} value={option} className="mt-0.5" />
+              <Label htmlFor={`visibility-${option}`} className="font-normal cursor-pointer space-y-0.5">
+                <span className="block font-medium">{t(VISIBILITIES[option].labelKey)}</span>
+                <span className="block text-sm text-muted-foreground">{t(VISIBILITIES[option].descriptionKey)}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        {visibility !== "private" && (
+          <div className="space-y-2">
+            <Label htmlFor="share-link">{t("share.link")}</Label>
+            <div className="flex gap-2">
+              <Input id="share-link" value={link} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyLink} aria-label={t("share.copy")}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button variant="link" size="sm" className="h-auto px-0 gap-1" onClick={resetLink} disabled={saving}>
+              <RefreshCw className="w-3 h-3" />
+              {t("share.resetLink")}
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>{t("share.done")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { ShareSetDialog };
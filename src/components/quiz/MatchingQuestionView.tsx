@@ -0,0 +1,79 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, XCircle } from "lucide-react";
+import { shuffle, type MatchingQuestion } from "@/lib/quiz";
+import { useI18n } from "@/i18n/context";
+
+interface MatchingQuestionViewProps {
+  question: MatchingQuestion;
+  answered: boolean;
+  onSubmit: (response: number[]) => void;
+}
+
+export const MatchingQuestionView = ({ question, answered, onSubmit }: MatchingQuestionViewProps) => {
+  const { t } = useI18n();
+  // Right-hand items in a random order; values are indexes into `pairs`
+  const choices = useMemo(
+    () => shuffle(question.pairs.map((pair, index) => ({ index, label: pair.right }))),
+    [question]
+  );
+  const [selected, setSelected] = useState<(number | null)[]>(() => question.pairs.map(() => null));
+
+  const complete = selected.every((choice) => choice !== null);
+
+  return (
+    <div className="space-y-3">
+      {question.pairs.map((pair, index) => {
+        const choice = selected[index];
+        const correct = choice === index;
+
+        return (
+          <div key={index} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+            <p className="text-sm sm:text-base break-words">{pair.left}</p>
+            <div className="flex items-center gap-2 min-w-0">
+              <Select
+                value={choice === null ? undefined : String(choice)}
+                onValueChange={(value) =>
+                  setSelected((current) => current.map((c, i) => (i === index ? Number(value) : c)))
+                }
+                disabled={answered}
+              >
+                <SelectTrigger
+                  className={answered ? (correct ? "border-green-500" : "border-destructive") : undefined}
+                >
+                  <SelectValue placeholder={t("quiz.chooseMatch")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map((option) => (
+                    <SelectItem key={option.index} value={String(option.index)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {answered &&
+                (correct ? (
+                  <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                ))}
+            </div>
+            {answered && !correct && (
+              <p className="text-xs text-muted-foreground sm:col-start-2 break-words">{t("quiz.correctMatch", { answer: pair.right })}</p>
+            )}
+          </div>
+        );
+      })}
+      {!answered && (
+        <Button
+          onClick={() => onSubmit(selected.map((choice) => choice ?? -1))}
+          disabled={!complete}
+          className="w-full sm:w-auto"
+        >
+          {t("quiz.checkMatches")}
+        </Button>
+      )}
+    </div>
+  );
+};
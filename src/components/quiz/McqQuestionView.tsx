@@ -0,0 +1,49 @@
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle } from "lucide-react";
+import type { McqQuestion } from "@/lib/quiz";
+
+interface McqQuestionViewProps {
+  question: McqQuestion;
+  response: number | null;
+  answered: boolean;
+  onSubmit: (response: number) => void;
+}
+
+export const McqQuestionView = ({ question, response, answered, onSubmit }: McqQuestionViewProps) => (
+  <>
+    {question.options.map((option, index) => {
+      let buttonClass = "w-full justify-start text-left h-auto py-3 sm:py-4 px-3 sm:px-4 whitespace-normal overflow-hidden";
+
+      if (answered) {
+        if (index === question.correctAnswer) {
+          buttonClass += " border-green-500 bg-green-500/10";
+        } else if (index === response) {
+          buttonClass += " border-destructive bg-destructive/10";
+        }
+      }
+
+      return (
+        <Button
+          key={index}
+          variant="outline"
+          className={buttonClass}
+          onClick={() => onSubmit(index)}
+          disabled={answered}
+        >
+          <span className="flex items-start gap-2 sm:gap-3 w-full min-w-0 overflow-hidden">
+            <span className="w-7 h-7 sm:w-8 sm:h-8 rounded-full border flex items-center justify-center text-xs sm:text-sm font-medium flex-shrink-0">
+              {String.fromCharCode(65 + index)}
+            </span>
+            <span className="flex-1 text-sm sm:text-base text-left break-words overflow-hidden">{option}</span>
+            {answered && index === question.correctAnswer && (
+              <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-500 flex-shrink-0" />
+            )}
+            {answered && index === response && index !== question.correctAnswer && (
+              <XCircle className="w-4 h-4 sm:w-5 sm:h-5 text-destructive flex-shrink-0" />
+            )}
+          </span>
+        </Button>
+      );
+    })}
+  </>
+);
@@ -0,0 +1,45 @@
+import type { QuizQuestion, QuizResponse } from "@/lib/quiz";
+import { McqQuestionView } from "./McqQuestionView";
+import { TrueFalseQuestionView } from "./TrueFalseQuestionView";
+import { TextAnswerQuestionView } from "./TextAnswerQuestionView";
+import { MatchingQuestionView } from "./MatchingQuestionView";
+
+interface QuestionViewProps {
+  question: QuizQuestion;
+  response: QuizResponse | null;
+  answered: boolean;
+  correct: boolean;
+  onSubmit: (response: QuizResponse) => void;
+}
+
+// Picks the renderer for a question's type. Callers should key this by
+// question so typed input and matching selections reset between questions.
+export const QuestionView = ({ question, response, answered, correct, onSubmit }: QuestionViewProps) => {
+  switch (question.type) {
+    case "mcq":
+      return (
+        <McqQuestionView
+          question={question}
+          response={typeof response === "number" ? response : null}
+          answered={answered}
+          onSubmit={onSubmit}
+        />
+      );
+    case "true_false":
+      return (
+        <TrueFalseQuestionView
+          question={question}
+          response={typeof response === "boolean" ? response : null}
+          answered={answered}
+          onSubmit={onSubmit}
+        />
+      );
+    case "cloze":
+    case "short_answer":
+      return (
+        <TextAnswerQuestionView question={question} answered={answered} correct={correct} onSubmit={onSubmit} />
+      );
+    case "matching":
+      return <MatchingQuestionView question={question} answered={answered} onSubmit={onSubmit} />;
+  }
+};
@@ -0,0 +1,55 @@
+import { FormEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle, XCircle } from "lucide-react";
+import type { ClozeQuestion, ShortAnswerQuestion } from "@/lib/quiz";
+import { useI18n } from "@/i18n/context";
+
+interface TextAnswerQuestionViewProps {
+  question: ClozeQuestion | ShortAnswerQuestion;
+  answered: boolean;
+  correct: boolean;
+  onSubmit: (response: string) => void;
+}
+
+// Shared by cloze and short-answer questions: both are a typed answer that is
+// graded with typo tolerance.
+export const TextAnswerQuestionView = ({ question, answered, correct, onSubmit }: TextAnswerQuestionViewProps) => {
+  const { t } = useI18n();
+  const [value, setValue] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!value.trim() || answered) return;
+    onSubmit(value);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={question.type === "cloze" ? t("quiz.fillBlank") : t("quiz.typeAnswer")}
+          disabled={answered}
+          autoFocus
+          className={answered ? (correct ? "border-green-500" : "border-destructive") : undefined}
+        />
+        {!answered && (
+          <Button type="submit" disabled={!value.trim()}>
+            {t("quiz.check")}
+          </Button>
+        )}
+      </div>
+      {answered && (
+        <p className={`flex items-center gap-2 text-sm ${correct ? "text-green-600" : "text-destructive"}`}>
+          {correct ? <CheckCircle className="w-4 h-4 flex-shrink-0" /> : <XCircle className="w-4 h-4 flex-shrink-0" />}
+          <span className="break-words">
+            {correct ? t("quiz.correct") : t("quiz.notQuite")} {t("quiz.answerLabel")}{" "}
+            <span className="font-medium">{question.answer}</span>
+          </span>
+        </p>
+      )}
+    </form>
+  );
+};
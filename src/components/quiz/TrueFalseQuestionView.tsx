@@ -0,0 +1,52 @@
+import { Button } from "@/components/ui/button";
+import { CheckCircle, XCircle } from "lucide-react";
+import type { TrueFalseQuestion } from "@/lib/quiz";
+import { useI18n } from "@/i18n/context";
+
+interface TrueFalseQuestionViewProps {
+  question: TrueFalseQuestion;
+  response: boolean | null;
+  answered: boolean;
+  onSubmit: (response: boolean) => void;
+}
+
+const CHOICES = [
+  { value: true, labelKey: "quiz.true" },
+  { value: false, labelKey: "quiz.false" },
+] as const;
+
+export const TrueFalseQuestionView = ({ question, response, answered, onSubmit }: TrueFalseQuestionViewProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid grid-cols-2 gap-2 sm:gap-3">
+      {CHOICES.map(({ value, labelKey }) => {
+        let buttonClass = "h-auto py-3 sm:py-4 gap-2";
+
+        if (answered) {
+          if (value === question.answer) {
+            buttonClass += " border-green-500 bg-green-500/10";
+          } else if (value === response) {
+            buttonClass += " border-destructive bg-destructive/10";
+          }
+        }
+
+        return (
+          <Button
+            key={labelKey}
+            variant="outline"
+            className={buttonClass}
+            onClick={() => onSubmit(value)}
+            disabled={answered}
+          >
+            {t(labelKey)}
+            {answered && value === question.answer && <CheckCircle className="w-4 h-4 text-green-500" />}
+            {answered && value === response && value !== question.answer && (
+              <XCircle className="w-4 h-4 text-destructive" />
+            )}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
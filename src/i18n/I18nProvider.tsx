@@ -0,0 +1,57 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/auth/context";
+import { I18nContext } from "./context";
+import { DEFAULT_LANGUAGE, isLanguage, translate, type Language, type MessageKey, type MessageParams } from "./index";
+
+const STORAGE_KEY = "ethiocard-language";
+
+const storedLanguage = (): Language => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+};
+
+// Holds the interface language. Signed-out visitors keep their choice in
+// localStorage; once signed in, the language saved on their profile wins and
+// later changes are written back to it.
+export const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const { user, profile } = useAuth();
+  const [language, setLanguageState] = useState<Language>(storedLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Apply the profile's language once the signed-in account has loaded
+  const profileLanguage = profile?.language;
+  useEffect(() => {
+    if (isLanguage(profileLanguage)) {
+      setLanguageState(profileLanguage);
+      localStorage.setItem(STORAGE_KEY, profileLanguage);
+    }
+  }, [profileLanguage]);
+
+  const userId = user?.id;
+  const setLanguage = useCallback(async (next: Language) => {
+    setLanguageState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+
+    if (userId) {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ language: next })
+        .eq("id", userId);
+
+      if (error) console.error("Failed to save language:", error);
+    }
+  }, [userId]);
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language]
+  );
+
+  const value = useMemo(() => ({ language, setLanguage, t }), [language, setLanguage, t]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+import { DEFAULT_LANGUAGE, translate, type Language, type MessageKey, type MessageParams } from "./index";
+
+export interface I18nContextValue {
+  language: Language;
+  setLanguage: (language: Language) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export const I18nContext = createContext<I18nContextValue>({
+  language: DEFAULT_LANGUAGE,
+  setLanguage: async () => {},
+  t: (key, params) => translate(DEFAULT_LANGUAGE, key, params),
+});
+
+export const useI18n = () => useContext(I18nContext);
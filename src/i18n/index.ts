@@ -0,0 +1,34 @@
+import { en, type MessageKey, type Messages } from "./messages/en";
+import { am } from "./messages/am";
+import { om } from "./messages/om";
+import { ti } from "./messages/ti";
+
+export type { MessageKey, Messages };
+
+export type Language = "en" | "am" | "om" | "ti";
+
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: "en", name: "English" },
+  { code: "am", name: "አማርኛ" },
+  { code: "om", name: "Afaan Oromoo" },
+  { code: "ti", name: "ትግርኛ" },
+];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const CATALOGS: Record<Language, Messages> = { en, am, om, ti };
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(CATALOGS, value);
+
+export type MessageParams = Record<string, string | number>;
+
+// Look up a message and fill in its {placeholders}. Falls back to English so a
+// missing translation never shows a raw key.
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[language][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
@@ -0,0 +1,490 @@
+import type { Messages } from "./en";
+
+export const am: Messages = {
+  "common.error": "ስህተት",
+  "common.loading": "በመጫን ላይ...",
+  "common.back": "ተመለስ",
+  "common.backToDashboard": "ወደ ዳሽቦርድ ተመለስ",
+  "common.dashboard": "ዳሽቦርድ",
+  "common.premium": "ፕሪሚየም",
+  "common.admin": "አስተዳዳሪ",
+  "common.upgradeToPremium": "ወደ ፕሪሚየም ያሻሽሉ",
+  "common.delete": "ሰርዝ",
+  "common.cancel": "ይቅር",
+  "common.retry": "እንደገና ሞክር",
+  "common.retrying": "እንደገና በመሞከር ላይ...",
+
+  "language.label": "ቋንቋ",
+  "language.bilingual": "እንግሊዝኛ + አማርኛ",
+
+  "landing.badge": "በAI የሚሰራ የጥናት መሣሪያ",
+  "landing.titleLead": "ማስታወሻዎችዎን ይቀይሩ ወደ",
+  "landing.titleHighlight": "ብልህ የጥናት ካርዶች",
+  "landing.subtitle": "PDF፣ ስላይዶች ወይም ምስሎችን ይጫኑ። የእኛ AI ወዲያውኑ የጥናት ካርዶችን ይፈጥራል። ማስታወሻዎችን በእጅ በመቀየር ጊዜዎን አያባክኑ።",
+  "landing.getStarted": "በነጻ ይጀምሩ",
+  "landing.uploadTitle": "ማንኛውንም ይጫኑ",
+  "landing.uploadBody": "PDF፣ የPowerPoint ስላይዶች ወይም በእጅ የተጻፉ ማስታወሻዎች ምስሎች። ሁሉንም እናስተናግዳለን።",
+  "landing.aiTitle": "በAI ማውጣት",
+  "landing.aiBody": "የላቀ AI ዋና ዋና ጽንሰ-ሀሳቦችን ለይቶ ትክክለኛ የጥያቄና መልስ ካርዶችን በራሱ ያዘጋጃል።",
+  "landing.studyTitle": "በብልሃት ያጥኑ",
+  "landing.studyBody": "ለመማር በተዘጋጀ ንጹህና ትኩረት የማይከፋፍል ገጽ ካርዶችዎን ይከልሱ።",
+  "landing.footer": "© 2025 Ethiocard AI። ጊዜያቸውን ለሚያከብሩ ተማሪዎች የተሰራ።",
+
+  "auth.loginFailed": "መግባት አልተሳካም",
+  "auth.welcomeBackToast": "እንኳን ደህና መጡ!",
+  "auth.loggedIn": "በተሳካ ሁኔታ ገብተዋል።",
+  "auth.signupFailed": "መመዝገብ አልተሳካም",
+  "auth.accountCreated": "መለያ ተፈጥሯል!",
+  "auth.welcome": "ወደ Ethiocard AI እንኳን ደህና መጡ።",
+  "auth.welcomeBack": "እንኳን ደህና መጡ",
+  "auth.createAccount": "መለያ ይፍጠሩ",
+  "auth.signInSubtitle": "ካርዶችዎን ለማግኘት ይግቡ",
+  "auth.signUpSubtitle": "በAI የሚዘጋጁ የጥናት ካርዶችን መፍጠር ይጀምሩ",
+  "auth.usernameOptional": "የተጠቃሚ ስም (አማራጭ)",
+  "auth.email": "ኢሜይል",
+  "auth.password": "የይለፍ ቃል",
+  "auth.signIn": "ግባ",
+  "auth.signUp": "ተመዝገብ",
+  "auth.switchToSignUp": "መለያ የለዎትም? ይመዝገቡ",
+  "auth.switchToSignIn": "መለያ አለዎት? ይግቡ",
+  "auth.accessDenied": "መዳረሻ ተከልክሏል",
+  "auth.accessDeniedBody": "ይህን ገጽ ለመክፈት ፈቃድ የለዎትም",
+
+  "common.cardCount": "{count} ካርዶች",
+
+  "processing.title": "በሂደት ላይ",
+  "processing.queued": "ወረፋ በመጠበቅ ላይ",
+  "processing.extracting": "ሰነድዎን በማንበብ ላይ",
+  "processing.generating": "በAI ካርዶችን በማዘጋጀት ላይ",
+  "processing.completed": "ካርዶቹ ዝግጁ ናቸው",
+  "processing.failed": "ሂደቱ አልተሳካም",
+  "processing.retryingAfterError": "ከስህተት በኋላ እንደገና በመሞከር ላይ፦ {error}",
+
+  "dashboard.readyTitle": "ካርዶቹ ዝግጁ ናቸው!",
+  "dashboard.readyBody": "{file} ተሰርቷል።",
+  "dashboard.loadFailed": "የካርድ ስብስቦችን መጫን አልተቻለም",
+  "dashboard.retryingTitle": "እንደገና በመሞከር ላይ",
+  "dashboard.retryingBody": "{file} ወደ ወረፋው ተመልሷል።",
+  "dashboard.retryFailed": "እንደገና መሞከር አልተሳካም",
+  "dashboard.retryFailedBody": "ይህን ፋይል እንደገና መሞከር አልተቻለም",
+  "dashboard.getPremium": "ፕሪሚየም ያግኙ",
+  "dashboard.signOut": "ውጣ",
+  "notifications.title": "ማሳወቂያዎች",
+  "notifications.markAllRead": "ሁሉንም እንደተነበበ ምልክት አድርግ",
+  "notifications.empty": "ምንም አዲስ ነገር የለም።",
+  "notifications.premiumApproved": "ፕሪሚየም ጸድቋል",
+  "notifications.premiumApprovedBody": "ክፍያዎ ተረጋግጧል። ያልተገደበ ፍላሽካርዶችን እና የማስታወሻ ሁነታን ይጠቀሙ።",
+  "notifications.premiumRejected": "ክፍያው አልተረጋገጠም",
+  "notifications.premiumRejectedBody": "የፕሪሚየም ጥያቄዎ አልጸደቀም። ምክንያቱን ለማየት እና እንደገና ለማቅረብ ይክፈቱት።",
+  "notifications.paymentReceived": "ክፍያ ደርሷል",
+  "notifications.paymentReceivedBody": "{amount} ብር ደርሶናል። ፕሪሚየም አሁን ንቁ ነው።",
+  "notifications.premiumExpiring": "ፕሪሚየም በቅርቡ ያበቃል",
+  "notifications.premiumExpiringBody": "ፕሪሚየምዎ በ{date} ያበቃል። አሁን ያድሱ እና የቀሩትን ቀናት ሁሉ ይያዙ።",
+  "notifications.premiumExpired": "ፕሪሚየም አብቅቷል",
+  "notifications.premiumExpiredBody": "ፕሪሚየምዎ በ{date} አብቅቷል። መልሰው ለማግኘት ያድሱ።",
+  "notifications.uploadCompleted": "ፍላሽካርዶች ዝግጁ ናቸው",
+  "notifications.uploadCompletedBody": "ከ{file} የተዘጋጁት ፍላሽካርዶችዎ ለጥናት ዝግጁ ናቸው።",
+  "notifications.uploadFailed": "ማስኬዱ አልተሳካም",
+  "notifications.uploadFailedBody": "ከ{file} ፍላሽካርዶችን ማዘጋጀት አልቻልንም። ከዳሽቦርድዎ እንደገና መሞከር ይችላሉ።",
+  "notifications.cardsDue": "ካርዶች ለክለሳ ደርሰዋል",
+  "notifications.cardsDueBody": "በማስታወሻ ሁነታ ለክለሳ የደረሱ {count} ካርዶች አሉዎት።",
+  "dashboard.title": "የእርስዎ የካርድ ስብስቦች",
+  "dashboard.subtitle": "አዲስ ስብስቦችን ይፍጠሩ ወይም ያሉትን ይከልሱ",
+  "dashboard.uploadFiles": "ፋይሎችን ይጫኑ",
+  "dashboard.loadingSets": "ካርዶችዎን በመጫን ላይ...",
+  "dashboard.emptyTitle": "እስካሁን ምንም የካርድ ስብስብ የለም",
+  "dashboard.emptyBody": "በAI የሚዘጋጁ ካርዶችን ለመጀመር የመጀመሪያ ፋይልዎን ይጫኑ",
+  "dashboard.uploadNow": "አሁን ይጫኑ",
+  "dashboard.study": "አጥና",
+  "dashboard.quiz": "ፈተና",
+  "dashboard.export": "ላክ",
+  "dashboard.exportCsv": "CSV (የተመን ሉሆች)",
+  "dashboard.exportTsv": "TSV (የAnki ጽሑፍ ማስገቢያ)",
+  "dashboard.exportAnki": "የAnki ጥቅል (.apkg)",
+  "dashboard.exportFailed": "ይህን ስብስብ መላክ አልተቻለም",
+  "dashboard.print": "አትም ወይም እንደ PDF አስቀምጥ",
+  "dashboard.filterLanguage": "በቋንቋ አጣራ",
+  "dashboard.allLanguages": "ሁሉም ቋንቋዎች",
+
+  "admin.title": "የአስተዳዳሪ ገጽ",
+
+  "memory.title": "የማስታወስ ሁነታ",
+
+  "upload.invalidType": "ያልተፈቀደ የፋይል አይነት",
+  "upload.invalidTypeBody": "የፋይል አይነት \"{type}\" አይደገፍም። እባክዎ PDF፣ PPTX፣ PNG ወይም JPEG ይጫኑ።",
+  "upload.tooLarge": "ፋይሉ በጣም ትልቅ ነው",
+  "upload.tooLargeBody": "እባክዎ ከ20MB ያነሰ ፋይል ይጫኑ",
+  "upload.fileSelected": "ፋይል ተመርጧል",
+  "upload.fileSelectedBody": "{file} ለመጫን ዝግጁ ነው",
+  "upload.limitReached": "የመጫን ገደብ ደርሰዋል",
+  "upload.limitReachedToast": "ያልተገደበ ለመጫን ወደ ፕሪሚየም ያሻሽሉ!",
+  "upload.complete": "መጫኑ ተጠናቋል!",
+  "upload.completeBody": "ካርዶችዎን በማዘጋጀት ላይ ነን። ሂደቱን በዳሽቦርድዎ ላይ መከታተል ይችላሉ።",
+  "upload.failed": "መጫን አልተሳካም",
+  "upload.failedBody": "ፋይልዎን ማስኬድ አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "upload.title": "ፋይሎችዎን ይጫኑ",
+  "upload.tabGenerate": "በAI አዘጋጅ",
+  "upload.tabImport": "ካርዶችን አስገባ",
+  "upload.limitReachedBody": "ሁሉንም {limit} ነጻ ጭነቶች ተጠቅመዋል። ያልተገደበ ለመጫን ወደ ፕሪሚየም ያሻሽሉ!",
+  "upload.remaining": "ነጻ እቅድ፦ {count} ጭነቶች ቀርተዋል",
+  "upload.used": "ከ{limit} ነጻ ጭነቶች {used}ዱን ተጠቅመዋል። ያልተገደበ ለመጫን ወደ ፕሪሚየም ያሻሽሉ።",
+  "upload.premiumMember": "የፕሪሚየም አባል - ያልተገደበ ጭነት",
+  "upload.premiumRemaining": "የፕሪሚየም አባል - በዚህ የክፍያ ጊዜ {count} ጭነቶች ቀርተዋል",
+  "upload.selectFile": "ፋይል ይምረጡ",
+  "upload.tapToSelect": "ፋይል ለመምረጥ ከታች ይንኩ",
+  "upload.supportedTypes": "PDF፣ PPTX፣ PNG፣ JPEG (ከፍተኛ 20MB)",
+  "upload.uploading": "በመጫን ላይ...",
+  "upload.queueing": "ለሂደት ወረፋ በማስያዝ ላይ...",
+  "upload.generate": "ካርዶችን አዘጋጅ",
+  "upload.outputLanguage": "የካርዶቹ ቋንቋ",
+  "upload.outputLanguageHint": "ፋይልዎ በየትኛውም ቋንቋ ቢሆን ጥያቄዎቹና መልሶቹ በዚህ ቋንቋ ይጻፋሉ።",
+
+  "flipCard.question": "ጥያቄ",
+  "flipCard.answer": "መልስ",
+  "flipCard.reveal": "መልሱን ለማየት ይንኩ",
+
+  "study.loadFailed": "ካርዶቹን መጫን አልተቻለም",
+  "study.loading": "ካርዶችን በመጫን ላይ...",
+  "study.empty": "ምንም ካርድ አልተገኘም",
+  "study.addCards": "ካርዶችን ጨምር",
+  "study.editSet": "ስብስቡን አርትዕ",
+  "study.cardPosition": "ካርድ {current} ከ{total}",
+  "study.slide": "ስላይድ {number}",
+  "study.previous": "ቀዳሚ",
+  "study.flip": "ካርዱን ገልብጥ",
+  "study.next": "ቀጣይ",
+  "study.takeQuiz": "ፈተና ውሰድ",
+
+  "editSet.notAllowed": "አልተፈቀደም",
+  "editSet.notAllowedBody": "ማርትዕ የሚችሉት የራስዎን የካርድ ስብስቦች ብቻ ነው",
+  "editSet.loadFailed": "የካርድ ስብስቡን መጫን አልተቻለም",
+  "editSet.titleRequired": "ርዕስ ያስፈልጋል",
+  "editSet.titleRequiredBody": "ለስብስብዎ ርዕስ ይስጡት",
+  "editSet.incomplete": "ያልተሟሉ ካርዶች",
+  "editSet.incompleteBody": "እያንዳንዱ ካርድ ጥያቄም መልስም ሊኖረው ይገባል",
+  "editSet.saved": "ተቀምጧል",
+  "editSet.savedBody": "የካርድ ስብስብዎ ተዘምኗል",
+  "editSet.saveFailed": "ለውጦቹን ማስቀመጥ አልተቻለም",
+  "editSet.discardConfirm": "ያልተቀመጡ ለውጦችዎን ይተዉ?",
+  "editSet.backToStudy": "ወደ ጥናት ተመለስ",
+  "editSet.saving": "በማስቀመጥ ላይ...",
+  "editSet.save": "ለውጦችን አስቀምጥ",
+  "editSet.title": "ርዕስ",
+  "editSet.description": "መግለጫ",
+  "editSet.oneCard": "1 ካርድ",
+  "editSet.dragHint": "ቅደም ተከተል ለመቀየር ካርዶችን ይጎትቱ",
+  "editSet.moveUp": "ወደ ላይ አንቀሳቅስ",
+  "editSet.moveDown": "ወደ ታች አንቀሳቅስ",
+  "editSet.questionPlaceholder": "ጥያቄ",
+  "editSet.answerPlaceholder": "መልስ",
+  "editSet.deleteCard": "ካርዱን ሰርዝ",
+  "editSet.addCard": "ካርድ ጨምር",
+
+  "quiz.notEnoughCards": "በቂ ካርዶች የሉም",
+  "quiz.notEnoughCardsBody": "ፈተና ለማዘጋጀት ቢያንስ 4 ካርዶች ያስፈልጋሉ",
+  "quiz.generateFailed": "ፈተናውን ማዘጋጀት አልተቻለም",
+  "quiz.aiReady": "የAI ፈተና ዝግጁ ነው",
+  "quiz.aiReadyBody": "{count} አዳዲስ ጥያቄዎች ተዘጋጅተዋል",
+  "quiz.aiFailed": "የAI ፈተና ማዘጋጀት አልተቻለም",
+  "quiz.aiLimit": "የዛሬውን የAI ፈተና ገደብ ደርሰዋል። ነገ እንደገና ይሞክሩ።",
+  "quiz.generating": "ፈተና በማዘጋጀት ላይ...",
+  "quiz.complete": "ፈተናው ተጠናቋል!",
+  "quiz.result": "ከ{total} ጥያቄዎች {score}ቱን በትክክል መልሰዋል",
+  "quiz.excellent": "በጣም ጥሩ! ትምህርቱን በሚገባ ተቆጣጥረዋል!",
+  "quiz.great": "ጥሩ ሥራ! ልምምድዎን ይቀጥሉ!",
+  "quiz.keepStudying": "ማጥናትዎን ይቀጥሉ! ይደርሱበታል!",
+  "quiz.tryAgain": "እንደገና ሞክር",
+  "quiz.studyCards": "ካርዶችን አጥና",
+  "quiz.questionPosition": "ጥያቄ {current} ከ{total}",
+  "quiz.aiGenerating": "በማዘጋጀት ላይ...",
+  "quiz.regenerate": "እንደገና አዘጋጅ",
+  "quiz.generateAi": "የAI ፈተና አዘጋጅ",
+  "quiz.heading": "{title} - ፈተና",
+  "quiz.explanation": "ማብራሪያ፦",
+  "quiz.runningScore": "ውጤት፦ {score}/{total}",
+  "quiz.nextQuestion": "ቀጣይ ጥያቄ",
+  "quiz.seeResults": "ውጤቱን እይ",
+  "quiz.type.mcq": "ምርጫ",
+  "quiz.type.trueFalse": "እውነት ወይም ሐሰት",
+  "quiz.type.cloze": "ባዶ ቦታ ሙላ",
+  "quiz.type.shortAnswer": "አጭር መልስ",
+  "quiz.type.matching": "አዛምድ",
+  "quiz.true": "እውነት",
+  "quiz.false": "ሐሰት",
+  "quiz.fillBlank": "ባዶ ቦታውን ይሙሉ",
+  "quiz.typeAnswer": "መልስዎን ይጻፉ",
+  "quiz.check": "አረጋግጥ",
+  "quiz.correct": "ትክክል!",
+  "quiz.notQuite": "ትክክል አይደለም።",
+  "quiz.answerLabel": "መልስ፦",
+  "quiz.chooseMatch": "ተዛማጁን ይምረጡ",
+  "quiz.correctMatch": "ትክክለኛው፦ {answer}",
+  "quiz.checkMatches": "ማዛመጃዎችን አረጋግጥ",
+  "quiz.correctAnswerIs": "ትክክለኛው መልስ፦ {answer}",
+  "quiz.matchingPrompt": "እያንዳንዱን ጥያቄ ከመልሱ ጋር ያዛምዱ",
+
+  "quizHistory.title": "የውጤት ታሪክ",
+  "quizHistory.loadFailed": "የፈተና ታሪክን መጫን አልተቻለም",
+  "quizHistory.loading": "ታሪክ በመጫን ላይ...",
+  "quizHistory.score": "ውጤት",
+  "quizHistory.minutesSeconds": "{minutes}ደ {seconds}ሰ",
+  "quizHistory.seconds": "{seconds}ሰ",
+  "quizHistory.heading": "{title} - የውጤት ታሪክ",
+  "quizHistory.oneAttempt": "1 ሙከራ",
+  "quizHistory.attemptCount": "{count} ሙከራዎች",
+  "quizHistory.emptyTitle": "እስካሁን ምንም ሙከራ የለም",
+  "quizHistory.emptyBody": "ውጤቶችዎን መከታተል ለመጀመር ፈተና ይውሰዱ",
+  "quizHistory.best": "ከፍተኛ ውጤት",
+  "quizHistory.average": "አማካይ ውጤት",
+  "quizHistory.trend": "የውጤት አዝማሚያ",
+  "quizHistory.trendBody": "በእያንዳንዱ ሙከራ ትክክል የሆነው መቶኛ",
+  "quizHistory.correctCount": "{score}/{total} ትክክል",
+
+  "memory.again": "እንደገና",
+  "memory.hard": "ከባድ",
+  "memory.good": "ጥሩ",
+  "memory.easy": "ቀላል",
+  "memory.loadFailed": "የክለሳ ወረፋዎን መጫን አልተቻለም",
+  "memory.saveFailed": "ክለሳዎን ማስቀመጥ አልተቻለም",
+  "memory.loading": "የክለሳ ወረፋ በመጫን ላይ...",
+  "memory.cardsLeft": "ለዛሬ {count} ካርዶች ቀርተዋል",
+  "memory.premiumTitle": "የማስታወስ ሁነታ የፕሪሚየም አገልግሎት ነው",
+  "memory.premiumBody": "ክፍተት ያለው ድግግሞሽ እያንዳንዱን ካርድ ሊረሱት በተቃረቡበት ቅጽበት ያቀርባል፤ በዚህም ትንሽ እያጠኑ ብዙ ያስታውሳሉ።",
+  "memory.caughtUp": "ሁሉንም ጨርሰዋል!",
+  "memory.reviewedBody": "{count} ካርዶችን ከልሰዋል። ለቀጣይ ክለሳዎ ነገ ይመለሱ።",
+  "memory.nothingDue": "አሁን የሚከለስ ካርድ የለም። በኋላ ይመለሱ ወይም አዲስ ትምህርት ይጫኑ።",
+  "memory.newCard": "አዲስ ካርድ",
+  "memory.showAnswer": "መልሱን አሳይ",
+
+  "premium.invalidFile": "ያልተፈቀደ ፋይል",
+  "premium.invalidFileBody": "እባክዎ የምስል ፋይል (ስክሪንሾት) ይጫኑ",
+  "premium.tooLargeBody": "ከፍተኛው የፋይል መጠን 5MB ነው",
+  "premium.missingInfo": "የጎደለ መረጃ",
+  "premium.missingInfoBody": "እባክዎ ሁሉንም መስኮች ይሙሉ እና ስክሪንሾት ይጫኑ",
+  "premium.submitted": "ጥያቄው ገብቷል!",
+  "premium.submittedBody": "የፕሪሚየም ጥያቄዎ በአስተዳዳሪ እየታየ ነው።",
+  "premium.submitFailed": "ጥያቄውን ማስገባት አልተቻለም",
+  "premium.duplicateReference": "ይህ የግብይት ማጣቀሻ ቀድሞ ገብቷል። በደረሰኝዎ ላይ ያለውን ማጣቀሻ ያረጋግጡ።",
+  "premium.title": "የፕሪሚየም መዳረሻ",
+  "premium.subtitle": "ያልተገደበ የካርድ ዝግጅት እና የማስታወስ ሁነታን ይክፈቱ",
+  "premium.active": "ፕሪሚየም ነዎት!",
+  "premium.activeBody": "ያልተገደበ የካርድ ዝግጅት እና ሁሉንም የፕሪሚየም አገልግሎቶች ይደሰቱ።",
+  "premium.expiresIn": "በ{count} ቀናት ውስጥ ያበቃል ({date})",
+  "premium.expiresInOneDay": "ነገ ያበቃል ({date})",
+  "premium.expiresToday": "ዛሬ ያበቃል ({date})",
+  "premium.renew": "ፕሪሚየም ያድሱ",
+  "premium.renewBody": "እድሳት የዕቅድዎን ርዝመት አሁን ባለው የማብቂያ ቀን ላይ ይጨምራል፤ ስለዚህ የከፈሉበትን አንድም ቀን አያጡም።",
+  "premium.pending": "ጥያቄው በመጠባበቅ ላይ ነው",
+  "premium.pendingBody": "ክፍያዎ በአስተዳዳሪ እየተረጋገጠ ነው። እባክዎ ይጠብቁ።",
+  "premium.paymentConfirming": "ክፍያዎን በማረጋገጥ ላይ",
+  "premium.paymentConfirmingBody": "ይህ አብዛኛውን ጊዜ ጥቂት ሰከንዶች ይወስዳል። ይህን ገጽ መልቀቅ ይችላሉ፤ ክፍያው እንደተረጋገጠ ፕሪሚየም ይጀምራል።",
+  "premium.paymentSucceeded": "ክፍያ ደርሷል",
+  "premium.paymentSucceededBody": "ፕሪሚየምዎ አሁን ንቁ ነው። እናመሰግናለን!",
+  "premium.paymentFailed": "ክፍያው አልተጠናቀቀም",
+  "premium.paymentFailedBody": "ለፕሪሚየም ምንም ገንዘብ አልተወሰደም። እንደገና መሞከር ወይም በባንክ ዝውውር መክፈል ይችላሉ።",
+  "premium.expired": "ፕሪሚየምዎ አብቅቷል",
+  "premium.expiredBody": "በ{date} አብቅቷል። ያልተገደበ ካርድ እና የማስታወስ ሁነታን መልሰው ለማግኘት ከታች ያድሱ።",
+  "premium.submittedOn": "የገባበት ቀን፦ {date}",
+  "premium.rejected": "ጥያቄው ውድቅ ተደርጓል",
+  "premium.rejectedBody": "ክፍያዎን ማረጋገጥ አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "premium.reviewerNote": "ከገምጋሚው የተሰጠ ማስታወሻ፦ {note}",
+  "premium.resubmitHint": "ከታች ያሉትን ዝርዝሮች ያስተካክሉ እና ማረጋገጫዎን እንደገና ይላኩ። አዲሱ ጥያቄዎ ከዚህኛው ጋር ይያያዛል።",
+  "premium.rejection.amountMismatch": "የተከፈለው መጠን ከዕቅዱ ዋጋ ጋር አይመሳሰልም",
+  "premium.rejection.referenceNotFound": "ይህን የግብይት ማጣቀሻ በባንክ መግለጫችን ውስጥ ማግኘት አልቻልንም",
+  "premium.rejection.unreadableScreenshot": "ቅጽበታዊ ገጽ እይታው ግልጽ አይደለም ወይም ክፍያውን አያሳይም",
+  "premium.rejection.duplicateReceipt": "ይህ ደረሰኝ ቀደም ሲል ለሌላ ጥያቄ ጥቅም ላይ ውሏል",
+  "premium.rejection.other": "ሌላ ምክንያት",
+  "premium.benefits": "የፕሪሚየም ጥቅሞች",
+  "premium.benefitUnlimited": "ያልተገደበ የካርድ ዝግጅት",
+  "premium.benefitMemory": "የማስታወስ ሁነታ (ክፍተት ያለው ድግግሞሽ)",
+  "premium.benefitQuiz": "በራስ-ሰር የሚዘጋጁ ጥያቄዎች ያሉት የፈተና ሁነታ",
+  "premium.benefitSupport": "ቅድሚያ የሚሰጠው ድጋፍ",
+  "premium.paymentInfo": "የክፍያ መረጃ",
+  "premium.paymentInfoBody": "ዕቅድ ይምረጡ፣ ከዚያ በመስመር ላይ ወይም በባንክ ዝውውር ይክፈሉ።",
+  "premium.payOnline": "በመስመር ላይ ይክፈሉ",
+  "premium.payOnlineHint": "በቻፓ በኩል በቴሌብር፣ በሲቢኢ ብር፣ በኤም-ፔሳ ወይም በካርድ። ክፍያው እንደተረጋገጠ ፕሪሚየም ይጀምራል።",
+  "premium.orBankTransfer": "ወይም በባንክ ዝውውር ይክፈሉ",
+  "premium.checkoutFailed": "የመስመር ላይ ክፍያውን መጀመር አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "premium.plan.monthly": "ወርሃዊ",
+  "premium.plan.semester": "ሴሚስተር",
+  "premium.plan.yearly": "ዓመታዊ",
+  "premium.planDuration": "{days} ቀናት ፕሪሚየም",
+  "premium.planPrice": "{price} ብር",
+  "premium.accountNumber": "የንግድ ባንክ ሂሳብ ቁጥር፦",
+  "premium.bankName": "የኢትዮጵያ ንግድ ባንክ",
+  "premium.afterPayment": "ክፍያውን ከላኩ በኋላ ስክሪንሾትዎን ከታች ይጫኑ።",
+  "premium.submitProof": "የክፍያ ማረጋገጫ ያስገቡ",
+  "premium.submitProofBody": "የክፍያ ስክሪንሾትዎን ይጫኑ እና መረጃዎን ያረጋግጡ",
+  "premium.emailAddress": "የኢሜይል አድራሻ",
+  "premium.username": "የተጠቃሚ ስም",
+  "premium.usernamePlaceholder": "የተጠቃሚ ስምዎ",
+  "premium.transactionReference": "የግብይት ማጣቀሻ ቁጥር",
+  "premium.transactionReferenceHint": "በባንክ ደረሰኝዎ ወይም በኤስኤምኤስ ላይ ያለው ማጣቀሻ፣ ለምሳሌ FT24123ABCDE።",
+  "premium.amountPaid": "የተከፈለ መጠን (ብር)",
+  "premium.payerName": "የከፋዩ ስም",
+  "premium.payerNamePlaceholder": "በባንክ ሂሳቡ ላይ ያለው ስም",
+  "premium.screenshot": "የክፍያ ስክሪንሾት",
+  "premium.screenshotPrompt": "የክፍያ ስክሪንሾት ለመጫን ይንኩ",
+  "premium.submitting": "በማስገባት ላይ...",
+  "premium.submit": "የክፍያ ጥያቄ አስገባ",
+
+  "notFound.message": "ይቅርታ! ገጹ አልተገኘም",
+  "notFound.home": "ወደ መነሻ ገጽ ተመለስ",
+
+  "admin.approved": "ጸድቋል!",
+  "admin.approvedBody": "ለ{username} ፕሪሚየም ተከፍቷል",
+  "admin.defaultRejectReason": "ክፍያውን ማረጋገጥ አልተቻለም",
+  "admin.rejectTitle": "የክፍያ ማረጋገጫውን ውድቅ አድርግ",
+  "admin.rejectDescription": "{username} አስተካክለው እንደገና እንዲልኩ ስህተቱ ምን እንደሆነ ይንገሩ።",
+  "admin.rejectNotes": "ዝርዝሮች (አማራጭ)",
+  "admin.rejectNotesRequired": "ዝርዝሮች",
+  "admin.rejectNotesPlaceholder": "ከምክንያቱ ጋር ለተጠቃሚው ይታያል",
+  "admin.rejectionReason": "ውድቅ የተደረገው፦ {reason}",
+  "admin.resubmissionOf": "በ{date} የቀረበው ጥያቄ እንደገና መቅረብ፣ ውድቅ የተደረገበት፦ {reason}",
+  "admin.rejected": "ውድቅ ተደርጓል",
+  "admin.rejectedBody": "የ{username} ጥያቄ ውድቅ ተደርጓል",
+  "admin.updated": "ተዘምኗል",
+  "admin.updatedBody": "የ{username} የፕሪሚየም ሁኔታ ተዘምኗል",
+  "admin.deleted": "ተሰርዟል",
+  "admin.deletedBody": "ፋይሉ በተሳካ ሁኔታ ተሰርዟል",
+  "admin.reprocessing": "እንደገና በማስኬድ ላይ",
+  "admin.reprocessingBody": "{file} ለሂደት ወረፋ ገብቷል",
+  "admin.reprocessFailed": "ፋይሉን እንደገና ማስኬድ አልተቻለም",
+  "admin.pendingRequests": "በመጠባበቅ ላይ ያሉ ጥያቄዎች",
+  "admin.totalUsers": "ጠቅላላ ተጠቃሚዎች",
+  "admin.premiumUsers": "የፕሪሚየም ተጠቃሚዎች",
+  "admin.totalUploads": "ጠቅላላ ጭነቶች",
+  "admin.paymentRequests": "የክፍያ ጥያቄዎች",
+  "admin.users": "ተጠቃሚዎች",
+  "admin.uploads": "ጭነቶች",
+  "admin.plans": "ዕቅዶች",
+  "admin.requestPlan": "ዕቅድ፦ {plan} ({price} ብር)",
+  "admin.reference": "ማጣቀሻ፦ {reference}",
+  "admin.amountPaid": "{amount} ብር ተከፍሏል",
+  "admin.amountShort": "ከዕቅዱ ዋጋ ያነሰ",
+  "admin.payer": "ከፋይ፦ {name}",
+  "admin.duplicate": "ሊደገም የሚችል",
+  "admin.sameReference": "ተመሳሳይ ማጣቀሻ ከ፦ {requests}",
+  "admin.sameScreenshot": "ተመሳሳይ ቅጽበታዊ ገጽ እይታ ከ፦ {requests}",
+  "admin.screenshotUnavailable": "ቅጽበታዊ ገጽ እይታው አይገኝም",
+  "admin.planActive": "ይገኛል",
+  "admin.planPrice": "ዋጋ (ብር)",
+  "admin.planDays": "ርዝመት (ቀናት)",
+  "admin.planUploadLimit": "በእያንዳንዱ ጊዜ የጭነት ገደብ",
+  "admin.planUnlimited": "ያልተገደበ",
+  "admin.planSaved": "የ{plan} ዕቅድ ተቀምጧል",
+  "admin.planSaveFailed": "ዕቅዱን ማስቀመጥ አልተሳካም",
+  "admin.planInvalid": "ልክ ያልሆነ ዕቅድ",
+  "admin.planInvalidBody": "ዋጋ፣ ርዝመት እና የጭነት ገደብ አዎንታዊ ቁጥሮች መሆን አለባቸው። ለያልተገደበ ጭነት የጭነት ገደቡን ባዶ ይተዉት።",
+  "admin.plansLoadFailed": "ዕቅዶችን መጫን አልተሳካም",
+  "admin.noRequests": "እስካሁን ምንም የክፍያ ጥያቄ የለም",
+  "admin.status.pending": "በመጠባበቅ ላይ",
+  "admin.status.approved": "ጸድቋል",
+  "admin.status.rejected": "ውድቅ ተደርጓል",
+  "admin.viewScreenshot": "ስክሪንሾቱን እይ",
+  "admin.approve": "አጽድቅ",
+  "admin.reject": "ውድቅ አድርግ",
+  "admin.joined": "የተቀላቀለበት፦ {date}",
+  "admin.premiumUntil": "ፕሪሚየም እስከ {date}",
+  "admin.removePremium": "ፕሪሚየም አንሳ",
+  "admin.grantPremium": "ፕሪሚየም ስጥ",
+  "admin.noUploads": "እስካሁን ምንም ጭነት የለም",
+  "admin.uploadMeta": "አይነት፦ {type} | ሁኔታ፦ {status}",
+  "admin.uploadError": "ስህተት፦ {error}",
+  "admin.uploadedOn": "የተጫነበት፦ {date}",
+  "admin.viewText": "ጽሑፉን እይ",
+  "admin.reprocess": "እንደገና አስኬድ",
+  "admin.extractedText": "ከዚህ ፋይል የወጣ ጽሑፍ",
+  "offline.save": "ከመስመር ውጭ አስቀምጥ",
+  "offline.saved": "ከመስመር ውጭ ተቀምጧል",
+  "offline.savedTitle": "ከመስመር ውጭ ይገኛል",
+  "offline.savedBody": "ይህን ስብስብ ያለ ኢንተርኔት ማጥናትና መፈተን ይችላሉ።",
+  "offline.saveFailed": "ይህን ስብስብ በመሣሪያዎ ላይ ማስቀመጥ አልተቻለም",
+  "offline.removed": "ከዚህ መሣሪያ ተወግዷል",
+  "offline.usingSavedCopy": "ከመስመር ውጭ ነዎት፦ በዚህ መሣሪያ የተቀመጠው ቅጂ እየታየ ነው",
+  "offline.status": "ከመስመር ውጭ ነዎት። በዚህ መሣሪያ የተቀመጡ ስብስቦች አሁንም ይሰራሉ።",
+  "offline.waiting": "{count} ውጤቶች ለማመሳሰል እየጠበቁ ነው",
+  "offline.syncing": "ውጤቶችዎ እየተመሳሰሉ ነው...",
+  "offline.syncedTitle": "እንደገና በመስመር ላይ",
+  "offline.syncedBody": "ከመስመር ውጭ የተመዘገቡ {count} ውጤቶች ተቀምጠዋል።",
+  "offline.queuedTitle": "በዚህ መሣሪያ ተቀምጧል",
+  "offline.queuedBody": "ወደ መስመር ሲመለሱ ውጤትዎ ይጫናል።",
+  "import.fromFile": "ፋይል",
+  "import.fromQuizlet": "ከQuizlet ለጥፍ",
+  "import.fileTypes": "CSV፣ TSV ወይም የAnki ጥቅል (.apkg)",
+  "import.readFailed": "ፋይሉን ማንበብ አልተቻለም",
+  "import.quizletPaste": "ከQuizlet የExport ሳጥን ያለውን ጽሑፍ ይለጥፉ",
+  "import.quizletPlaceholder": "ቃል<tab>ትርጉም፣ በአንድ መስመር አንድ ካርድ",
+  "import.termSeparator": "በቃል እና በትርጉም መካከል",
+  "import.cardSeparator": "በካርዶች መካከል",
+  "import.separator.tab": "ታብ",
+  "import.separator.comma": "ኮማ",
+  "import.separator.dash": "ሰረዝ ( - )",
+  "import.separator.newLine": "አዲስ መስመር",
+  "import.separator.semicolon": "ድርብ ሰረዝ (;)",
+  "import.questionColumn": "የጥያቄ ዓምድ",
+  "import.answerColumn": "የመልስ ዓምድ",
+  "import.column": "ዓምድ {number}",
+  "import.skipHeader": "የመጀመሪያው ረድፍ የዓምድ ርዕሶች ነው",
+  "import.sameColumn": "ለጥያቄ እና ለመልስ የተለያዩ ዓምዶችን ይምረጡ",
+  "import.mixedNoteTypes": "ይህ ዴክ መስኮቻቸው ላይገጣጠሙ የሚችሉ {count} የAnki ማስታወሻ ዓይነቶችን ይቀላቅላል። ከማስገባትዎ በፊት ቅድመ እይታውን ያረጋግጡ።",
+  "import.preview": "ቅድመ እይታ",
+  "import.summary": "{count} ካርዶች ዝግጁ ናቸው፣ {skipped} ረድፎች ተዘለዋል",
+  "import.issuesTitle": "እነዚህ ረድፎች አይገቡም",
+  "import.rowIssue": "ረድፍ {row}፦ {problem}",
+  "import.moreIssues": "እና ሌሎች {count}",
+  "import.tooMany": "አንድ ስብስብ ቢበዛ {limit} ካርዶች ሊኖሩት ይችላል። ፋይሉን ወደ ትናንሽ ስብስቦች ይክፈሉ።",
+  "import.setTitle": "የስብስቡ ርዕስ",
+  "import.setLanguage": "የካርዶቹ ቋንቋ",
+  "import.submit": "{count} ካርዶችን አስገባ",
+  "import.importing": "በማስገባት ላይ...",
+  "import.done": "ስብስቡ ገብቷል",
+  "import.doneBody": "{count} ካርዶች ወደ ቤተ-መጻሕፍትዎ ታክለዋል",
+  "import.failed": "ስብስቡን ማስገባት አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "import.error.unreadable": "ፋይሉ ልናነበው የምንችለው CSV፣ TSV ወይም የAnki ጥቅል አይደለም።",
+  "import.error.newAnkiFormat": "ይህ ጥቅል የAnki አዲሱን ቅርጸት ይጠቀማል። በAnki ውስጥ \"Support older Anki versions\" ን መርጠው እንደገና ያውጡ።",
+  "import.error.noQuestion": "ጥያቄ የለም",
+  "import.error.noAnswer": "መልስ የለም",
+  "import.error.tooLong": "ጽሑፉ ከ5000 ቁምፊዎች ይረዝማል",
+  "print.title": "አትም",
+  "print.cards": "የሚቆረጡ ካርዶች",
+  "print.sheet": "የጥናት ወረቀት",
+  "print.print": "አትም / እንደ PDF አስቀምጥ",
+  "print.cardsHint": "በሁለቱም ገጽ በረጅሙ ጠርዝ እየገለበጡ ያትሙ፤ እያንዳንዱ መልስ ከጥያቄው ጀርባ ይወጣል። ከዚያ በነጠብጣብ መስመሮቹ ይቁረጡ።",
+  "print.sheetHint": "ጥያቄዎች እና መልሶች ጎን ለጎን። ራስዎን ለመፈተን የመልሱን ዓምድ ይሸፍኑ።",
+  "print.pdfHint": "PDF ለማግኘት \"Save as PDF\" ን እንደ አታሚ ይምረጡ።",
+  "share.button": "አጋራ",
+  "share.title": "ይህን ስብስብ ያጋሩ",
+  "share.description": "ካርዶቹን ማን ማየት እንደሚችል ይምረጡ። ሌሎች የራሳቸውን ቅጂ ማስቀመጥ ይችላሉ፤ የጥናት ሂደትዎ የግል ሆኖ ይቆያል።",
+  "share.private": "የግል",
+  "share.privateBody": "ይህን ስብስብ ማየት የሚችሉት እርስዎ ብቻ ነዎት።",
+  "share.unlisted": "ሊንኩ ያለው ማንኛውም ሰው",
+  "share.unlistedBody": "ሊንኩን የላኩላቸው የክፍል ጓደኞች ማየት ይችላሉ። የትም አይዘረዘርም።",
+  "share.public": "ለሁሉም",
+  "share.publicBody": "በተጋሩ ስብስቦች ውስጥ ይዘረዘራል፤ ማንኛውም ተማሪ ሊያገኘው ይችላል።",
+  "share.link": "ሊንክ",
+  "share.copy": "ሊንኩን ቅዳ",
+  "share.copied": "ሊንኩ ተቀድቷል",
+  "share.resetLink": "ሊንኩን ዳግም አስጀምር (የቀድሞው መስራት ያቆማል)",
+  "share.linkReset": "አዲስ ሊንክ ተፈጥሯል",
+  "share.updateFailed": "ማጋራትን ማዘመን አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "share.done": "ተጠናቋል",
+  "share.copiedFrom": "ከ{author} ስብስብ የተቀዳ",
+  "share.by": "በ{author}",
+  "share.clone": "ቅጂ ወደ ቤተ-መጻሕፍቴ አስቀምጥ",
+  "share.cloning": "በማስቀመጥ ላይ...",
+  "share.cloned": "ወደ ቤተ-መጻሕፍትዎ ተቀምጧል",
+  "share.clonedBody": "ቅጂው ለማስተካከል እና ለማጥናት የእርስዎ ነው።",
+  "share.cloneFailed": "ቅጂ ማስቀመጥ አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+  "share.openOwn": "ይህ የእርስዎ ስብስብ ነው። ይክፈቱት",
+  "share.notFound": "ይህ ስብስብ አይገኝም",
+  "share.notFoundBody": "ሊንኩ የተሳሳተ ሊሆን ይችላል፣ ወይም ባለቤቱ ማጋራቱን አቁሟል።",
+  "share.browse": "የተጋሩ ስብስቦች",
+  "share.browseTitle": "የተጋሩ ስብስቦች",
+  "share.browseSubtitle": "ሌሎች ተማሪዎች ለሁሉም ያደረጓቸው የፍላሽካርድ ስብስቦች",
+  "share.browseLanding": "ሌሎች ተማሪዎች ያጋሯቸውን ስብስቦች ይመልከቱ",
+  "share.browseEmpty": "ምንም የሕዝብ ስብስብ አልተገኘም",
+  "share.browseFailed": "የተጋሩ ስብስቦችን መጫን አልተቻለም",
+  "share.search": "ፈልግ",
+  "share.searchPlaceholder": "በርዕስ ይፈልጉ",
+};
@@ -0,0 +1,493 @@
+// Source catalog. Every other language must provide the same keys; anything
+// missing there falls back to the English text.
+export const en = {
+  "common.error": "Error",
+  "common.loading": "Loading...",
+  "common.back": "Back",
+  "common.backToDashboard": "Back to Dashboard",
+  "common.dashboard": "Dashboard",
+  "common.premium": "Premium",
+  "common.admin": "Admin",
+  "common.upgradeToPremium": "Upgrade to Premium",
+  "common.delete": "Delete",
+  "common.cancel": "Cancel",
+  "common.retry": "Retry",
+  "common.retrying": "Retrying...",
+
+  "language.label": "Language",
+  "language.bilingual": "English + Amharic",
+
+  "landing.badge": "AI-Powered Study Tool",
+  "landing.titleLead": "Turn Your Notes Into",
+  "landing.titleHighlight": "Smart Flashcards",
+  "landing.subtitle": "Upload PDFs, slides, or images. Our AI instantly creates study flashcards. Stop wasting time on manual note conversion.",
+  "landing.getStarted": "Get Started Free",
+  "landing.uploadTitle": "Upload Anything",
+  "landing.uploadBody": "PDFs, PowerPoint slides, or images of handwritten notes. We handle it all.",
+  "landing.aiTitle": "AI Extraction",
+  "landing.aiBody": "Advanced AI detects key concepts and generates perfect Q&A flashcards automatically.",
+  "landing.studyTitle": "Study Smart",
+  "landing.studyBody": "Review flashcards with a clean, distraction-free interface designed for learning.",
+  "landing.footer": "© 2025 Ethiocard AI. Built for students who value their time.",
+
+  "auth.loginFailed": "Login Failed",
+  "auth.welcomeBackToast": "Welcome back!",
+  "auth.loggedIn": "You've successfully logged in.",
+  "auth.signupFailed": "Signup Failed",
+  "auth.accountCreated": "Account Created!",
+  "auth.welcome": "Welcome to Ethiocard AI.",
+  "auth.welcomeBack": "Welcome Back",
+  "auth.createAccount": "Create Account",
+  "auth.signInSubtitle": "Sign in to access your flashcards",
+  "auth.signUpSubtitle": "Start creating AI-powered flashcards",
+  "auth.usernameOptional": "Username (optional)",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.signIn": "Sign In",
+  "auth.signUp": "Sign Up",
+  "auth.switchToSignUp": "Don't have an account? Sign up",
+  "auth.switchToSignIn": "Already have an account? Sign in",
+  "auth.accessDenied": "Access Denied",
+  "auth.accessDeniedBody": "You don't have permission to open this page",
+
+  "common.cardCount": "{count} cards",
+
+  "processing.title": "Processing",
+  "processing.queued": "Waiting in queue",
+  "processing.extracting": "Reading your document",
+  "processing.generating": "Generating flashcards with AI",
+  "processing.completed": "Flashcards ready",
+  "processing.failed": "Processing failed",
+  "processing.retryingAfterError": "Retrying after an error: {error}",
+
+  "dashboard.readyTitle": "Flashcards ready!",
+  "dashboard.readyBody": "{file} has been processed.",
+  "dashboard.loadFailed": "Failed to load flashcard sets",
+  "dashboard.retryingTitle": "Retrying",
+  "dashboard.retryingBody": "{file} is back in the queue.",
+  "dashboard.retryFailed": "Retry Failed",
+  "dashboard.retryFailedBody": "Could not retry this upload",
+  "dashboard.getPremium": "Get Premium",
+  "dashboard.signOut": "Sign Out",
+  "notifications.title": "Notifications",
+  "notifications.markAllRead": "Mark all as read",
+  "notifications.empty": "You're all caught up.",
+  "notifications.premiumApproved": "Premium approved",
+  "notifications.premiumApprovedBody": "Your payment was verified. Enjoy unlimited flashcards and Memory Mode.",
+  "notifications.premiumRejected": "Payment not verified",
+  "notifications.premiumRejectedBody": "Your Premium request was not approved. Open it to see why and resubmit.",
+  "notifications.paymentReceived": "Payment received",
+  "notifications.paymentReceivedBody": "We received {amount} Birr. Premium is now active.",
+  "notifications.premiumExpiring": "Premium ends soon",
+  "notifications.premiumExpiringBody": "Your Premium ends on {date}. Renew now and keep every remaining day.",
+  "notifications.premiumExpired": "Premium has ended",
+  "notifications.premiumExpiredBody": "Your Premium ended on {date}. Renew to get it back.",
+  "notifications.uploadCompleted": "Flashcards ready",
+  "notifications.uploadCompletedBody": "Your flashcards from {file} are ready to study.",
+  "notifications.uploadFailed": "Processing failed",
+  "notifications.uploadFailedBody": "We couldn't generate flashcards from {file}. You can retry it from your dashboard.",
+  "notifications.cardsDue": "Cards are due",
+  "notifications.cardsDueBody": "You have {count} cards due for review in Memory Mode.",
+  "dashboard.title": "Your Flashcard Sets",
+  "dashboard.subtitle": "Create new sets or review existing ones",
+  "dashboard.uploadFiles": "Upload Files",
+  "dashboard.loadingSets": "Loading your flashcards...",
+  "dashboard.emptyTitle": "No flashcard sets yet",
+  "dashboard.emptyBody": "Upload your first file to get started with AI-generated flashcards",
+  "dashboard.uploadNow": "Upload Now",
+  "dashboard.study": "Study",
+  "dashboard.quiz": "Quiz",
+  "dashboard.export": "Export",
+  "dashboard.exportCsv": "CSV (spreadsheets)",
+  "dashboard.exportTsv": "TSV (Anki text import)",
+  "dashboard.exportAnki": "Anki package (.apkg)",
+  "dashboard.exportFailed": "Couldn't export this set",
+  "dashboard.print": "Print or save as PDF",
+  "dashboard.filterLanguage": "Filter by language",
+  "dashboard.allLanguages": "All languages",
+
+  "admin.title": "Admin Panel",
+
+  "memory.title": "Memory Mode",
+
+  "upload.invalidType": "Invalid File Type",
+  "upload.invalidTypeBody": "File type \"{type}\" not supported. Please upload PDF, PPTX, PNG, or JPEG.",
+  "upload.tooLarge": "File Too Large",
+  "upload.tooLargeBody": "Please upload a file smaller than 20MB",
+  "upload.fileSelected": "File Selected",
+  "upload.fileSelectedBody": "{file} ready to upload",
+  "upload.limitReached": "Upload Limit Reached",
+  "upload.limitReachedToast": "Upgrade to Premium for unlimited uploads!",
+  "upload.complete": "Upload complete!",
+  "upload.completeBody": "We're generating your flashcards. You can follow the progress on your dashboard.",
+  "upload.failed": "Upload Failed",
+  "upload.failedBody": "Failed to process your file. Please try again.",
+  "upload.title": "Upload Your Files",
+  "upload.tabGenerate": "Generate with AI",
+  "upload.tabImport": "Import cards",
+  "upload.limitReachedBody": "You've used all {limit} free uploads. Upgrade to Premium for unlimited uploads!",
+  "upload.remaining": "Free Plan: {count} uploads remaining",
+  "upload.used": "You've used {used} of {limit} free uploads. Upgrade to Premium for unlimited uploads.",
+  "upload.premiumMember": "Premium Member - Unlimited Uploads",
+  "upload.premiumRemaining": "Premium Member - {count} uploads remaining this billing period",
+  "upload.selectFile": "Select File",
+  "upload.tapToSelect": "Tap below to select file",
+  "upload.supportedTypes": "PDF, PPTX, PNG, JPEG (max 20MB)",
+  "upload.uploading": "Uploading...",
+  "upload.queueing": "Queueing for processing...",
+  "upload.generate": "Generate Flashcards",
+  "upload.outputLanguage": "Flashcard language",
+  "upload.outputLanguageHint": "Questions and answers are written in this language, whatever language your file is in.",
+
+  "flipCard.question": "QUESTION",
+  "flipCard.answer": "ANSWER",
+  "flipCard.reveal": "Click to reveal answer",
+
+  "study.loadFailed": "Failed to load flashcards",
+  "study.loading": "Loading flashcards...",
+  "study.empty": "No flashcards found",
+  "study.addCards": "Add Cards",
+  "study.editSet": "Edit Set",
+  "study.cardPosition": "Card {current} of {total}",
+  "study.slide": "Slide {number}",
+  "study.previous": "Previous",
+  "study.flip": "Flip Card",
+  "study.next": "Next",
+  "study.takeQuiz": "Take Quiz",
+
+  "editSet.notAllowed": "Not allowed",
+  "editSet.notAllowedBody": "You can only edit your own flashcard sets",
+  "editSet.loadFailed": "Failed to load flashcard set",
+  "editSet.titleRequired": "Title required",
+  "editSet.titleRequiredBody": "Give your set a title",
+  "editSet.incomplete": "Incomplete cards",
+  "editSet.incompleteBody": "Every card needs both a question and an answer",
+  "editSet.saved": "Saved",
+  "editSet.savedBody": "Your flashcard set has been updated",
+  "editSet.saveFailed": "Failed to save changes",
+  "editSet.discardConfirm": "Discard your unsaved changes?",
+  "editSet.backToStudy": "Back to Study",
+  "editSet.saving": "Saving...",
+  "editSet.save": "Save Changes",
+  "editSet.title": "Title",
+  "editSet.description": "Description",
+  "editSet.oneCard": "1 card",
+  "editSet.dragHint": "Drag cards to reorder",
+  "editSet.moveUp": "Move up",
+  "editSet.moveDown": "Move down",
+  "editSet.questionPlaceholder": "Question",
+  "editSet.answerPlaceholder": "Answer",
+  "editSet.deleteCard": "Delete card",
+  "editSet.addCard": "Add Card",
+
+  "quiz.notEnoughCards": "Not Enough Cards",
+  "quiz.notEnoughCardsBody": "Need at least 4 flashcards to generate a quiz",
+  "quiz.generateFailed": "Failed to generate quiz",
+  "quiz.aiReady": "AI quiz ready",
+  "quiz.aiReadyBody": "{count} new questions generated",
+  "quiz.aiFailed": "Failed to generate AI quiz",
+  "quiz.aiLimit": "You've reached today's AI quiz limit. Try again tomorrow.",
+  "quiz.generating": "Generating quiz...",
+  "quiz.complete": "Quiz Complete!",
+  "quiz.result": "You got {score} out of {total} correct",
+  "quiz.excellent": "Excellent! You've mastered this material!",
+  "quiz.great": "Great job! Keep practicing!",
+  "quiz.keepStudying": "Keep studying! You'll get there!",
+  "quiz.tryAgain": "Try Again",
+  "quiz.studyCards": "Study Cards",
+  "quiz.questionPosition": "Question {current} of {total}",
+  "quiz.aiGenerating": "Generating...",
+  "quiz.regenerate": "Regenerate",
+  "quiz.generateAi": "Generate AI Quiz",
+  "quiz.heading": "{title} - Quiz",
+  "quiz.explanation": "Explanation:",
+  "quiz.runningScore": "Score: {score}/{total}",
+  "quiz.nextQuestion": "Next Question",
+  "quiz.seeResults": "See Results",
+  "quiz.type.mcq": "Multiple choice",
+  "quiz.type.trueFalse": "True or false",
+  "quiz.type.cloze": "Fill in the blank",
+  "quiz.type.shortAnswer": "Short answer",
+  "quiz.type.matching": "Matching",
+  "quiz.true": "True",
+  "quiz.false": "False",
+  "quiz.fillBlank": "Fill in the blank",
+  "quiz.typeAnswer": "Type your answer",
+  "quiz.check": "Check",
+  "quiz.correct": "Correct!",
+  "quiz.notQuite": "Not quite.",
+  "quiz.answerLabel": "Answer:",
+  "quiz.chooseMatch": "Choose a match",
+  "quiz.correctMatch": "Correct: {answer}",
+  "quiz.checkMatches": "Check Matches",
+  "quiz.correctAnswerIs": "The correct answer is: {answer}",
+  "quiz.matchingPrompt": "Match each question with its answer",
+
+  "quizHistory.title": "Score History",
+  "quizHistory.loadFailed": "Failed to load quiz history",
+  "quizHistory.loading": "Loading history...",
+  "quizHistory.score": "Score",
+  "quizHistory.minutesSeconds": "{minutes}m {seconds}s",
+  "quizHistory.seconds": "{seconds}s",
+  "quizHistory.heading": "{title} - Score History",
+  "quizHistory.oneAttempt": "1 attempt",
+  "quizHistory.attemptCount": "{count} attempts",
+  "quizHistory.emptyTitle": "No attempts yet",
+  "quizHistory.emptyBody": "Take a quiz to start tracking your scores",
+  "quizHistory.best": "Best score",
+  "quizHistory.average": "Average score",
+  "quizHistory.trend": "Score Trend",
+  "quizHistory.trendBody": "Percentage correct on each attempt",
+  "quizHistory.correctCount": "{score}/{total} correct",
+
+  "memory.again": "Again",
+  "memory.hard": "Hard",
+  "memory.good": "Good",
+  "memory.easy": "Easy",
+  "memory.loadFailed": "Failed to load your review queue",
+  "memory.saveFailed": "Failed to save your review",
+  "memory.loading": "Loading review queue...",
+  "memory.cardsLeft": "{count} cards left today",
+  "memory.premiumTitle": "Memory Mode is a Premium feature",
+  "memory.premiumBody": "Spaced repetition schedules every card for the moment you're about to forget it, so you remember more while studying less.",
+  "memory.caughtUp": "All caught up!",
+  "memory.reviewedBody": "You reviewed {count} cards. Come back tomorrow for your next reviews.",
+  "memory.nothingDue": "No cards are due right now. Come back later or upload new material.",
+  "memory.newCard": "New card",
+  "memory.showAnswer": "Show Answer",
+
+  "premium.invalidFile": "Invalid File",
+  "premium.invalidFileBody": "Please upload an image file (screenshot)",
+  "premium.tooLargeBody": "Maximum file size is 5MB",
+  "premium.missingInfo": "Missing Information",
+  "premium.missingInfoBody": "Please fill all fields and upload a screenshot",
+  "premium.submitted": "Request Submitted!",
+  "premium.submittedBody": "Your premium request is being reviewed by admin.",
+  "premium.submitFailed": "Failed to submit request",
+  "premium.duplicateReference": "This transaction reference has already been submitted. Check the reference on your receipt.",
+  "premium.title": "Premium Access",
+  "premium.subtitle": "Unlock unlimited flashcard generation and Memory Mode",
+  "premium.active": "You're Premium!",
+  "premium.activeBody": "Enjoy unlimited flashcard generation and all premium features.",
+  "premium.expiresIn": "Expires in {count} days ({date})",
+  "premium.expiresInOneDay": "Expires tomorrow ({date})",
+  "premium.expiresToday": "Expires today ({date})",
+  "premium.renew": "Renew Premium",
+  "premium.renewBody": "A renewal adds your plan's length to your current expiry date, so you keep every day you have already paid for.",
+  "premium.pending": "Request Pending",
+  "premium.pendingBody": "Your payment is being verified by admin. Please wait.",
+  "premium.paymentConfirming": "Confirming your payment",
+  "premium.paymentConfirmingBody": "This usually takes a few seconds. You can leave this page: Premium turns on as soon as the payment clears.",
+  "premium.paymentSucceeded": "Payment received",
+  "premium.paymentSucceededBody": "Your Premium is now active. Thank you!",
+  "premium.paymentFailed": "Payment not completed",
+  "premium.paymentFailedBody": "No money was taken for Premium. You can try again or pay by bank transfer.",
+  "premium.expired": "Your Premium has expired",
+  "premium.expiredBody": "It ended on {date}. Renew below to get unlimited flashcards and Memory Mode back.",
+  "premium.submittedOn": "Submitted: {date}",
+  "premium.rejected": "Request Rejected",
+  "premium.rejectedBody": "Your payment could not be verified. Please try again.",
+  "premium.reviewerNote": "Note from the reviewer: {note}",
+  "premium.resubmitHint": "Correct the details below and send your proof again. Your new request will be linked to this one.",
+  "premium.rejection.amountMismatch": "The amount paid doesn't match the plan price",
+  "premium.rejection.referenceNotFound": "We couldn't find this transaction reference in our bank statement",
+  "premium.rejection.unreadableScreenshot": "The screenshot is unclear or doesn't show the payment",
+  "premium.rejection.duplicateReceipt": "This receipt was already used for another request",
+  "premium.rejection.other": "Other reason",
+  "premium.benefits": "Premium Benefits",
+  "premium.benefitUnlimited": "Unlimited flashcard generation",
+  "premium.benefitMemory": "Memory Mode (Spaced Repetition)",
+  "premium.benefitQuiz": "Quiz Mode with auto-generated questions",
+  "premium.benefitSupport": "Priority support",
+  "premium.paymentInfo": "Payment Information",
+  "premium.paymentInfoBody": "Choose a plan, then pay online or by bank transfer.",
+  "premium.payOnline": "Pay online",
+  "premium.payOnlineHint": "Telebirr, CBE Birr, M-Pesa or card through Chapa. Premium turns on as soon as the payment clears.",
+  "premium.orBankTransfer": "or pay by bank transfer",
+  "premium.checkoutFailed": "Could not start the online payment. Please try again.",
+  "premium.plan.monthly": "Monthly",
+  "premium.plan.semester": "Semester",
+  "premium.plan.yearly": "Yearly",
+  "premium.planDuration": "{days} days of Premium",
+  "premium.planPrice": "{price} Birr",
+  "premium.accountNumber": "CBE Account Number:",
+  "premium.bankName": "Commercial Bank of Ethiopia",
+  "premium.afterPayment": "After sending payment, upload your screenshot below.",
+  "premium.submitProof": "Submit Payment Proof",
+  "premium.submitProofBody": "Upload your payment screenshot and verify your details",
+  "premium.emailAddress": "Email Address",
+  "premium.username": "Username",
+  "premium.usernamePlaceholder": "Your username",
+  "premium.transactionReference": "Transaction reference",
+  "premium.transactionReferenceHint": "The reference on your bank receipt or SMS, for example FT24123ABCDE.",
+  "premium.amountPaid": "Amount paid (Birr)",
+  "premium.payerName": "Payer name",
+  "premium.payerNamePlaceholder": "Name on the bank account",
+  "premium.screenshot": "Payment Screenshot",
+  "premium.screenshotPrompt": "Click to upload payment screenshot",
+  "premium.submitting": "Submitting...",
+  "premium.submit": "Submit Payment Request",
+
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+
+  "admin.approved": "Approved!",
+  "admin.approvedBody": "Premium activated for {username}",
+  "admin.defaultRejectReason": "Payment could not be verified",
+  "admin.rejectTitle": "Reject payment proof",
+  "admin.rejectDescription": "Tell {username} what was wrong so they can correct it and resubmit.",
+  "admin.rejectNotes": "Details (optional)",
+  "admin.rejectNotesRequired": "Details",
+  "admin.rejectNotesPlaceholder": "Shown to the user with the reason",
+  "admin.rejectionReason": "Rejected: {reason}",
+  "admin.resubmissionOf": "Resubmission of the request from {date}, rejected: {reason}",
+  "admin.rejected": "Rejected",
+  "admin.rejectedBody": "Request from {username} rejected",
+  "admin.updated": "Updated",
+  "admin.updatedBody": "{username} premium status updated",
+  "admin.deleted": "Deleted",
+  "admin.deletedBody": "Upload deleted successfully",
+  "admin.reprocessing": "Reprocessing",
+  "admin.reprocessingBody": "{file} has been queued for processing",
+  "admin.reprocessFailed": "Failed to reprocess upload",
+  "admin.pendingRequests": "Pending Requests",
+  "admin.totalUsers": "Total Users",
+  "admin.premiumUsers": "Premium Users",
+  "admin.totalUploads": "Total Uploads",
+  "admin.paymentRequests": "Payment Requests",
+  "admin.users": "Users",
+  "admin.uploads": "Uploads",
+  "admin.plans": "Plans",
+  "admin.requestPlan": "Plan: {plan} ({price} Birr)",
+  "admin.reference": "Reference: {reference}",
+  "admin.amountPaid": "Paid {amount} Birr",
+  "admin.amountShort": "less than the plan price",
+  "admin.payer": "Payer: {name}",
+  "admin.duplicate": "Possible duplicate",
+  "admin.sameReference": "Same reference as: {requests}",
+  "admin.sameScreenshot": "Same screenshot as: {requests}",
+  "admin.screenshotUnavailable": "Screenshot unavailable",
+  "admin.planActive": "Available",
+  "admin.planPrice": "Price (Birr)",
+  "admin.planDays": "Length (days)",
+  "admin.planUploadLimit": "Uploads per period",
+  "admin.planUnlimited": "Unlimited",
+  "admin.planSaved": "{plan} plan saved",
+  "admin.planSaveFailed": "Failed to save plan",
+  "admin.planInvalid": "Invalid plan",
+  "admin.planInvalidBody": "Price, length and upload limit must be positive numbers. Leave the upload limit empty for unlimited uploads.",
+  "admin.plansLoadFailed": "Failed to load plans",
+  "admin.noRequests": "No payment requests yet",
+  "admin.status.pending": "pending",
+  "admin.status.approved": "approved",
+  "admin.status.rejected": "rejected",
+  "admin.viewScreenshot": "View Screenshot",
+  "admin.approve": "Approve",
+  "admin.reject": "Reject",
+  "admin.joined": "Joined: {date}",
+  "admin.premiumUntil": "Premium until {date}",
+  "admin.removePremium": "Remove Premium",
+  "admin.grantPremium": "Grant Premium",
+  "admin.noUploads": "No uploads yet",
+  "admin.uploadMeta": "Type: {type} | Status: {status}",
+  "admin.uploadError": "Error: {error}",
+  "admin.uploadedOn": "Uploaded: {date}",
+  "admin.viewText": "View Text",
+  "admin.reprocess": "Reprocess",
+  "admin.extractedText": "Text extracted from this upload",
+  "offline.save": "Save offline",
+  "offline.saved": "Saved offline",
+  "offline.savedTitle": "Available offline",
+  "offline.savedBody": "You can study and quiz this set without a connection.",
+  "offline.saveFailed": "Couldn't save this set on your device",
+  "offline.removed": "Removed from this device",
+  "offline.usingSavedCopy": "You're offline: showing the copy saved on this device",
+  "offline.status": "You're offline. Sets saved on this device still work.",
+  "offline.waiting": "{count} results waiting to sync",
+  "offline.syncing": "Syncing your results...",
+  "offline.syncedTitle": "Back online",
+  "offline.syncedBody": "{count} results recorded offline were saved.",
+  "offline.queuedTitle": "Saved on this device",
+  "offline.queuedBody": "Your result will be uploaded when you're back online.",
+  "import.fromFile": "File",
+  "import.fromQuizlet": "Paste from Quizlet",
+  "import.fileTypes": "CSV, TSV or Anki package (.apkg)",
+  "import.readFailed": "Couldn't read the file",
+  "import.quizletPaste": "Paste the text from Quizlet's Export box",
+  "import.quizletPlaceholder": "Term<tab>Definition, one card per line",
+  "import.termSeparator": "Between term and definition",
+  "import.cardSeparator": "Between cards",
+  "import.separator.tab": "Tab",
+  "import.separator.comma": "Comma",
+  "import.separator.dash": "Dash ( - )",
+  "import.separator.newLine": "New line",
+  "import.separator.semicolon": "Semicolon",
+  "import.questionColumn": "Question column",
+  "import.answerColumn": "Answer column",
+  "import.column": "Column {number}",
+  "import.skipHeader": "First row is column headings",
+  "import.sameColumn": "Pick different columns for the question and the answer",
+  "import.mixedNoteTypes": "This deck mixes {count} Anki note types whose fields may not line up. Check the preview before importing.",
+  "import.preview": "Preview",
+  "import.summary": "{count} cards ready, {skipped} rows skipped",
+  "import.issuesTitle": "These rows won't be imported",
+  "import.rowIssue": "Row {row}: {problem}",
+  "import.moreIssues": "and {count} more",
+  "import.tooMany": "A set can have at most {limit} cards. Split the file into smaller sets.",
+  "import.setTitle": "Set title",
+  "import.setLanguage": "Language of the cards",
+  "import.submit": "Import {count} cards",
+  "import.importing": "Importing...",
+  "import.done": "Set imported",
+  "import.doneBody": "{count} cards added to your library",
+  "import.failed": "Couldn't import the set. Please try again.",
+  "import.error.unreadable": "The file isn't a CSV, TSV or Anki package we can read.",
+  "import.error.newAnkiFormat": "This package uses Anki's newest format. In Anki, export again with \"Support older Anki versions\" ticked.",
+  "import.error.noQuestion": "no question",
+  "import.error.noAnswer": "no answer",
+  "import.error.tooLong": "text is longer than 5000 characters",
+  "print.title": "Print",
+  "print.cards": "Cut-out cards",
+  "print.sheet": "Study sheet",
+  "print.print": "Print / Save as PDF",
+  "print.cardsHint": "Print double-sided, flipping on the long edge, so each answer lands behind its question. Then cut along the dashed lines.",
+  "print.sheetHint": "Questions and answers side by side. Cover the answer column to test yourself.",
+  "print.pdfHint": "To get a PDF, choose \"Save as PDF\" as the printer.",
+  "share.button": "Share",
+  "share.title": "Share this set",
+  "share.description": "Choose who can see the cards. Others can save their own copy; your study progress stays private.",
+  "share.private": "Private",
+  "share.privateBody": "Only you can see this set.",
+  "share.unlisted": "Anyone with the link",
+  "share.unlistedBody": "Classmates you send the link to can view it. It isn't listed anywhere.",
+  "share.public": "Public",
+  "share.publicBody": "Listed in shared decks, so any student can find it.",
+  "share.link": "Link",
+  "share.copy": "Copy link",
+  "share.copied": "Link copied",
+  "share.resetLink": "Reset link (the old one stops working)",
+  "share.linkReset": "New link created",
+  "share.updateFailed": "Couldn't update sharing. Please try again.",
+  "share.done": "Done",
+  "share.copiedFrom": "Copied from {author}'s set",
+  "share.by": "by {author}",
+  "share.clone": "Save a copy to my library",
+  "share.cloning": "Saving...",
+  "share.cloned": "Saved to your library",
+  "share.clonedBody": "The copy is yours to edit and study.",
+  "share.cloneFailed": "Couldn't save a copy. Please try again.",
+  "share.openOwn": "This is your set. Open it",
+  "share.notFound": "This set isn't available",
+  "share.notFoundBody": "The link may be wrong, or the owner stopped sharing it.",
+  "share.browse": "Shared decks",
+  "share.browseTitle": "Shared decks",
+  "share.browseSubtitle": "Flashcard sets other students made public",
+  "share.browseLanding": "Browse decks shared by other students",
+  "share.browseEmpty": "No public decks found",
+  "share.browseFailed": "Couldn't load shared decks",
+  "share.search": "Search",
+  "share.searchPlaceholder": "Search by title",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
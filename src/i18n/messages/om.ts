@@ -0,0 +1,490 @@
+import type { Messages } from "./en";
+
+export const om: Messages = {
+  "common.error": "Dogoggora",
+  "common.loading": "Fe'amaa jira...",
+  "common.back": "Deebi'i",
+  "common.backToDashboard": "Gara daashboordiitti deebi'i",
+  "common.dashboard": "Daashboordii",
+  "common.premium": "Piriimiyeemii",
+  "common.admin": "Bulchaa",
+  "common.upgradeToPremium": "Gara Piriimiyeemiitti ol guddisi",
+  "common.delete": "Haqi",
+  "common.cancel": "Dhiisi",
+  "common.retry": "Irra deebi'ii yaali",
+  "common.retrying": "Irra deebi'amaa jira...",
+
+  "language.label": "Afaan",
+  "language.bilingual": "Afaan Ingliffaa + Afaan Amaaraa",
+
+  "landing.badge": "Meeshaa qo'annoo AI'n hojjetu",
+  "landing.titleLead": "Yaadannoo kee jijjiiri gara",
+  "landing.titleHighlight": "Kaardii qo'annoo ogummaa qabuutti",
+  "landing.subtitle": "PDF, islaayidii ykn suuraa ol fe'i. AI keenya battaluma kaardii qo'annoo siif qopheessa. Yaadannoo harkaan jijjiiruuf yeroo kee hin balleessin.",
+  "landing.getStarted": "Bilisaan jalqabi",
+  "landing.uploadTitle": "Waan barbaadde ol fe'i",
+  "landing.uploadBody": "PDF, islaayidii PowerPoint ykn suuraa yaadannoo harkaan barreeffamee. Hunda ni hojjenna.",
+  "landing.aiTitle": "Baasuu AI'n",
+  "landing.aiBody": "AI'n ol'aanaan yaad-rimeewwan ijoo adda baasee kaardii gaaffii fi deebii sirrii ofumaan qopheessa.",
+  "landing.studyTitle": "Ogummaadhaan qo'adhu",
+  "landing.studyBody": "Kaardii kee fuula qulqulluu fi xiyyeeffannoo hin hir'isne irratti irra deebi'ii ilaali.",
+  "landing.footer": "© 2025 Ethiocard AI. Barattoota yeroo isaanii kabajaniif kan hojjetame.",
+
+  "auth.loginFailed": "Seenuun hin milkoofne",
+  "auth.welcomeBackToast": "Baga nagaan deebite!",
+  "auth.loggedIn": "Milkaa'inaan seenteetta.",
+  "auth.signupFailed": "Galmaa'uun hin milkoofne",
+  "auth.accountCreated": "Akkaawuntiin uumameera!",
+  "auth.welcome": "Baga gara Ethiocard AI dhufte.",
+  "auth.welcomeBack": "Baga nagaan deebite",
+  "auth.createAccount": "Akkaawuntii uumi",
+  "auth.signInSubtitle": "Kaardii kee argachuuf seeni",
+  "auth.signUpSubtitle": "Kaardii qo'annoo AI'n qophaa'u uumuu jalqabi",
+  "auth.usernameOptional": "Maqaa fayyadamaa (filannoo)",
+  "auth.email": "Imeelii",
+  "auth.password": "Jecha darbii",
+  "auth.signIn": "Seeni",
+  "auth.signUp": "Galmaa'i",
+  "auth.switchToSignUp": "Akkaawuntii hin qabduu? Galmaa'i",
+  "auth.switchToSignIn": "Akkaawuntii qabdaa? Seeni",
+  "auth.accessDenied": "Seensi dhorkameera",
+  "auth.accessDeniedBody": "Fuula kana banuuf hayyama hin qabdu",
+
+  "common.cardCount": "Kaardii {count}",
+
+  "processing.title": "Hojjetamaa jira",
+  "processing.queued": "Tarree eegaa jira",
+  "processing.extracting": "Sanada kee dubbisaa jira",
+  "processing.generating": "AI'n kaardii qopheessaa jira",
+  "processing.completed": "Kaardiin qophaa'eera",
+  "processing.failed": "Hojjechuun hin milkoofne",
+  "processing.retryingAfterError": "Dogoggora booda irra deebi'amaa jira: {error}",
+
+  "dashboard.readyTitle": "Kaardiin qophaa'eera!",
+  "dashboard.readyBody": "{file} hojjetameera.",
+  "dashboard.loadFailed": "Gareewwan kaardii fe'uun hin danda'amne",
+  "dashboard.retryingTitle": "Irra deebi'amaa jira",
+  "dashboard.retryingBody": "{file} gara tarreetti deebi'eera.",
+  "dashboard.retryFailed": "Irra deebi'uun hin milkoofne",
+  "dashboard.retryFailedBody": "Faayila kana irra deebi'anii yaaluun hin danda'amne",
+  "dashboard.getPremium": "Piriimiyeemii argadhu",
+  "dashboard.signOut": "Ba'i",
+  "notifications.title": "Beeksisawwan",
+  "notifications.markAllRead": "Hunda akka dubbifametti mallatteessi",
+  "notifications.empty": "Wanti haaraan hin jiru.",
+  "notifications.premiumApproved": "Piriimiyeemiin mirkanaa'eera",
+  "notifications.premiumApprovedBody": "Kaffaltiin kee mirkanaa'eera. Kaardii barnootaa daangaa malee fi Haala Yaadannoo itti gammadi.",
+  "notifications.premiumRejected": "Kaffaltiin hin mirkanoofne",
+  "notifications.premiumRejectedBody": "Gaaffiin Piriimiyeemii kee hin mirkanoofne. Sababa isaa ilaaluu fi irra deebi'anii dhiyeessuuf bani.",
+  "notifications.paymentReceived": "Kaffaltiin nu ga'eera",
+  "notifications.paymentReceivedBody": "Birrii {amount} nu ga'eera. Piriimiyeemiin amma hojii irra jira.",
+  "notifications.premiumExpiring": "Piriimiyeemiin dhiheenyatti xumurama",
+  "notifications.premiumExpiringBody": "Piriimiyeemiin kee {date} xumurama. Amma haaromsiitii guyyoota hafan hunda eegadhu.",
+  "notifications.premiumExpired": "Piriimiyeemiin xumurameera",
+  "notifications.premiumExpiredBody": "Piriimiyeemiin kee {date} xumurameera. Deebisuuf haaromsi.",
+  "notifications.uploadCompleted": "Kaardiiwwan barnootaa qophaa'aniiru",
+  "notifications.uploadCompletedBody": "Kaardiiwwan kee {file} irraa qophaa'an barachuuf qophaa'aniiru.",
+  "notifications.uploadFailed": "Hojjechuun hin milkoofne",
+  "notifications.uploadFailedBody": "{file} irraa kaardiiwwan barnootaa uumuu hin dandeenye. Daashboordii kee irraa irra deebi'uun yaaluu dandeessa.",
+  "notifications.cardsDue": "Kaardiiwwan irra deebiif ga'aniiru",
+  "notifications.cardsDueBody": "Haala Yaadannoo keessatti kaardiiwwan {count} irra deebiif ga'an qabdu.",
+  "dashboard.title": "Gareewwan kaardii kee",
+  "dashboard.subtitle": "Garee haaraa uumi ykn kanneen jiran irra deebi'ii ilaali",
+  "dashboard.uploadFiles": "Faayilota ol fe'i",
+  "dashboard.loadingSets": "Kaardii kee fe'aa jira...",
+  "dashboard.emptyTitle": "Ammaaf gareen kaardii hin jiru",
+  "dashboard.emptyBody": "Kaardii AI'n qophaa'u jalqabuuf faayila kee isa jalqabaa ol fe'i",
+  "dashboard.uploadNow": "Amma ol fe'i",
+  "dashboard.study": "Qo'adhu",
+  "dashboard.quiz": "Qormaata",
+  "dashboard.export": "Alergi",
+  "dashboard.exportCsv": "CSV (gabatee herregaa)",
+  "dashboard.exportTsv": "TSV (galchuu barreeffama Anki)",
+  "dashboard.exportAnki": "Paakeejii Anki (.apkg)",
+  "dashboard.exportFailed": "Walitti qabama kana alergiin hin danda'amne",
+  "dashboard.print": "Maxxansi ykn akka PDF olkaa'i",
+  "dashboard.filterLanguage": "Afaaniin calali",
+  "dashboard.allLanguages": "Afaanota hunda",
+
+  "admin.title": "Fuula bulchaa",
+
+  "memory.title": "Haala Yaadannoo",
+
+  "upload.invalidType": "Gosa faayilaa hin hayyamamne",
+  "upload.invalidTypeBody": "Gosni faayilaa \"{type}\" hin deeggaramu. Maaloo PDF, PPTX, PNG ykn JPEG ol fe'i.",
+  "upload.tooLarge": "Faayilli baay'ee guddaa dha",
+  "upload.tooLargeBody": "Maaloo faayila 20MB gadii ol fe'i",
+  "upload.fileSelected": "Faayilli filatameera",
+  "upload.fileSelectedBody": "{file} ol fe'amuuf qophaa'eera",
+  "upload.limitReached": "Daangaa ol fe'uu geesseetta",
+  "upload.limitReachedToast": "Daangaa malee ol fe'uuf gara Piriimiyeemiitti ol guddisi!",
+  "upload.complete": "Ol fe'uun xumurameera!",
+  "upload.completeBody": "Kaardii kee qopheessaa jirra. Adeemsa isaa daashboordii kee irratti hordofuu dandeessa.",
+  "upload.failed": "Ol fe'uun hin milkoofne",
+  "upload.failedBody": "Faayila kee hojjechuun hin danda'amne. Maaloo irra deebi'ii yaali.",
+  "upload.title": "Faayilota kee ol fe'i",
+  "upload.tabGenerate": "AI'n qopheessi",
+  "upload.tabImport": "Kaardii galchi",
+  "upload.limitReachedBody": "Ol fe'iinsa bilisaa {limit} hunda fayyadamteetta. Daangaa malee ol fe'uuf gara Piriimiyeemiitti ol guddisi!",
+  "upload.remaining": "Karoora bilisaa: ol fe'iinsi {count} hafeera",
+  "upload.used": "Ol fe'iinsa bilisaa {limit} keessaa {used} fayyadamteetta. Daangaa malee ol fe'uuf gara Piriimiyeemiitti ol guddisi.",
+  "upload.premiumMember": "Miseensa Piriimiyeemii - ol fe'iinsa daangaa malee",
+  "upload.premiumRemaining": "Miseensa Piriimiyeemii - yeroo kaffaltii kana keessatti ol fe'iinsi {count} hafeera",
+  "upload.selectFile": "Faayila filadhu",
+  "upload.tapToSelect": "Faayila filachuuf armaan gaditti tuqi",
+  "upload.supportedTypes": "PDF, PPTX, PNG, JPEG (olaanaan 20MB)",
+  "upload.uploading": "Ol fe'amaa jira...",
+  "upload.queueing": "Hojjetamuuf tarree galchaa jira...",
+  "upload.generate": "Kaardii qopheessi",
+  "upload.outputLanguage": "Afaan kaardii",
+  "upload.outputLanguageHint": "Faayilli kee afaan kamiinuu haa ta'u, gaaffiifi deebiin afaan kanaan barreeffamu.",
+
+  "flipCard.question": "Gaaffii",
+  "flipCard.answer": "Deebii",
+  "flipCard.reveal": "Deebii ilaaluuf tuqi",
+
+  "study.loadFailed": "Kaardii fe'uun hin danda'amne",
+  "study.loading": "Kaardii fe'aa jira...",
+  "study.empty": "Kaardiin hin argamne",
+  "study.addCards": "Kaardii dabali",
+  "study.editSet": "Garee gulaali",
+  "study.cardPosition": "Kaardii {current} kan {total}",
+  "study.slide": "Islaayidii {number}",
+  "study.previous": "Kan duraa",
+  "study.flip": "Kaardii garagalchi",
+  "study.next": "Itti aanu",
+  "study.takeQuiz": "Qormaata fudhadhu",
+
+  "editSet.notAllowed": "Hin hayyamamne",
+  "editSet.notAllowedBody": "Gareewwan kaardii kee qofa gulaaluu dandeessa",
+  "editSet.loadFailed": "Garee kaardii fe'uun hin danda'amne",
+  "editSet.titleRequired": "Mata dureen barbaachisaa dha",
+  "editSet.titleRequiredBody": "Garee keetiif mata duree kenni",
+  "editSet.incomplete": "Kaardii hin guutamne",
+  "editSet.incompleteBody": "Kaardiin hundi gaaffii fi deebii qabaachuu qaba",
+  "editSet.saved": "Olkaa'ameera",
+  "editSet.savedBody": "Gareen kaardii kee haaromfameera",
+  "editSet.saveFailed": "Jijjiirama olkaa'uun hin danda'amne",
+  "editSet.discardConfirm": "Jijjiirama hin olkaa'amne dhiisuu?",
+  "editSet.backToStudy": "Gara qo'annootti deebi'i",
+  "editSet.saving": "Olkaa'aa jira...",
+  "editSet.save": "Jijjiirama olkaa'i",
+  "editSet.title": "Mata duree",
+  "editSet.description": "Ibsa",
+  "editSet.oneCard": "Kaardii 1",
+  "editSet.dragHint": "Tartiiba jijjiiruuf kaardii harkisi",
+  "editSet.moveUp": "Ol siqsi",
+  "editSet.moveDown": "Gad siqsi",
+  "editSet.questionPlaceholder": "Gaaffii",
+  "editSet.answerPlaceholder": "Deebii",
+  "editSet.deleteCard": "Kaardii haqi",
+  "editSet.addCard": "Kaardii dabali",
+
+  "quiz.notEnoughCards": "Kaardiin gahaan hin jiru",
+  "quiz.notEnoughCardsBody": "Qormaata qopheessuuf yoo xiqqaate kaardii 4 barbaachisa",
+  "quiz.generateFailed": "Qormaata qopheessuun hin danda'amne",
+  "quiz.aiReady": "Qormaanni AI qophaa'eera",
+  "quiz.aiReadyBody": "Gaaffiiwwan haaraa {count} qophaa'aniiru",
+  "quiz.aiFailed": "Qormaata AI qopheessuun hin danda'amne",
+  "quiz.aiLimit": "Daangaa qormaata AI har'aa irra geessaniittu. Boru irra deebi'aa yaalaa.",
+  "quiz.generating": "Qormaata qopheessaa jira...",
+  "quiz.complete": "Qormaanni xumurameera!",
+  "quiz.result": "Gaaffii {total} keessaa {score} sirriitti deebifteetta",
+  "quiz.excellent": "Baay'ee gaarii! Barnoota kana sirriitti beekteetta!",
+  "quiz.great": "Hojii gaarii! Shaakaluu itti fufi!",
+  "quiz.keepStudying": "Qo'achuu itti fufi! Ni geessa!",
+  "quiz.tryAgain": "Irra deebi'ii yaali",
+  "quiz.studyCards": "Kaardii qo'adhu",
+  "quiz.questionPosition": "Gaaffii {current} kan {total}",
+  "quiz.aiGenerating": "Qopheessaa jira...",
+  "quiz.regenerate": "Irra deebi'ii qopheessi",
+  "quiz.generateAi": "Qormaata AI qopheessi",
+  "quiz.heading": "{title} - Qormaata",
+  "quiz.explanation": "Ibsa:",
+  "quiz.runningScore": "Qabxii: {score}/{total}",
+  "quiz.nextQuestion": "Gaaffii itti aanu",
+  "quiz.seeResults": "Bu'aa ilaali",
+  "quiz.type.mcq": "Filannoo hedduu",
+  "quiz.type.trueFalse": "Dhugaa ykn soba",
+  "quiz.type.cloze": "Bakka duwwaa guuti",
+  "quiz.type.shortAnswer": "Deebii gabaabaa",
+  "quiz.type.matching": "Walsimsiisi",
+  "quiz.true": "Dhugaa",
+  "quiz.false": "Soba",
+  "quiz.fillBlank": "Bakka duwwaa guuti",
+  "quiz.typeAnswer": "Deebii kee barreessi",
+  "quiz.check": "Mirkaneessi",
+  "quiz.correct": "Sirrii!",
+  "quiz.notQuite": "Sirrii miti.",
+  "quiz.answerLabel": "Deebii:",
+  "quiz.chooseMatch": "Kan walsimu filadhu",
+  "quiz.correctMatch": "Sirriin: {answer}",
+  "quiz.checkMatches": "Walsimsiisa mirkaneessi",
+  "quiz.correctAnswerIs": "Deebiin sirriin: {answer}",
+  "quiz.matchingPrompt": "Gaaffii tokkoon tokkoon deebii isaa wajjin walsimsiisi",
+
+  "quizHistory.title": "Seenaa qabxii",
+  "quizHistory.loadFailed": "Seenaa qormaataa fe'uun hin danda'amne",
+  "quizHistory.loading": "Seenaa fe'aa jira...",
+  "quizHistory.score": "Qabxii",
+  "quizHistory.minutesSeconds": "{minutes}d {seconds}s",
+  "quizHistory.seconds": "{seconds}s",
+  "quizHistory.heading": "{title} - Seenaa qabxii",
+  "quizHistory.oneAttempt": "Yaalii 1",
+  "quizHistory.attemptCount": "Yaalii {count}",
+  "quizHistory.emptyTitle": "Ammaaf yaaliin hin jiru",
+  "quizHistory.emptyBody": "Qabxii kee hordofuu jalqabuuf qormaata fudhadhu",
+  "quizHistory.best": "Qabxii olaanaa",
+  "quizHistory.average": "Qabxii giddugaleessaa",
+  "quizHistory.trend": "Adeemsa qabxii",
+  "quizHistory.trendBody": "Dhibbeentaa sirrii yaalii tokkoon tokkoon keessatti",
+  "quizHistory.correctCount": "{score}/{total} sirrii",
+
+  "memory.again": "Irra deebi'i",
+  "memory.hard": "Ulfaataa",
+  "memory.good": "Gaarii",
+  "memory.easy": "Salphaa",
+  "memory.loadFailed": "Tarree irra deebi'ii ilaaluu fe'uun hin danda'amne",
+  "memory.saveFailed": "Irra deebi'ii ilaalcha kee olkaa'uun hin danda'amne",
+  "memory.loading": "Tarree irra deebi'ii ilaaluu fe'aa jira...",
+  "memory.cardsLeft": "Har'aaf kaardiin {count} hafeera",
+  "memory.premiumTitle": "Haalli Yaadannoo tajaajila Piriimiyeemii ti",
+  "memory.premiumBody": "Irra deebii addaan fageenyaa qabu kaardii tokkoon tokkoon yeroo dagachuuf jettu sitti agarsiisa; kanaanis xiqqoo qo'attee baay'ee yaadatta.",
+  "memory.caughtUp": "Hunda xumurteetta!",
+  "memory.reviewedBody": "Kaardii {count} irra deebi'ii ilaalteetta. Irra deebi'ii ilaaluu itti aanuuf boru deebi'i.",
+  "memory.nothingDue": "Amma kaardiin irra deebi'amu hin jiru. Booda deebi'i ykn barnoota haaraa ol fe'i.",
+  "memory.newCard": "Kaardii haaraa",
+  "memory.showAnswer": "Deebii agarsiisi",
+
+  "premium.invalidFile": "Faayila hin hayyamamne",
+  "premium.invalidFileBody": "Maaloo faayila suuraa (iskiriinshootii) ol fe'i",
+  "premium.tooLargeBody": "Guddinni faayilaa olaanaan 5MB dha",
+  "premium.missingInfo": "Odeeffannoo dhabame",
+  "premium.missingInfoBody": "Maaloo bakka hunda guutii iskiriinshootii ol fe'i",
+  "premium.submitted": "Gaaffiin ergameera!",
+  "premium.submittedBody": "Gaaffiin Piriimiyeemii kee bulchaadhaan ilaalamaa jira.",
+  "premium.submitFailed": "Gaaffii erguun hin danda'amne",
+  "premium.duplicateReference": "Lakkoofsi daldalaa kun duraan galfameera. Lakkoofsa nagaheessa keessan irra jiru mirkaneeffadhaa.",
+  "premium.title": "Seensa Piriimiyeemii",
+  "premium.subtitle": "Qopheessuu kaardii daangaa malee fi Haala Yaadannoo bani",
+  "premium.active": "Piriimiyeemii dha!",
+  "premium.activeBody": "Qopheessuu kaardii daangaa malee fi tajaajila Piriimiyeemii hunda itti gammadi.",
+  "premium.expiresIn": "Guyyaa {count} keessatti xumurama ({date})",
+  "premium.expiresInOneDay": "Boru xumurama ({date})",
+  "premium.expiresToday": "Har'a xumurama ({date})",
+  "premium.renew": "Piriimiyeemii haaromsi",
+  "premium.renewBody": "Haaromsi dheerina karoora keessanii guyyaa xumuraa ammaa irratti dabala; kanaaf guyyaa kaffalte tokkollee hin dhabdu.",
+  "premium.pending": "Gaaffiin eegaa jira",
+  "premium.pendingBody": "Kaffaltiin kee bulchaadhaan mirkanaa'aa jira. Maaloo obsaan eegi.",
+  "premium.paymentConfirming": "Kaffaltii kee mirkaneessaa jira",
+  "premium.paymentConfirmingBody": "Kun yeroo baay'ee sekondii muraasa fudhata. Fuula kana dhiisuu dandeessa: kaffaltiin akkuma mirkanaa'een Piriimiyeemiin hojii jalqaba.",
+  "premium.paymentSucceeded": "Kaffaltiin nu ga'eera",
+  "premium.paymentSucceededBody": "Piriimiyeemiin kee amma hojii irra jira. Galatoomi!",
+  "premium.paymentFailed": "Kaffaltiin hin xumuramne",
+  "premium.paymentFailedBody": "Piriimiyeemiif maallaqni tokkollee hin fudhatamne. Irra deebi'uun yaaluu ykn karaa baankii kaffaluu dandeessa.",
+  "premium.expired": "Piriimiyeemiin kee xumurameera",
+  "premium.expiredBody": "Guyyaa {date} xumurame. Kaardii daangaa malee fi Haala Yaadannoo deebisuuf armaan gaditti haaromsi.",
+  "premium.submittedOn": "Guyyaa ergame: {date}",
+  "premium.rejected": "Gaaffiin didameera",
+  "premium.rejectedBody": "Kaffaltii kee mirkaneessuun hin danda'amne. Maaloo irra deebi'ii yaali.",
+  "premium.reviewerNote": "Yaada gamaaggamaa irraa: {note}",
+  "premium.resubmitHint": "Bal'ina armaan gadii sirreessiitii ragaa kee irra deebi'ii ergi. Gaaffiin kee haaraan kana waliin walqabata.",
+  "premium.rejection.amountMismatch": "Hanga kaffalame gatii karoorichaa wajjin wal hin simu",
+  "premium.rejection.referenceNotFound": "Wabii daddabarsaa kana ibsa baankii keenya keessatti argachuu hin dandeenye",
+  "premium.rejection.unreadableScreenshot": "Suuraan ifa miti ykn kaffaltii hin agarsiisu",
+  "premium.rejection.duplicateReceipt": "Naghee kun duraan gaaffii biraatiif itti fayyadameera",
+  "premium.rejection.other": "Sababa biraa",
+  "premium.benefits": "Faayidaa Piriimiyeemii",
+  "premium.benefitUnlimited": "Qopheessuu kaardii daangaa malee",
+  "premium.benefitMemory": "Haala Yaadannoo (irra deebii addaan fageenyaa qabu)",
+  "premium.benefitQuiz": "Haala qormaataa gaaffii ofumaan qophaa'u qabu",
+  "premium.benefitSupport": "Deeggarsa dursa qabu",
+  "premium.paymentInfo": "Odeeffannoo kaffaltii",
+  "premium.paymentInfoBody": "Karoora filadhu, achiis toora interneetiin ykn karaa baankii kaffali.",
+  "premium.payOnline": "Toora interneetiin kaffali",
+  "premium.payOnlineHint": "Chapa keessaan Telebirr, CBE Birr, M-Pesa ykn kaardiidhaan. Kaffaltiin akkuma mirkanaa'een Piriimiyeemiin hojii jalqaba.",
+  "premium.orBankTransfer": "ykn karaa baankii kaffali",
+  "premium.checkoutFailed": "Kaffaltii toora interneetii jalqabuun hin danda'amne. Maaloo irra deebi'ii yaali.",
+  "premium.plan.monthly": "Ji'aa",
+  "premium.plan.semester": "Semisteera",
+  "premium.plan.yearly": "Waggaa",
+  "premium.planDuration": "Guyyaa {days} Piriimiyeemii",
+  "premium.planPrice": "Birrii {price}",
+  "premium.accountNumber": "Lakkoofsa herregaa CBE:",
+  "premium.bankName": "Baankii Daldalaa Itoophiyaa",
+  "premium.afterPayment": "Kaffaltii erge booda iskiriinshootii kee armaan gaditti ol fe'i.",
+  "premium.submitProof": "Ragaa kaffaltii ergi",
+  "premium.submitProofBody": "Iskiriinshootii kaffaltii kee ol fe'iitii odeeffannoo kee mirkaneessi",
+  "premium.emailAddress": "Teessoo imeelii",
+  "premium.username": "Maqaa fayyadamaa",
+  "premium.usernamePlaceholder": "Maqaa fayyadamaa kee",
+  "premium.transactionReference": "Lakkoofsa wabii daddabarsaa",
+  "premium.transactionReferenceHint": "Wabii nagahee baankii ykn SMS kee irra jiru, fakkeenyaaf FT24123ABCDE.",
+  "premium.amountPaid": "Hanga kaffalame (Birrii)",
+  "premium.payerName": "Maqaa kaffalaa",
+  "premium.payerNamePlaceholder": "Maqaa herrega baankii irra jiru",
+  "premium.screenshot": "Iskiriinshootii kaffaltii",
+  "premium.screenshotPrompt": "Iskiriinshootii kaffaltii ol fe'uuf tuqi",
+  "premium.submitting": "Ergaa jira...",
+  "premium.submit": "Gaaffii kaffaltii ergi",
+
+  "notFound.message": "Dhiifama! Fuulli hin argamne",
+  "notFound.home": "Gara fuula jalqabaatti deebi'i",
+
+  "admin.approved": "Mirkanaa'eera!",
+  "admin.approvedBody": "{username}'f Piriimiyeemiin baneera",
+  "admin.defaultRejectReason": "Kaffaltii mirkaneessuun hin danda'amne",
+  "admin.rejectTitle": "Ragaa kaffaltii didi",
+  "admin.rejectDescription": "{username} sirreessee akka irra deebi'ee ergu maaltu dogoggore akka ta'e himi.",
+  "admin.rejectNotes": "Bal'ina (filannoo)",
+  "admin.rejectNotesRequired": "Bal'ina",
+  "admin.rejectNotesPlaceholder": "Sababa wajjin fayyadamaaf ni mul'ata",
+  "admin.rejectionReason": "Kan didame: {reason}",
+  "admin.resubmissionOf": "Gaaffii {date} irra deebi'ee dhiyaate, kan didame: {reason}",
+  "admin.rejected": "Didameera",
+  "admin.rejectedBody": "Gaaffiin {username} didameera",
+  "admin.updated": "Haaromfameera",
+  "admin.updatedBody": "Haalli Piriimiyeemii {username} haaromfameera",
+  "admin.deleted": "Haqameera",
+  "admin.deletedBody": "Faayilli milkaa'inaan haqameera",
+  "admin.reprocessing": "Irra deebi'ee hojjetamaa jira",
+  "admin.reprocessingBody": "{file} hojjetamuuf tarree galeera",
+  "admin.reprocessFailed": "Faayila irra deebi'anii hojjechuun hin danda'amne",
+  "admin.pendingRequests": "Gaaffiiwwan eegaa jiran",
+  "admin.totalUsers": "Fayyadamtoota waliigalaa",
+  "admin.premiumUsers": "Fayyadamtoota Piriimiyeemii",
+  "admin.totalUploads": "Ol fe'iinsa waliigalaa",
+  "admin.paymentRequests": "Gaaffiiwwan kaffaltii",
+  "admin.users": "Fayyadamtoota",
+  "admin.uploads": "Ol fe'iinsa",
+  "admin.plans": "Karoorawwan",
+  "admin.requestPlan": "Karoora: {plan} (Birrii {price})",
+  "admin.reference": "Wabii: {reference}",
+  "admin.amountPaid": "Birrii {amount} kaffalame",
+  "admin.amountShort": "gatii karoorichaa gadi",
+  "admin.payer": "Kaffalaa: {name}",
+  "admin.duplicate": "Irra deddeebii ta'uu mala",
+  "admin.sameReference": "Wabii wal fakkaatu kan qabu: {requests}",
+  "admin.sameScreenshot": "Suuraa wal fakkaatu kan qabu: {requests}",
+  "admin.screenshotUnavailable": "Suuraan hin argamu",
+  "admin.planActive": "Ni argama",
+  "admin.planPrice": "Gatii (Birrii)",
+  "admin.planDays": "Dheerina (guyyaa)",
+  "admin.planUploadLimit": "Ol fe'iinsa yeroo tokkoof",
+  "admin.planUnlimited": "Daangaa malee",
+  "admin.planSaved": "Karoorri {plan} olkaa'ameera",
+  "admin.planSaveFailed": "Karoora olkaa'uun hin milkoofne",
+  "admin.planInvalid": "Karoora sirrii hin taane",
+  "admin.planInvalidBody": "Gatiin, dheerinni fi daangaan ol fe'iinsaa lakkoofsa poozatiivii ta'uu qabu. Ol fe'iinsa daangaa malee argachuuf daangaa ol fe'iinsaa duwwaa dhiisi.",
+  "admin.plansLoadFailed": "Karoorawwan fe'uun hin milkoofne",
+  "admin.noRequests": "Ammaaf gaaffiin kaffaltii hin jiru",
+  "admin.status.pending": "Eegaa jira",
+  "admin.status.approved": "Mirkanaa'eera",
+  "admin.status.rejected": "Didameera",
+  "admin.viewScreenshot": "Iskiriinshootii ilaali",
+  "admin.approve": "Mirkaneessi",
+  "admin.reject": "Didi",
+  "admin.joined": "Kan makame: {date}",
+  "admin.premiumUntil": "Piriimiyeemii hanga {date}",
+  "admin.removePremium": "Piriimiyeemii haqi",
+  "admin.grantPremium": "Piriimiyeemii kenni",
+  "admin.noUploads": "Ammaaf ol fe'iinsi hin jiru",
+  "admin.uploadMeta": "Gosa: {type} | Haala: {status}",
+  "admin.uploadError": "Dogoggora: {error}",
+  "admin.uploadedOn": "Kan ol fe'ame: {date}",
+  "admin.viewText": "Barreeffama ilaali",
+  "admin.reprocess": "Irra deebi'ii hojjedhu",
+  "admin.extractedText": "Barreeffama faayila kana irraa ba'e",
+  "offline.save": "Interneeta malee olkaa'i",
+  "offline.saved": "Interneeta malee kuufameera",
+  "offline.savedTitle": "Interneeta malee ni argama",
+  "offline.savedBody": "Walitti qabama kana interneeta malee qo'achuu fi qormaata fudhachuu ni dandeessa.",
+  "offline.saveFailed": "Walitti qabama kana meeshaa kee irratti olkaa'uun hin danda'amne",
+  "offline.removed": "Meeshaa kana irraa haqameera",
+  "offline.usingSavedCopy": "Interneeta irra hin jirtu: garagalchi meeshaa kana irratti kuufame mul'achaa jira",
+  "offline.status": "Interneeta irra hin jirtu. Walitti qabamni meeshaa kana irratti kuufaman amma illee ni hojjetu.",
+  "offline.waiting": "Bu'aan {count} walsimsiisuuf eegaa jiru",
+  "offline.syncing": "Bu'aan kee walsimsiifamaa jira...",
+  "offline.syncedTitle": "Deebitee interneeta irra jirta",
+  "offline.syncedBody": "Bu'aan {count} interneeta malee galmeeffaman olkaa'amaniiru.",
+  "offline.queuedTitle": "Meeshaa kana irratti kuufameera",
+  "offline.queuedBody": "Yeroo interneetatti deebitu bu'aan kee ni ol ergama.",
+  "import.fromFile": "Faayilii",
+  "import.fromQuizlet": "Quizlet irraa maxxansi",
+  "import.fileTypes": "CSV, TSV ykn paakeejii Anki (.apkg)",
+  "import.readFailed": "Faayilicha dubbisuun hin danda'amne",
+  "import.quizletPaste": "Barreeffama saanduqa Export Quizlet irraa maxxansi",
+  "import.quizletPlaceholder": "Jecha<tab>Hiika, sarara tokkotti kaardii tokko",
+  "import.termSeparator": "Jecha fi hiika gidduu",
+  "import.cardSeparator": "Kaardii gidduu",
+  "import.separator.tab": "Tab",
+  "import.separator.comma": "Qooduu (,)",
+  "import.separator.dash": "Sarara ( - )",
+  "import.separator.newLine": "Sarara haaraa",
+  "import.separator.semicolon": "Qabduu (;)",
+  "import.questionColumn": "Utubaa gaaffii",
+  "import.answerColumn": "Utubaa deebii",
+  "import.column": "Utubaa {number}",
+  "import.skipHeader": "Tarreen jalqabaa mata duree utubaati",
+  "import.sameColumn": "Gaaffii fi deebiif utubaa adda addaa filadhu",
+  "import.mixedNoteTypes": "Deekiin kun gosoota yaadannoo Anki {count} kan dirreen isaanii walsimuu dhiisuu danda'an walitti makeera. Osoo hin galchin dura duraan-argii ilaalaa.",
+  "import.preview": "Dursa ilaali",
+  "import.summary": "Kaardiin {count} qophii dha, tarreen {skipped} darbameera",
+  "import.issuesTitle": "Tarreewwan kunneen hin galan",
+  "import.rowIssue": "Tarree {row}: {problem}",
+  "import.moreIssues": "fi {count} dabalataa",
+  "import.tooMany": "Kuusaan tokko kaardii {limit} ol qabaachuu hin danda'u. Faayilicha kuusaa xixiqqootti qoodi.",
+  "import.setTitle": "Mata duree kuusaa",
+  "import.setLanguage": "Afaan kaardiiwwanii",
+  "import.submit": "Kaardii {count} galchi",
+  "import.importing": "Galchaa jira...",
+  "import.done": "Kuusaan galeera",
+  "import.doneBody": "Kaardiin {count} mana kitaabaa keetti dabalameera",
+  "import.failed": "Kuusaa galchuun hin danda'amne. Irra deebi'ii yaali.",
+  "import.error.unreadable": "Faayilichi CSV, TSV ykn paakeejii Anki nuti dubbisuu dandeenyu miti.",
+  "import.error.newAnkiFormat": "Paakeejiin kun bifa haaraa Anki fayyadama. Anki keessatti \"Support older Anki versions\" filadhuutii irra deebi'ii baasi.",
+  "import.error.noQuestion": "gaaffiin hin jiru",
+  "import.error.noAnswer": "deebiin hin jiru",
+  "import.error.tooLong": "barreeffamni qubee 5000 caala",
+  "print.title": "Maxxansi",
+  "print.cards": "Kaardii muramu",
+  "print.sheet": "Waraqaa qo'annoo",
+  "print.print": "Maxxansi / Akka PDF olkaa'i",
+  "print.cardsHint": "Gama lamaaniin, qarqara dheeraan garagalchuun maxxansi; deebiin hundi gaaffii isaa duubatti ba'a. Achii sarara tuqaa irratti muri.",
+  "print.sheetHint": "Gaaffii fi deebii cinaa cinaatti. Of qoruuf utubaa deebii haguugi.",
+  "print.pdfHint": "PDF argachuuf, \"Save as PDF\" akka maxxansaatti filadhu.",
+  "share.button": "Qoodi",
+  "share.title": "Kuusaa kana qoodi",
+  "share.description": "Eenyu kaardiiwwan arguu akka danda'u filadhu. Namoonni biroo garagalcha mataa isaanii olkaa'uu danda'u; adeemsi qo'annoo keetii dhuunfaa ta'ee hafa.",
+  "share.private": "Dhuunfaa",
+  "share.privateBody": "Kuusaa kana kan arguu danda'u si qofa.",
+  "share.unlisted": "Nama liinkii qabu kamiyyuu",
+  "share.unlistedBody": "Hiriyoonni daree liinkii ergitef arguu danda'u. Eessattuu hin tarreeffamu.",
+  "share.public": "Ummataaf",
+  "share.publicBody": "Kuusaawwan qoodaman keessatti tarreeffama; barataan kamiyyuu argachuu danda'a.",
+  "share.link": "Liinkii",
+  "share.copy": "Liinkii garagalchi",
+  "share.copied": "Liinkiin garagalfameera",
+  "share.resetLink": "Liinkii haaromsi (kan duraa hojii dhaaba)",
+  "share.linkReset": "Liinkiin haaraan uumameera",
+  "share.updateFailed": "Qooddii haaromsuun hin danda'amne. Irra deebi'ii yaali.",
+  "share.done": "Xumurameera",
+  "share.copiedFrom": "Kuusaa {author} irraa garagalfame",
+  "share.by": "{author}'n",
+  "share.clone": "Garagalcha mana kitaabaa kootti olkaa'i",
+  "share.cloning": "Olkaa'aa jira...",
+  "share.cloned": "Mana kitaabaa keetti olkaa'ameera",
+  "share.clonedBody": "Garagalchi kun kan kee ti; gulaaluu fi qo'achuu dandeessa.",
+  "share.cloneFailed": "Garagalcha olkaa'uun hin danda'amne. Irra deebi'ii yaali.",
+  "share.openOwn": "Kun kuusaa kee ti. Bani",
+  "share.notFound": "Kuusaan kun hin argamu",
+  "share.notFoundBody": "Liinkiin dogoggora ta'uu danda'a, ykn abbaan isaa qooduu dhaabeera.",
+  "share.browse": "Kuusaawwan qoodaman",
+  "share.browseTitle": "Kuusaawwan qoodaman",
+  "share.browseSubtitle": "Kuusaawwan kaardii barattoonni biroo ummataaf godhan",
+  "share.browseLanding": "Kuusaawwan barattoonni biroo qoodan ilaali",
+  "share.browseEmpty": "Kuusaan ummataa hin argamne",
+  "share.browseFailed": "Kuusaawwan qoodaman fe'uun hin danda'amne",
+  "share.search": "Barbaadi",
+  "share.searchPlaceholder": "Mata dureen barbaadi",
+};
@@ -0,0 +1,490 @@
+import type { Messages } from "./en";
+
+export const ti: Messages = {
+  "common.error": "ጌጋ",
+  "common.loading": "ይጽዓን ኣሎ...",
+  "common.back": "ተመለስ",
+  "common.backToDashboard": "ናብ ዳሽቦርድ ተመለስ",
+  "common.dashboard": "ዳሽቦርድ",
+  "common.premium": "ፕሪሚየም",
+  "common.admin": "ኣመሓዳሪ",
+  "common.upgradeToPremium": "ናብ ፕሪሚየም ኣመሓይሽ",
+  "common.delete": "ሰርዝ",
+  "common.cancel": "ኣቋርጽ",
+  "common.retry": "እንደገና ፈትን",
+  "common.retrying": "እንደገና ይፍተን ኣሎ...",
+
+  "language.label": "ቋንቋ",
+  "language.bilingual": "እንግሊዝኛ + ኣምሓርኛ",
+
+  "landing.badge": "ብAI ዝሰርሕ መሳርሒ መጽናዕቲ",
+  "landing.titleLead": "ማስታወሻታትካ ቀይሮም ናብ",
+  "landing.titleHighlight": "ብልሒ ዘለዎም ካርድታት መጽናዕቲ",
+  "landing.subtitle": "PDF፣ ስላይድታት ወይ ስእልታት ጽዓን። AI ብቕጽበት ካርድታት መጽናዕቲ የዳልወልካ። ማስታወሻታት ብኢድ ብምቕያር ግዜኻ ኣይተባኽን።",
+  "landing.getStarted": "ብነጻ ጀምር",
+  "landing.uploadTitle": "ዝኾነ ጽዓን",
+  "landing.uploadBody": "PDF፣ ስላይድታት PowerPoint ወይ ስእልታት ብኢድ ዝተጻሕፉ ማስታወሻታት። ንኹሉ ነተኣናግዶ።",
+  "landing.aiTitle": "ብAI ምውጻእ",
+  "landing.aiBody": "ዝማዕበለ AI ቀንዲ ሓሳባት ኣለልዩ ልክዕ ዝኾኑ ካርድታት ሕቶን መልስን ባዕሉ የዳሉ።",
+  "landing.studyTitle": "ብብልሒ ኣጽንዕ",
+  "landing.studyBody": "ንምምሃር ኣብ ዝተዳለወ ጽሩይን ዘየዘናጋዕን ገጽ ካርድታትካ ከልስ።",
+  "landing.footer": "© 2025 Ethiocard AI። ግዜኦም ንዘኽብሩ ተምሃሮ ዝተሰርሐ።",
+
+  "auth.loginFailed": "ምእታው ኣይተሳኸዐን",
+  "auth.welcomeBackToast": "እንቋዕ ብደሓን ተመለስካ!",
+  "auth.loggedIn": "ብዓወት ኣቲኻ ኣለኻ።",
+  "auth.signupFailed": "ምምዝጋብ ኣይተሳኸዐን",
+  "auth.accountCreated": "ሕሳብ ተፈጢሩ!",
+  "auth.welcome": "ናብ Ethiocard AI እንቋዕ ብደሓን መጻእካ።",
+  "auth.welcomeBack": "እንቋዕ ብደሓን ተመለስካ",
+  "auth.createAccount": "ሕሳብ ፍጠር",
+  "auth.signInSubtitle": "ካርድታትካ ንምርካብ እቶ",
+  "auth.signUpSubtitle": "ብAI ዝዳለዉ ካርድታት መጽናዕቲ ምፍጣር ጀምር",
+  "auth.usernameOptional": "ስም ተጠቃሚ (ኣማራጺ)",
+  "auth.email": "ኢመይል",
+  "auth.password": "መሕለፊ ቃል",
+  "auth.signIn": "እቶ",
+  "auth.signUp": "ተመዝገብ",
+  "auth.switchToSignUp": "ሕሳብ የብልካን? ተመዝገብ",
+  "auth.switchToSignIn": "ሕሳብ ኣለካ? እቶ",
+  "auth.accessDenied": "ተበጻሕነት ተኸልኪሉ",
+  "auth.accessDeniedBody": "ነዚ ገጽ ንምኽፋት ፍቓድ የብልካን",
+
+  "common.cardCount": "{count} ካርድታት",
+
+  "processing.title": "ኣብ መስርሕ",
+  "processing.queued": "ተርታ ይጽበ ኣሎ",
+  "processing.extracting": "ሰነድካ ይንበብ ኣሎ",
+  "processing.generating": "ብAI ካርድታት ይዳለዉ ኣለዉ",
+  "processing.completed": "ካርድታት ድሉዋት እዮም",
+  "processing.failed": "መስርሕ ኣይተሳኸዐን",
+  "processing.retryingAfterError": "ድሕሪ ጌጋ እንደገና ይፍተን ኣሎ፦ {error}",
+
+  "dashboard.readyTitle": "ካርድታት ድሉዋት እዮም!",
+  "dashboard.readyBody": "{file} ተሰሪሑ።",
+  "dashboard.loadFailed": "ጉጅለታት ካርድ ምጽዓን ኣይተኻእለን",
+  "dashboard.retryingTitle": "እንደገና ይፍተን ኣሎ",
+  "dashboard.retryingBody": "{file} ናብ ተርታ ተመሊሱ።",
+  "dashboard.retryFailed": "እንደገና ምፍታን ኣይተሳኸዐን",
+  "dashboard.retryFailedBody": "ነዚ ፋይል እንደገና ምፍታን ኣይተኻእለን",
+  "dashboard.getPremium": "ፕሪሚየም ርኸብ",
+  "dashboard.signOut": "ውጻእ",
+  "notifications.title": "ምልክታታት",
+  "notifications.markAllRead": "ኩሉ ከም ዝተነበበ ምልክት ግበር",
+  "notifications.empty": "ሓድሽ ነገር የለን።",
+  "notifications.premiumApproved": "ፕሪሚየም ጸዲቑ",
+  "notifications.premiumApprovedBody": "ክፍሊትካ ተረጋጊጹ። ደረት ዘይብሎም ፍላሽካርድታትን ሞድ ዝኽሪን ተጠቐም።",
+  "notifications.premiumRejected": "ክፍሊት ኣይተረጋገጸን",
+  "notifications.premiumRejectedBody": "ሕቶ ፕሪሚየምካ ኣይጸደቐን። ምኽንያቱ ንምርኣይን ዳግማይ ንምቕራብን ክፈቶ።",
+  "notifications.paymentReceived": "ክፍሊት በጺሑ",
+  "notifications.paymentReceivedBody": "{amount} ብር በጺሑና። ፕሪሚየም ሕጂ ንጡፍ እዩ።",
+  "notifications.premiumExpiring": "ፕሪሚየም ቀልጢፉ ክውዳእ እዩ",
+  "notifications.premiumExpiringBody": "ፕሪሚየምካ ብ{date} ይውዳእ። ሕጂ ሓድስ እሞ ዝተረፉ መዓልታት ኩሎም ሓሉ።",
+  "notifications.premiumExpired": "ፕሪሚየም ተወዲኡ",
+  "notifications.premiumExpiredBody": "ፕሪሚየምካ ብ{date} ተወዲኡ። ንምምላሱ ሓድሶ።",
+  "notifications.uploadCompleted": "ፍላሽካርድታት ድሉዋት እዮም",
+  "notifications.uploadCompletedBody": "ካብ {file} ዝተዳለዉ ፍላሽካርድታትካ ንመጽናዕቲ ድሉዋት እዮም።",
+  "notifications.uploadFailed": "ምስራሕ ኣይሰለጠን",
+  "notifications.uploadFailedBody": "ካብ {file} ፍላሽካርድታት ክነዳሉ ኣይከኣልናን። ካብ ዳሽቦርድካ እንደገና ክትፍትን ትኽእል ኢኻ።",
+  "notifications.cardsDue": "ካርድታት ንምድጋም በጺሖም",
+  "notifications.cardsDueBody": "ኣብ ናይ ዝኽሪ ኣገባብ ንምድጋም ዝበጽሑ {count} ካርድታት ኣለውኹም።",
+  "dashboard.title": "ጉጅለታት ካርድካ",
+  "dashboard.subtitle": "ሓደስቲ ጉጅለታት ፍጠር ወይ ዘለዉ ከልስ",
+  "dashboard.uploadFiles": "ፋይላት ጽዓን",
+  "dashboard.loadingSets": "ካርድታትካ ይጽዓኑ ኣለዉ...",
+  "dashboard.emptyTitle": "ክሳብ ሕጂ ጉጅለ ካርድ የለን",
+  "dashboard.emptyBody": "ብAI ዝዳለዉ ካርድታት ንምጅማር ቀዳማይ ፋይልካ ጽዓን",
+  "dashboard.uploadNow": "ሕጂ ጽዓን",
+  "dashboard.study": "ኣጽንዕ",
+  "dashboard.quiz": "ፈተና",
+  "dashboard.export": "ስደድ",
+  "dashboard.exportCsv": "CSV (ሰሌዳታት ቁጽሪ)",
+  "dashboard.exportTsv": "TSV (ምእታው ጽሑፍ Anki)",
+  "dashboard.exportAnki": "ጥቕላል Anki (.apkg)",
+  "dashboard.exportFailed": "ነዚ ስብስብ ምስዳድ ኣይተኻእለን",
+  "dashboard.print": "ሕተም ወይ ከም PDF ዓቕብ",
+  "dashboard.filterLanguage": "ብቋንቋ ኣጻሪ",
+  "dashboard.allLanguages": "ኩሎም ቋንቋታት",
+
+  "admin.title": "ገጽ ኣመሓዳሪ",
+
+  "memory.title": "ኣገባብ ዝኽሪ",
+
+  "upload.invalidType": "ዘይፍቀድ ዓይነት ፋይል",
+  "upload.invalidTypeBody": "ዓይነት ፋይል \"{type}\" ኣይድገፍን። በጃኻ PDF፣ PPTX፣ PNG ወይ JPEG ጽዓን።",
+  "upload.tooLarge": "ፋይል ኣዝዩ ዓቢ እዩ",
+  "upload.tooLargeBody": "በጃኻ ካብ 20MB ዝነኣሰ ፋይል ጽዓን",
+  "upload.fileSelected": "ፋይል ተመሪጹ",
+  "upload.fileSelectedBody": "{file} ንምጽዓን ድሉው እዩ",
+  "upload.limitReached": "ደረት ምጽዓን በጺሕካ",
+  "upload.limitReachedToast": "ደረት ዘይብሉ ምጽዓን ንምርካብ ናብ ፕሪሚየም ኣመሓይሽ!",
+  "upload.complete": "ምጽዓን ተዛዚሙ!",
+  "upload.completeBody": "ካርድታትካ ነዳሉ ኣለና። መስርሑ ኣብ ዳሽቦርድካ ክትከታተሎ ትኽእል።",
+  "upload.failed": "ምጽዓን ኣይተሳኸዐን",
+  "upload.failedBody": "ፋይልካ ምስራሕ ኣይተኻእለን። በጃኻ እንደገና ፈትን።",
+  "upload.title": "ፋይላትካ ጽዓን",
+  "upload.tabGenerate": "ብAI ኣዳሉ",
+  "upload.tabImport": "ካርድታት ኣእቱ",
+  "upload.limitReachedBody": "ኩሎም {limit} ነጻ ምጽዓናት ተጠቒምካዮም። ደረት ዘይብሉ ምጽዓን ንምርካብ ናብ ፕሪሚየም ኣመሓይሽ!",
+  "upload.remaining": "ነጻ መደብ፦ {count} ምጽዓናት ተሪፎም",
+  "upload.used": "ካብ {limit} ነጻ ምጽዓናት {used} ተጠቒምካ። ደረት ዘይብሉ ምጽዓን ንምርካብ ናብ ፕሪሚየም ኣመሓይሽ።",
+  "upload.premiumMember": "ኣባል ፕሪሚየም - ደረት ዘይብሉ ምጽዓን",
+  "upload.premiumRemaining": "ኣባል ፕሪሚየም - ኣብዚ ግዜ ክፍሊት {count} ምጽዓናት ተሪፎም",
+  "upload.selectFile": "ፋይል ምረጽ",
+  "upload.tapToSelect": "ፋይል ንምምራጽ ኣብ ታሕቲ ጠውቕ",
+  "upload.supportedTypes": "PDF፣ PPTX፣ PNG፣ JPEG (ዝለዓለ 20MB)",
+  "upload.uploading": "ይጽዓን ኣሎ...",
+  "upload.queueing": "ንመስርሕ ኣብ ተርታ ይኣቱ ኣሎ...",
+  "upload.generate": "ካርድታት ኣዳሉ",
+  "upload.outputLanguage": "ቋንቋ ካርድታት",
+  "upload.outputLanguageHint": "ፋይልካ ብዝኾነ ቋንቋ ይኹን፣ ሕቶታትን መልስታትን ብዚ ቋንቋ ይጽሓፉ።",
+
+  "flipCard.question": "ሕቶ",
+  "flipCard.answer": "መልሲ",
+  "flipCard.reveal": "መልሲ ንምርኣይ ጠውቕ",
+
+  "study.loadFailed": "ካርድታት ምጽዓን ኣይተኻእለን",
+  "study.loading": "ካርድታት ይጽዓኑ ኣለዉ...",
+  "study.empty": "ካርድ ኣይተረኽበን",
+  "study.addCards": "ካርድታት ወስኽ",
+  "study.editSet": "ጉጅለ ኣርትዕ",
+  "study.cardPosition": "ካርድ {current} ካብ {total}",
+  "study.slide": "ስላይድ {number}",
+  "study.previous": "ዝሓለፈ",
+  "study.flip": "ካርድ ግልበጥ",
+  "study.next": "ዝቕጽል",
+  "study.takeQuiz": "ፈተና ውሰድ",
+
+  "editSet.notAllowed": "ኣይፍቀድን",
+  "editSet.notAllowedBody": "ክተርትዖም ትኽእል ናይ ባዕልኻ ጉጅለታት ካርድ ጥራይ እዮም",
+  "editSet.loadFailed": "ጉጅለ ካርድ ምጽዓን ኣይተኻእለን",
+  "editSet.titleRequired": "ኣርእስቲ የድሊ",
+  "editSet.titleRequiredBody": "ንጉጅለኻ ኣርእስቲ ሃቦ",
+  "editSet.incomplete": "ዘይተማልኡ ካርድታት",
+  "editSet.incompleteBody": "ነፍሲ ወከፍ ካርድ ሕቶን መልስን ክህልዎ ኣለዎ",
+  "editSet.saved": "ተዓቂቡ",
+  "editSet.savedBody": "ጉጅለ ካርድካ ተሓዲሱ",
+  "editSet.saveFailed": "ለውጥታት ምዕቃብ ኣይተኻእለን",
+  "editSet.discardConfirm": "ዘይተዓቀቡ ለውጥታትካ ክትሓድጎም?",
+  "editSet.backToStudy": "ናብ መጽናዕቲ ተመለስ",
+  "editSet.saving": "ይዕቀብ ኣሎ...",
+  "editSet.save": "ለውጥታት ዓቅብ",
+  "editSet.title": "ኣርእስቲ",
+  "editSet.description": "መግለጺ",
+  "editSet.oneCard": "1 ካርድ",
+  "editSet.dragHint": "ስርዓት ንምቕያር ካርድታት ስሓብ",
+  "editSet.moveUp": "ናብ ላዕሊ ኣግዕዝ",
+  "editSet.moveDown": "ናብ ታሕቲ ኣግዕዝ",
+  "editSet.questionPlaceholder": "ሕቶ",
+  "editSet.answerPlaceholder": "መልሲ",
+  "editSet.deleteCard": "ካርድ ሰርዝ",
+  "editSet.addCard": "ካርድ ወስኽ",
+
+  "quiz.notEnoughCards": "እኹል ካርድታት የለዉን",
+  "quiz.notEnoughCardsBody": "ፈተና ንምድላው እንተወሓደ 4 ካርድታት የድልዩ",
+  "quiz.generateFailed": "ፈተና ምድላው ኣይተኻእለን",
+  "quiz.aiReady": "ፈተና AI ድሉው እዩ",
+  "quiz.aiReadyBody": "{count} ሓደስቲ ሕቶታት ተዳልዮም",
+  "quiz.aiFailed": "ፈተና AI ምድላው ኣይተኻእለን",
+  "quiz.aiLimit": "ናይ ሎሚ ደረት ፈተና AI በጺሕኩም ኢኹም። ጽባሕ እንደገና ፈትኑ።",
+  "quiz.generating": "ፈተና ይዳሎ ኣሎ...",
+  "quiz.complete": "ፈተና ተዛዚሙ!",
+  "quiz.result": "ካብ {total} ሕቶታት {score} ብልክዕ መሊስካ",
+  "quiz.excellent": "ኣዝዩ ጽቡቕ! ነቲ ትምህርቲ ብግቡእ ተቖጻጺርካዮ!",
+  "quiz.great": "ጽቡቕ ስራሕ! ምልምማድ ቀጽል!",
+  "quiz.keepStudying": "ምጽናዕ ቀጽል! ክትበጽሖ ኢኻ!",
+  "quiz.tryAgain": "እንደገና ፈትን",
+  "quiz.studyCards": "ካርድታት ኣጽንዕ",
+  "quiz.questionPosition": "ሕቶ {current} ካብ {total}",
+  "quiz.aiGenerating": "ይዳሎ ኣሎ...",
+  "quiz.regenerate": "እንደገና ኣዳሉ",
+  "quiz.generateAi": "ፈተና AI ኣዳሉ",
+  "quiz.heading": "{title} - ፈተና",
+  "quiz.explanation": "መብርሂ፦",
+  "quiz.runningScore": "ነጥቢ፦ {score}/{total}",
+  "quiz.nextQuestion": "ዝቕጽል ሕቶ",
+  "quiz.seeResults": "ውጽኢት ርአ",
+  "quiz.type.mcq": "ምርጫ",
+  "quiz.type.trueFalse": "ሓቂ ወይ ሓሶት",
+  "quiz.type.cloze": "ባዶ ቦታ ምላእ",
+  "quiz.type.shortAnswer": "ሓጺር መልሲ",
+  "quiz.type.matching": "ኣዛምድ",
+  "quiz.true": "ሓቂ",
+  "quiz.false": "ሓሶት",
+  "quiz.fillBlank": "ባዶ ቦታ ምላእ",
+  "quiz.typeAnswer": "መልስኻ ጽሓፍ",
+  "quiz.check": "ኣረጋግጽ",
+  "quiz.correct": "ልክዕ!",
+  "quiz.notQuite": "ልክዕ ኣይኮነን።",
+  "quiz.answerLabel": "መልሲ፦",
+  "quiz.chooseMatch": "ተዛማዲ ምረጽ",
+  "quiz.correctMatch": "ልክዕ፦ {answer}",
+  "quiz.checkMatches": "ምዝማዳት ኣረጋግጽ",
+  "quiz.correctAnswerIs": "ልክዕ መልሲ፦ {answer}",
+  "quiz.matchingPrompt": "ነፍሲ ወከፍ ሕቶ ምስ መልሱ ኣዛምድ",
+
+  "quizHistory.title": "ታሪኽ ነጥቢ",
+  "quizHistory.loadFailed": "ታሪኽ ፈተና ምጽዓን ኣይተኻእለን",
+  "quizHistory.loading": "ታሪኽ ይጽዓን ኣሎ...",
+  "quizHistory.score": "ነጥቢ",
+  "quizHistory.minutesSeconds": "{minutes}ደ {seconds}ካ",
+  "quizHistory.seconds": "{seconds}ካ",
+  "quizHistory.heading": "{title} - ታሪኽ ነጥቢ",
+  "quizHistory.oneAttempt": "1 ፈተነ",
+  "quizHistory.attemptCount": "{count} ፈተነታት",
+  "quizHistory.emptyTitle": "ክሳብ ሕጂ ፈተነ የለን",
+  "quizHistory.emptyBody": "ነጥብኻ ምክትታል ንምጅማር ፈተና ውሰድ",
+  "quizHistory.best": "ዝለዓለ ነጥቢ",
+  "quizHistory.average": "ማእከላይ ነጥቢ",
+  "quizHistory.trend": "ኣንፈት ነጥቢ",
+  "quizHistory.trendBody": "ኣብ ነፍሲ ወከፍ ፈተነ ዝተረኽበ ሚእታዊት ልክዕ",
+  "quizHistory.correctCount": "{score}/{total} ልክዕ",
+
+  "memory.again": "እንደገና",
+  "memory.hard": "ከቢድ",
+  "memory.good": "ጽቡቕ",
+  "memory.easy": "ቀሊል",
+  "memory.loadFailed": "ተርታ ምኽላስ ምጽዓን ኣይተኻእለን",
+  "memory.saveFailed": "ምኽላስካ ምዕቃብ ኣይተኻእለን",
+  "memory.loading": "ተርታ ምኽላስ ይጽዓን ኣሎ...",
+  "memory.cardsLeft": "ንሎሚ {count} ካርድታት ተሪፎም",
+  "memory.premiumTitle": "ኣገባብ ዝኽሪ ኣገልግሎት ፕሪሚየም እዩ",
+  "memory.premiumBody": "ብኽፍተት ዝድገም ምኽላስ ነፍሲ ወከፍ ካርድ ክትርስዖ ምስ ቀረብካ የቕርበልካ፤ ስለዚ ቁሩብ ኣጽኒዕካ ብዙሕ ትዝክር።",
+  "memory.caughtUp": "ንኹሉ ወዲእካዮ!",
+  "memory.reviewedBody": "{count} ካርድታት ከሊስካ። ንዝቕጽል ምኽላስ ጽባሕ ተመለስ።",
+  "memory.nothingDue": "ሕጂ ዝኽለስ ካርድ የለን። ደሓር ተመለስ ወይ ሓድሽ ትምህርቲ ጽዓን።",
+  "memory.newCard": "ሓድሽ ካርድ",
+  "memory.showAnswer": "መልሲ ኣርኢ",
+
+  "premium.invalidFile": "ዘይፍቀድ ፋይል",
+  "premium.invalidFileBody": "በጃኻ ፋይል ስእሊ (ስክሪንሾት) ጽዓን",
+  "premium.tooLargeBody": "ዝለዓለ ዓቐን ፋይል 5MB እዩ",
+  "premium.missingInfo": "ዝጎደለ ሓበሬታ",
+  "premium.missingInfoBody": "በጃኻ ኩሉ ቦታታት ምላእን ስክሪንሾት ጽዓንን",
+  "premium.submitted": "ሕቶ ተሰዲዱ!",
+  "premium.submittedBody": "ሕቶ ፕሪሚየምካ ብኣመሓዳሪ ይርአ ኣሎ።",
+  "premium.submitFailed": "ሕቶ ምስዳድ ኣይተኻእለን",
+  "premium.duplicateReference": "እዚ መወከሲ ክፍሊት ቅድሚ ሕጂ ቀሪቡ እዩ። ኣብ ቅብሊትኩም ዘሎ መወከሲ ኣረጋግጹ።",
+  "premium.title": "ተበጻሕነት ፕሪሚየም",
+  "premium.subtitle": "ደረት ዘይብሉ ምድላው ካርድን ኣገባብ ዝኽርን ክፈት",
+  "premium.active": "ፕሪሚየም ኢኻ!",
+  "premium.activeBody": "ደረት ዘይብሉ ምድላው ካርድን ኩሎም ኣገልግሎታት ፕሪሚየምን ተሓጎስ።",
+  "premium.expiresIn": "ኣብ {count} መዓልታት ይውዳእ ({date})",
+  "premium.expiresInOneDay": "ጽባሕ ይውዳእ ({date})",
+  "premium.expiresToday": "ሎሚ ይውዳእ ({date})",
+  "premium.renew": "ፕሪሚየም ኣሐድስ",
+  "premium.renewBody": "ምሕዳስ ንውሓት መደብካ ኣብቲ ናይ ሕጂ ዕለት ምውዳእ ይውስኽ፤ ስለዚ ዝኸፈልካሉ ሓንቲ መዓልቲ እኳ ኣይተጥፍእን።",
+  "premium.pending": "ሕቶ ይጽበ ኣሎ",
+  "premium.pendingBody": "ክፍሊትካ ብኣመሓዳሪ ይረጋገጽ ኣሎ። በጃኻ ተጸበ።",
+  "premium.paymentConfirming": "ክፍሊትካ ይረጋገጽ ኣሎ",
+  "premium.paymentConfirmingBody": "እዚ መብዛሕትኡ ግዜ ሒደት ካልኢታት ይወስድ። ነዚ ገጽ ክትገድፎ ትኽእል ኢኻ፤ ክፍሊት ምስ ተረጋገጸ ፕሪሚየም ይጅምር።",
+  "premium.paymentSucceeded": "ክፍሊት በጺሑ",
+  "premium.paymentSucceededBody": "ፕሪሚየምካ ሕጂ ንጡፍ እዩ። የቐንየልና!",
+  "premium.paymentFailed": "ክፍሊት ኣይተዛዘመን",
+  "premium.paymentFailedBody": "ንፕሪሚየም ዝኾነ ገንዘብ ኣይተወስደን። እንደገና ክትፍትን ወይ ብባንኪ ክትከፍል ትኽእል ኢኻ።",
+  "premium.expired": "ፕሪሚየምካ ተወዲኡ",
+  "premium.expiredBody": "ብ{date} ተወዲኡ። ደረት ዘይብሉ ካርድን ኣገባብ ዝኽርን ንምምላስ ኣብ ታሕቲ ኣሐድስ።",
+  "premium.submittedOn": "ዝተሰደደሉ ዕለት፦ {date}",
+  "premium.rejected": "ሕቶ ተነጺጉ",
+  "premium.rejectedBody": "ክፍሊትካ ምርግጋጽ ኣይተኻእለን። በጃኻ እንደገና ፈትን።",
+  "premium.reviewerNote": "መዘኻኸሪ ካብ ገምጋሚ፦ {note}",
+  "premium.resubmitHint": "ኣብ ታሕቲ ዘሎ ዝርዝራት ኣስተኻኽል እሞ መረጋገጺኻ እንደገና ስደድ። ሓድሽ ሕቶኻ ምስዚ ክተኣሳሰር እዩ።",
+  "premium.rejection.amountMismatch": "ዝተኸፍለ መጠን ምስ ዋጋ መደብ ኣይሰማማዕን",
+  "premium.rejection.referenceNotFound": "ነዚ መወከሲ ምንቅስቓስ ኣብ መግለጺ ባንክና ክንረኽቦ ኣይከኣልናን",
+  "premium.rejection.unreadableScreenshot": "እቲ ስእሊ ንጹር ኣይኮነን ወይ ክፍሊት ኣየርኢን",
+  "premium.rejection.duplicateReceipt": "እዚ ቅብሊት ቅድሚ ሕጂ ንኻልእ ሕቶ ተጠቒምሉ እዩ",
+  "premium.rejection.other": "ካልእ ምኽንያት",
+  "premium.benefits": "ረብሓታት ፕሪሚየም",
+  "premium.benefitUnlimited": "ደረት ዘይብሉ ምድላው ካርድ",
+  "premium.benefitMemory": "ኣገባብ ዝኽሪ (ብኽፍተት ዝድገም ምኽላስ)",
+  "premium.benefitQuiz": "ባዕሎም ዝዳለዉ ሕቶታት ዘለዎ ኣገባብ ፈተና",
+  "premium.benefitSupport": "ቀዳምነት ዝወሃቦ ደገፍ",
+  "premium.paymentInfo": "ሓበሬታ ክፍሊት",
+  "premium.paymentInfoBody": "መደብ ምረጽ፣ ድሕሪኡ ብመስመር ወይ ብባንኪ ክፈል።",
+  "premium.payOnline": "ብመስመር ክፈል",
+  "premium.payOnlineHint": "ብቻፓ ብቴሌብር፣ ሲቢኢ ብር፣ ኤም-ፔሳ ወይ ካርድ። ክፍሊት ምስ ተረጋገጸ ፕሪሚየም ይጅምር።",
+  "premium.orBankTransfer": "ወይ ብባንኪ ክፈል",
+  "premium.checkoutFailed": "ክፍሊት ብመስመር ክጅመር ኣይከኣለን። በጃኻ እንደገና ፈትን።",
+  "premium.plan.monthly": "ወርሓዊ",
+  "premium.plan.semester": "ሰሚስተር",
+  "premium.plan.yearly": "ዓመታዊ",
+  "premium.planDuration": "{days} መዓልታት ፕሪሚየም",
+  "premium.planPrice": "{price} ብር",
+  "premium.accountNumber": "ቁጽሪ ሕሳብ ንግዲ ባንክ፦",
+  "premium.bankName": "ንግዳዊ ባንክ ኢትዮጵያ",
+  "premium.afterPayment": "ክፍሊት ምስ ሰደድካ ስክሪንሾትካ ኣብ ታሕቲ ጽዓን።",
+  "premium.submitProof": "መረጋገጺ ክፍሊት ስደድ",
+  "premium.submitProofBody": "ስክሪንሾት ክፍሊትካ ጽዓንን ሓበሬታኻ ኣረጋግጽን",
+  "premium.emailAddress": "ኣድራሻ ኢመይል",
+  "premium.username": "ስም ተጠቃሚ",
+  "premium.usernamePlaceholder": "ስም ተጠቃሚኻ",
+  "premium.transactionReference": "መወከሲ ቁጽሪ ምንቅስቓስ",
+  "premium.transactionReferenceHint": "ኣብ ቅብሊት ባንኪ ወይ ኤስኤምኤስ ዘሎ መወከሲ፣ ንኣብነት FT24123ABCDE።",
+  "premium.amountPaid": "ዝተኸፍለ መጠን (ብር)",
+  "premium.payerName": "ሽም ከፋሊ",
+  "premium.payerNamePlaceholder": "ኣብ ሕሳብ ባንኪ ዘሎ ሽም",
+  "premium.screenshot": "ስክሪንሾት ክፍሊት",
+  "premium.screenshotPrompt": "ስክሪንሾት ክፍሊት ንምጽዓን ጠውቕ",
+  "premium.submitting": "ይሰደድ ኣሎ...",
+  "premium.submit": "ሕቶ ክፍሊት ስደድ",
+
+  "notFound.message": "ይቕረታ! እቲ ገጽ ኣይተረኽበን",
+  "notFound.home": "ናብ መበገሲ ገጽ ተመለስ",
+
+  "admin.approved": "ጸዲቑ!",
+  "admin.approvedBody": "ን{username} ፕሪሚየም ተኸፊቱ",
+  "admin.defaultRejectReason": "ክፍሊት ምርግጋጽ ኣይተኻእለን",
+  "admin.rejectTitle": "መረጋገጺ ክፍሊት ንጸግ",
+  "admin.rejectDescription": "{username} ኣስተኻኺሉ እንደገና ክሰድድ እንታይ ከም ዝተጋገየ ንገሮ።",
+  "admin.rejectNotes": "ዝርዝራት (ኣማራጺ)",
+  "admin.rejectNotesRequired": "ዝርዝራት",
+  "admin.rejectNotesPlaceholder": "ምስቲ ምኽንያት ንተጠቃሚ ይርአ",
+  "admin.rejectionReason": "ዝተነጸገ፦ {reason}",
+  "admin.resubmissionOf": "ዳግማይ ምቕራብ ናይቲ ብ{date} ዝቐረበ ሕቶ፣ ዝተነጸገ፦ {reason}",
+  "admin.rejected": "ተነጺጉ",
+  "admin.rejectedBody": "ሕቶ {username} ተነጺጉ",
+  "admin.updated": "ተሓዲሱ",
+  "admin.updatedBody": "ኩነታት ፕሪሚየም {username} ተሓዲሱ",
+  "admin.deleted": "ተሰሪዙ",
+  "admin.deletedBody": "ፋይል ብዓወት ተሰሪዙ",
+  "admin.reprocessing": "እንደገና ይስራሕ ኣሎ",
+  "admin.reprocessingBody": "{file} ንመስርሕ ኣብ ተርታ ኣትዩ",
+  "admin.reprocessFailed": "ፋይል እንደገና ምስራሕ ኣይተኻእለን",
+  "admin.pendingRequests": "ዝጽበዩ ዘለዉ ሕቶታት",
+  "admin.totalUsers": "ጠቕላላ ተጠቀምቲ",
+  "admin.premiumUsers": "ተጠቀምቲ ፕሪሚየም",
+  "admin.totalUploads": "ጠቕላላ ምጽዓናት",
+  "admin.paymentRequests": "ሕቶታት ክፍሊት",
+  "admin.users": "ተጠቀምቲ",
+  "admin.uploads": "ምጽዓናት",
+  "admin.plans": "መደባት",
+  "admin.requestPlan": "መደብ፦ {plan} ({price} ብር)",
+  "admin.reference": "መወከሲ፦ {reference}",
+  "admin.amountPaid": "{amount} ብር ተኸፊሉ",
+  "admin.amountShort": "ካብ ዋጋ መደብ ዝነኣሰ",
+  "admin.payer": "ከፋሊ፦ {name}",
+  "admin.duplicate": "ተደጋጋሚ ክኸውን ይኽእል",
+  "admin.sameReference": "ሓደ ዓይነት መወከሲ ምስ፦ {requests}",
+  "admin.sameScreenshot": "ሓደ ዓይነት ስእሊ ምስ፦ {requests}",
+  "admin.screenshotUnavailable": "ስእሊ ኣይርከብን",
+  "admin.planActive": "ይርከብ",
+  "admin.planPrice": "ዋጋ (ብር)",
+  "admin.planDays": "ንውሓት (መዓልታት)",
+  "admin.planUploadLimit": "ምጽዓናት ንነፍሲ ወከፍ ግዜ",
+  "admin.planUnlimited": "ደረት ዘይብሉ",
+  "admin.planSaved": "መደብ {plan} ተዓቂቡ",
+  "admin.planSaveFailed": "መደብ ምዕቃብ ኣይሰለጠን",
+  "admin.planInvalid": "ዘይቅኑዕ መደብ",
+  "admin.planInvalidBody": "ዋጋ፣ ንውሓትን ደረት ምጽዓንን ኣወንታዊ ቁጽርታት ክኾኑ ኣለዎም። ደረት ዘይብሉ ምጽዓን ንምርካብ ደረት ምጽዓን ባዶ ግደፎ።",
+  "admin.plansLoadFailed": "መደባት ምጽዓን ኣይሰለጠን",
+  "admin.noRequests": "ክሳብ ሕጂ ሕቶ ክፍሊት የለን",
+  "admin.status.pending": "ይጽበ ኣሎ",
+  "admin.status.approved": "ጸዲቑ",
+  "admin.status.rejected": "ተነጺጉ",
+  "admin.viewScreenshot": "ስክሪንሾት ርአ",
+  "admin.approve": "ኣጽድቕ",
+  "admin.reject": "ንጸግ",
+  "admin.joined": "ዝተጸንበረሉ፦ {date}",
+  "admin.premiumUntil": "ፕሪሚየም ክሳብ {date}",
+  "admin.removePremium": "ፕሪሚየም ኣልግስ",
+  "admin.grantPremium": "ፕሪሚየም ሃብ",
+  "admin.noUploads": "ክሳብ ሕጂ ምጽዓን የለን",
+  "admin.uploadMeta": "ዓይነት፦ {type} | ኩነታት፦ {status}",
+  "admin.uploadError": "ጌጋ፦ {error}",
+  "admin.uploadedOn": "ዝተጽዓነሉ፦ {date}",
+  "admin.viewText": "ጽሑፍ ርአ",
+  "admin.reprocess": "እንደገና ስራሕ",
+  "admin.extractedText": "ካብዚ ፋይል ዝወጸ ጽሑፍ",
+  "offline.save": "ብዘይ መስመር ዓቅብ",
+  "offline.saved": "ብዘይ መስመር ተዓቂቡ",
+  "offline.savedTitle": "ብዘይ መስመር ይርከብ",
+  "offline.savedBody": "ነዚ ስብስብ ብዘይ ኢንተርኔት ከተጽንዖን ክትፍተነሉን ትኽእል ኢኻ።",
+  "offline.saveFailed": "ነዚ ስብስብ ኣብ መሳርሒኻ ምዕቃብ ኣይተኻእለን",
+  "offline.removed": "ካብዚ መሳርሒ ተኣልዩ",
+  "offline.usingSavedCopy": "ብዘይ መስመር ኢኻ፦ ኣብዚ መሳርሒ ዝተዓቀበ ቅዳሕ ይርአ ኣሎ",
+  "offline.status": "ብዘይ መስመር ኢኻ። ኣብዚ መሳርሒ ዝተዓቀቡ ስብስባት ሕጂ'ውን ይሰርሑ እዮም።",
+  "offline.waiting": "{count} ውጽኢታት ንምስምማዕ ይጽበዩ ኣለዉ",
+  "offline.syncing": "ውጽኢታትካ ይሰማምዑ ኣለዉ...",
+  "offline.syncedTitle": "ተመሊስካ ኣብ መስመር",
+  "offline.syncedBody": "ብዘይ መስመር ዝተመዝገቡ {count} ውጽኢታት ተዓቂቦም።",
+  "offline.queuedTitle": "ኣብዚ መሳርሒ ተዓቂቡ",
+  "offline.queuedBody": "ናብ መስመር ምስ ተመለስካ ውጽኢትካ ክጽዓን እዩ።",
+  "import.fromFile": "ፋይል",
+  "import.fromQuizlet": "ካብ Quizlet ለጥፍ",
+  "import.fileTypes": "CSV፣ TSV ወይ ናይ Anki ጥቕላል (.apkg)",
+  "import.readFailed": "ፋይሉ ምንባብ ኣይተኻእለን",
+  "import.quizletPaste": "ካብ ናይ Quizlet Export ሳንዱቕ ዘሎ ጽሑፍ ለጥፍ",
+  "import.quizletPlaceholder": "ቃል<tab>ትርጉም፣ ኣብ ሓደ መስመር ሓደ ካርድ",
+  "import.termSeparator": "ኣብ መንጎ ቃልን ትርጉምን",
+  "import.cardSeparator": "ኣብ መንጎ ካርድታት",
+  "import.separator.tab": "ታብ",
+  "import.separator.comma": "ኮማ",
+  "import.separator.dash": "ሰረዝ ( - )",
+  "import.separator.newLine": "ሓድሽ መስመር",
+  "import.separator.semicolon": "ሰሚኮሎን (;)",
+  "import.questionColumn": "ዓምዲ ሕቶ",
+  "import.answerColumn": "ዓምዲ መልሲ",
+  "import.column": "ዓምዲ {number}",
+  "import.skipHeader": "ቀዳማይ መስርዕ ኣርእስቲ ዓምድታት እዩ",
+  "import.sameColumn": "ንሕቶን መልስን ዝተፈላለዩ ዓምድታት ምረጽ",
+  "import.mixedNoteTypes": "እዚ ዴክ ዓውድታቶም ዘይሰማምዑ ክኾኑ ዝኽእሉ {count} ዓይነታት መዘኻኸሪ Anki ይሓዋውስ። ቅድሚ ምእታው ቅድመ-ርእይቶ ኣረጋግጹ።",
+  "import.preview": "ቅድመ ርእይቶ",
+  "import.summary": "{count} ካርድታት ድሉዋት፣ {skipped} መስርዕታት ተሰጊሮም",
+  "import.issuesTitle": "እዞም መስርዕታት ኣይኣትዉን",
+  "import.rowIssue": "መስርዕ {row}፦ {problem}",
+  "import.moreIssues": "ከምኡ'ውን ካልኦት {count}",
+  "import.tooMany": "ሓደ ስብስብ ብዝበዝሐ {limit} ካርድታት ክህልዎ ይኽእል። ፋይሉ ናብ ንኣሽቱ ስብስባት ምቅሎ።",
+  "import.setTitle": "ኣርእስቲ ስብስብ",
+  "import.setLanguage": "ቋንቋ ካርድታት",
+  "import.submit": "{count} ካርድታት ኣእቱ",
+  "import.importing": "ይኣቱ ኣሎ...",
+  "import.done": "ስብስብ ኣትዩ",
+  "import.doneBody": "{count} ካርድታት ናብ ቤተ-መጻሕፍትኻ ተወሲኾም",
+  "import.failed": "ስብስብ ምእታው ኣይተኻእለን። በጃኻ እንደገና ፈትን።",
+  "import.error.unreadable": "ፋይሉ ክነንብቦ እንኽእል CSV፣ TSV ወይ ናይ Anki ጥቕላል ኣይኮነን።",
+  "import.error.newAnkiFormat": "እዚ ጥቕላል ሓድሽ ቅርጺ Anki ይጥቀም። ኣብ Anki \"Support older Anki versions\" መሪጽካ እንደገና ኣውጽእ።",
+  "import.error.noQuestion": "ሕቶ የለን",
+  "import.error.noAnswer": "መልሲ የለን",
+  "import.error.tooLong": "ጽሑፍ ካብ 5000 ፊደላት ይነውሕ",
+  "print.title": "ሕተም",
+  "print.cards": "ዝቑረጹ ካርድታት",
+  "print.sheet": "ወረቐት መጽናዕቲ",
+  "print.print": "ሕተም / ከም PDF ዓቕብ",
+  "print.cardsHint": "ብኽልቲኡ ገጽ ብነዊሕ ወሰን እናገልበጥካ ሕተም፤ ነፍሲ ወከፍ መልሲ ኣብ ድሕሪ ሕቶኡ ይወጽእ። ድሕሪኡ ብነጠብጣብ መስመራት ቁረጽ።",
+  "print.sheetHint": "ሕቶታትን መልስታትን ጎን ንጎን። ንርእስኻ ክትፍትን ዓምዲ መልሲ ሽፍን።",
+  "print.pdfHint": "PDF ንምርካብ \"Save as PDF\" ከም መሕተሚ ምረጽ።",
+  "share.button": "ኣካፍል",
+  "share.title": "ነዚ ስብስብ ኣካፍል",
+  "share.description": "መን ነቶም ካርድታት ክርእዮም ከም ዝኽእል ምረጽ። ካልኦት ናይ ገዛእ ርእሶም ቅዳሕ ክዕቅቡ ይኽእሉ፤ ምዕባለ መጽናዕትኻ ብሕታዊ ኮይኑ ይጸንሕ።",
+  "share.private": "ብሕታዊ",
+  "share.privateBody": "ነዚ ስብስብ ክርእዮ ዝኽእል ንስኻ ጥራይ ኢኻ።",
+  "share.unlisted": "ሊንክ ዘለዎ ዝኾነ ሰብ",
+  "share.unlistedBody": "ሊንክ ዝለኣኽካሎም መማህርትኻ ክርእይዎ ይኽእሉ። ኣብ ዝኾነ ቦታ ኣይዝርዘርን።",
+  "share.public": "ንኹሉ",
+  "share.publicBody": "ኣብ ዝተኻፈሉ ስብስባት ይዝርዘር፤ ዝኾነ ተማሃራይ ክረኽቦ ይኽእል።",
+  "share.link": "ሊንክ",
+  "share.copy": "ሊንክ ቅዳሕ",
+  "share.copied": "ሊንክ ተቐዲሑ",
+  "share.resetLink": "ሊንክ ሓድሽ ግበር (እቲ ናይ ቀደም ኣይሰርሕን)",
+  "share.linkReset": "ሓድሽ ሊንክ ተፈጢሩ",
+  "share.updateFailed": "ምክፋል ምምሕያሽ ኣይተኻእለን። በጃኻ እንደገና ፈትን።",
+  "share.done": "ተወዲኡ",
+  "share.copiedFrom": "ካብ ስብስብ {author} ዝተቐድሐ",
+  "share.by": "ብ{author}",
+  "share.clone": "ቅዳሕ ናብ ቤተ-መጻሕፍተይ ዓቕብ",
+  "share.cloning": "ይዕቀብ ኣሎ...",
+  "share.cloned": "ናብ ቤተ-መጻሕፍትኻ ተዓቂቡ",
+  "share.clonedBody": "እቲ ቅዳሕ ንምእራምን ንምጽናዕን ናትካ እዩ።",
+  "share.cloneFailed": "ቅዳሕ ምዕቃብ ኣይተኻእለን። በጃኻ እንደገና ፈትን።",
+  "share.openOwn": "እዚ ናትካ ስብስብ እዩ። ክፈቶ",
+  "share.notFound": "እዚ ስብስብ የለን",
+  "share.notFoundBody": "ሊንክ ጌጋ ክኸውን ይኽእል፣ ወይ ወናኒኡ ምክፋል ኣቋሪጹ።",
+  "share.browse": "ዝተኻፈሉ ስብስባት",
+  "share.browseTitle": "ዝተኻፈሉ ስብስባት",
+  "share.browseSubtitle": "ካልኦት ተማሃሮ ንኹሉ ዝገበርዎም ስብስባት ካርድ",
+  "share.browseLanding": "ካልኦት ተማሃሮ ዘካፈልዎም ስብስባት ርአ",
+  "share.browseEmpty": "ህዝባዊ ስብስብ ኣይተረኽበን",
+  "share.browseFailed": "ዝተኻፈሉ ስብስባት ምጽዓን ኣይተኻእለን",
+  "share.search": "ድለ",
+  "share.searchPlaceholder": "ብኣርእስቲ ድለ",
+};
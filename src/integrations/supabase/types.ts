@@ -14,32 +14,107 @@ export type Database = {
   }
   public: {
     Tables: {
+      card_reviews: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          flashcard_id: string
+          id: string
+          interval_days: number
+          lapses: number
+          last_grade: string | null
+          last_reviewed_at: string | null
+          repetitions: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          flashcard_id: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          flashcard_id?: string
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_grade?: string | null
+          last_reviewed_at?: string | null
+          repetitions?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "card_reviews_flashcard_id_fkey"
+            columns: ["flashcard_id"]
+            isOneToOne: false
+            referencedRelation: "flashcards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       flashcard_sets: {
         Row: {
           created_at: string
           description: string | null
           id: string
+          language: string
+          share_token: string
+          source_author: string | null
+          source_set_id: string | null
           title: string
           upload_id: string | null
           user_id: string
+          visibility: string
         }
         Insert: {
           created_at?: string
           description?: string | null
           id?: string
+          language?: string
+          share_token?: string
+          source_author?: string | null
+          source_set_id?: string | null
           title: string
           upload_id?: string | null
           user_id: string
+          visibility: string
         }
         Update: {
           created_at?: string
           description?: string | null
           id?: string
+          language?: string
+          share_token?: string
+          source_author?: string | null
+          source_set_id?: string | null
           title?: string
           upload_id?: string | null
           user_id?: string
+          visibility?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "flashcard_sets_source_set_id_fkey"
+            columns: ["source_set_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_sets"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "flashcard_sets_upload_id_fkey"
             columns: ["upload_id"]
@@ -57,6 +132,7 @@ export type Database = {
           order_index: number
           question: string
           set_id: string
+          slide_number: number | null
         }
         Insert: {
           answer: string
@@ -65,6 +141,7 @@ export type Database = {
           order_index?: number
           question: string
           set_id: string
+          slide_number?: number | null
         }
         Update: {
           answer?: string
@@ -73,6 +150,7 @@ export type Database = {
           order_index?: number
           question?: string
           set_id?: string
+          slide_number?: number | null
         }
         Relationships: [
           {
@@ -84,44 +162,261 @@ export type Database = {
           },
         ]
       }
+      notifications: {
+        Row: {
+          created_at: string
+          data: Json
+          email_attempts: number
+          email_error: string | null
+          email_locked_at: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          email_attempts?: number
+          email_error?: string | null
+          email_locked_at?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          email_attempts?: number
+          email_error?: string | null
+          email_locked_at?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          paid_at: string | null
+          plan_id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+          tx_ref: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          paid_at?: string | null
+          plan_id: string
+          provider?: string
+          provider_reference?: string | null
+          status?: string
+          tx_ref: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          paid_at?: string | null
+          plan_id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: string
+          tx_ref?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "premium_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      premium_plans: {
+        Row: {
+          code: string
+          created_at: string
+          duration_days: number
+          id: string
+          is_active: boolean
+          name: string
+          price_etb: number
+          sort_order: number
+          updated_at: string
+          upload_limit: number | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          duration_days: number
+          id?: string
+          is_active?: boolean
+          name: string
+          price_etb: number
+          sort_order?: number
+          updated_at?: string
+          upload_limit?: number | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          duration_days?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          price_etb?: number
+          sort_order?: number
+          updated_at?: string
+          upload_limit?: number | null
+        }
+        Relationships: []
+      }
       premium_requests: {
         Row: {
           admin_notes: string | null
+          amount_etb: number | null
           created_at: string
           email: string
           id: string
+          payer_name: string | null
+          plan_id: string | null
+          rejection_reason: string | null
+          resubmission_of: string | null
           reviewed_at: string | null
           reviewed_by: string | null
+          screenshot_hash: string | null
           screenshot_url: string
           status: string
+          transaction_reference: string | null
           user_id: string
           username: string
         }
         Insert: {
           admin_notes?: string | null
+          amount_etb?: number | null
           created_at?: string
           email: string
           id?: string
+          payer_name?: string | null
+          plan_id?: string | null
+          rejection_reason?: string | null
+          resubmission_of?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
+          screenshot_hash?: string | null
           screenshot_url: string
           status?: string
+          transaction_reference?: string | null
           user_id: string
           username: string
         }
         Update: {
           admin_notes?: string | null
+          amount_etb?: number | null
           created_at?: string
           email?: string
           id?: string
+          payer_name?: string | null
+          plan_id?: string | null
+          rejection_reason?: string | null
+          resubmission_of?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
+          screenshot_hash?: string | null
           screenshot_url?: string
           status?: string
+          transaction_reference?: string | null
           user_id?: string
           username?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "premium_requests_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "premium_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "premium_requests_resubmission_of_fkey"
+            columns: ["resubmission_of"]
+            isOneToOne: false
+            referencedRelation: "premium_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          run_after: string
+          status: string
+          updated_at: string
+          upload_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          run_after?: string
+          status?: string
+          updated_at?: string
+          upload_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          run_after?: string
+          status?: string
+          updated_at?: string
+          upload_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_upload_id_fkey"
+            columns: ["upload_id"]
+            isOneToOne: false
+            referencedRelation: "uploads"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -129,7 +424,9 @@ export type Database = {
           email: string
           id: string
           is_premium: boolean | null
+          language: string
           premium_expires_at: string | null
+          premium_plan_id: string | null
           updated_at: string
           username: string
         }
@@ -138,7 +435,9 @@ export type Database = {
           email: string
           id: string
           is_premium?: boolean | null
+          language?: string
           premium_expires_at?: string | null
+          premium_plan_id?: string | null
           updated_at?: string
           username: string
         }
@@ -147,11 +446,107 @@ export type Database = {
           email?: string
           id?: string
           is_premium?: boolean | null
+          language?: string
           premium_expires_at?: string | null
+          premium_plan_id?: string | null
           updated_at?: string
           username?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_premium_plan_id_fkey"
+            columns: ["premium_plan_id"]
+            isOneToOne: false
+            referencedRelation: "premium_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_attempts: {
+        Row: {
+          answers: Json
+          created_at: string
+          duration_seconds: number
+          id: string
+          questions: Json
+          quiz_id: string | null
+          score: number
+          set_id: string
+          started_at: string
+          total_questions: number
+          user_id: string
+        }
+        Insert: {
+          answers?: Json
+          created_at?: string
+          duration_seconds: number
+          id?: string
+          questions?: Json
+          quiz_id?: string | null
+          score: number
+          set_id: string
+          started_at: string
+          total_questions: number
+          user_id: string
+        }
+        Update: {
+          answers?: Json
+          created_at?: string
+          duration_seconds?: number
+          id?: string
+          questions?: Json
+          quiz_id?: string | null
+          score?: number
+          set_id?: string
+          started_at?: string
+          total_questions?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_attempts_quiz_id_fkey"
+            columns: ["quiz_id"]
+            isOneToOne: false
+            referencedRelation: "quizzes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quiz_attempts_set_id_fkey"
+            columns: ["set_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_sets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quiz_generations: {
+        Row: {
+          created_at: string
+          id: string
+          set_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          set_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          set_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quiz_generations_set_id_fkey"
+            columns: ["set_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_sets"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       quizzes: {
         Row: {
@@ -185,29 +580,41 @@ export type Database = {
       uploads: {
         Row: {
           created_at: string
+          extracted_text: string | null
           file_name: string
           file_type: string
           file_url: string
           id: string
+          output_language: string
+          processing_error: string | null
           processing_status: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          extracted_text?: string | null
           file_name: string
           file_type: string
           file_url: string
           id?: string
+          output_language?: string
+          processing_error?: string | null
           processing_status?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          extracted_text?: string | null
           file_name?: string
           file_type?: string
           file_url?: string
           id?: string
+          output_language?: string
+          processing_error?: string | null
           processing_status?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -238,6 +645,123 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      admin_grant_premium: {
+        Args: {
+          _plan_id?: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      approve_premium_request: {
+        Args: {
+          _request_id: string
+        }
+        Returns: string
+      }
+      can_upload: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      claim_notification_emails: {
+        Args: {
+          _limit?: number
+        }
+        Returns: {
+          created_at: string
+          data: Json
+          email_attempts: number
+          email_error: string | null
+          email_locked_at: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }[]
+      }
+      claim_processing_job: {
+        Args: {
+          _upload_id?: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          run_after: string
+          status: string
+          updated_at: string
+          upload_id: string
+        }[]
+      }
+      claim_quiz_generation: {
+        Args: {
+          _set_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      clone_shared_set: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      complete_payment: {
+        Args: {
+          _provider_reference: string
+          _tx_ref: string
+        }
+        Returns: boolean
+      }
+      expire_premium_subscriptions: {
+        Args: never
+        Returns: number
+      }
+      fail_stale_uploads: {
+        Args: {
+          _job_timeout?: unknown
+          _upload_timeout?: unknown
+        }
+        Returns: number
+      }
+      free_upload_limit: {
+        Args: never
+        Returns: number
+      }
+      get_shared_set: {
+        Args: {
+          _token: string
+        }
+        Returns: Json
+      }
+      get_upload_quota: {
+        Args: never
+        Returns: {
+          is_premium: boolean
+          remaining: number | null
+          upload_limit: number | null
+          used: number
+        }[]
+      }
+      grant_premium: {
+        Args: {
+          _plan_id: string
+          _user_id: string
+        }
+        Returns: string
+      }
+      has_premium: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -245,6 +769,80 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_flashcard_set: {
+        Args: {
+          _cards: Json
+          _description: string
+          _language: string
+          _title: string
+        }
+        Returns: string
+      }
+      list_public_sets: {
+        Args: {
+          _limit?: number
+          _search?: string
+        }
+        Returns: {
+          author: string
+          card_count: number
+          created_at: string
+          description: string
+          language: string
+          share_token: string
+          title: string
+        }[]
+      }
+      mark_notifications_read: {
+        Args: {
+          _ids?: string[]
+        }
+        Returns: undefined
+      }
+      notify: {
+        Args: {
+          _data?: Json
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      notify_cards_due: {
+        Args: never
+        Returns: number
+      }
+      premium_period: {
+        Args: never
+        Returns: unknown
+      }
+      quiz_generation_limit: {
+        Args: {
+          _user_id: string
+        }
+        Returns: number
+      }
+      retry_upload: {
+        Args: {
+          _upload_id: string
+        }
+        Returns: undefined
+      }
+      rotate_share_token: {
+        Args: {
+          _set_id: string
+        }
+        Returns: string
+      }
+      upload_quota: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          remaining: number | null
+          upload_limit: number | null
+          used: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user" | "premium"
@@ -0,0 +1,196 @@
+import type { SqlJsStatic } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm-browser.wasm?url";
+import { zipSync, strToU8 } from "fflate";
+
+export interface AnkiCard {
+  // Becomes the note's guid, so importing an updated export again updates
+  // the existing notes instead of duplicating them
+  id: string;
+  question: string;
+  answer: string;
+}
+
+export interface AnkiDeck {
+  name: string;
+  description?: string;
+  tags: string[];
+  // In study order
+  cards: AnkiCard[];
+}
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// SQLite compiled to WebAssembly; only fetched when a package is built or read
+export const loadSqlJs = () => {
+  sqlJs ??= import("sql.js").then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }));
+  return sqlJs;
+};
+
+// Anki's 2.1 collection schema (version 11), which every Anki release imports
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null,
+  left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+// Anki separates a note's fields with the unit separator
+export const FIELD_SEPARATOR = "\x1f";
+
+// Fields are HTML
+const toHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>");
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+async function checksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return parseInt(hex, 16);
+}
+
+const deckOptions = {
+  1: {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+  },
+};
+
+const deckEntry = (id: number, name: string, description: string, mod: number) => ({
+  id,
+  name,
+  desc: description,
+  mod,
+  usn: -1,
+  conf: 1,
+  dyn: 0,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 0,
+  extendRev: 0,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+});
+
+const noteModel = (id: number, deckId: number, mod: number) => ({
+  id,
+  name: "Ethiocard (Question/Answer)",
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [
+    {
+      name: "Card 1",
+      ord: 0,
+      qfmt: "{{Question}}",
+      afmt: "{{FrontSide}}<hr id=answer>{{Answer}}",
+      did: null,
+      bqfmt: "",
+      bafmt: "",
+    },
+  ],
+  flds: ["Question", "Answer"].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: "Noto Sans Ethiopic",
+    size: 20,
+    media: [],
+  })),
+  css: ".card { font-family: 'Noto Sans Ethiopic', sans-serif; font-size: 20px; text-align: center; }",
+  latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\begin{document}\n",
+  latexPost: "\\end{document}",
+  req: [[0, "any", [0]]],
+  tags: [],
+  vers: [],
+});
+
+// Build an .apkg package: a zip holding the collection database and an
+// empty media list. New cards keep the deck's order, so Anki introduces them
+// in the same sequence as the app.
+export async function buildApkg(deck: AnkiDeck): Promise<Blob> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    const deckId = nowMs;
+    const modelId = nowMs + 1;
+    const tags = deck.tags.length > 0 ? ` ${deck.tags.join(" ")} ` : "";
+
+    db.run(SCHEMA);
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      now,
+      nowMs,
+      nowMs,
+      JSON.stringify({ nextPos: deck.cards.length + 1, curDeck: deckId, activeDecks: [deckId], curModel: modelId }),
+      JSON.stringify({ [modelId]: noteModel(modelId, deckId, now) }),
+      JSON.stringify({
+        1: deckEntry(1, "Default", "", now),
+        [deckId]: deckEntry(deckId, deck.name, deck.description ?? "", now),
+      }),
+      JSON.stringify(deckOptions),
+    ]);
+
+    const insertNote = db.prepare("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')");
+    const insertCard = db.prepare("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')");
+
+    for (const [index, card] of deck.cards.entries()) {
+      const noteId = nowMs + index;
+      insertNote.run([
+        noteId,
+        card.id,
+        modelId,
+        now,
+        tags,
+        [toHtml(card.question), toHtml(card.answer)].join(FIELD_SEPARATOR),
+        card.question,
+        await checksum(card.question),
+      ]);
+      // New cards are shown in order of `due`
+      insertCard.run([noteId, noteId, deckId, now, index + 1]);
+    }
+
+    insertNote.free();
+    insertCard.free();
+
+    const zip = zipSync({
+      "collection.anki2": db.export(),
+      media: strToU8("{}"),
+    });
+    return new Blob([zip], { type: "application/octet-stream" });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+import { buildApkg } from "@/lib/anki";
+
+export type ExportFormat = "csv" | "tsv" | "apkg";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "tsv", "apkg"];
+
+interface ExportSet {
+  id: string;
+  title: string;
+  description: string | null;
+  language: string;
+  cards: { id: string; question: string; answer: string }[];
+}
+
+async function fetchSetForExport(setId: string): Promise<ExportSet> {
+  const { data: set, error: setError } = await supabase
+    .from("flashcard_sets")
+    .select("id, title, description, language")
+    .eq("id", setId)
+    .single();
+  if (setError) throw setError;
+
+  const { data: cards, error: cardsError } = await supabase
+    .from("flashcards")
+    .select("id, question, answer")
+    .eq("set_id", setId)
+    .order("order_index", { ascending: true });
+  if (cardsError) throw cardsError;
+
+  return {
+    ...set,
+    title: decodeURIComponent(set.title.replace(/\+/g, " ")),
+    cards: cards || [],
+  };
+}
+
+// Anki and most spreadsheet tools split tags on spaces
+const tagsFor = (set: ExportSet) => [
+  "ethiocard",
+  set.title.trim().replace(/\s+/g, "_"),
+  `lang::${set.language}`,
+];
+
+// RFC 4180: quote fields containing the delimiter, quotes or line breaks
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+function toCsv(set: ExportSet): string {
+  const tags = tagsFor(set).join(" ");
+  const rows = [
+    ["question", "answer", "tags"],
+    ...set.cards.map((card) => [card.question, card.answer, tags]),
+  ];
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Tabs and line breaks can't appear inside a TSV field; line breaks become
+// <br>, which Anki reads back as HTML. The header lines tell Anki how to
+// import the file.
+function toTsv(set: ExportSet): string {
+  const clean = (value: string) => value.replace(/\t/g, " ").replace(/\r?\n/g, "<br>");
+  const tags = tagsFor(set).join(" ");
+  const lines = [
+    "#separator:tab",
+    "#html:true",
+    "#columns:Question\tAnswer\tTags",
+    "#tags column:3",
+    ...set.cards.map((card) => [clean(card.question), clean(card.answer), tags].join("\t")),
+  ];
+  return lines.join("\n") + "\n";
+}
+
+const fileName = (title: string, format: ExportFormat) =>
+  `${title.trim().replace(/[\\/:*?"<>|]+/g, "").replace(/\s+/g, "-") || "flashcards"}.${format}`;
+
+function download(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Give the browser a moment to start the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Export a set in study order and hand it to the browser as a download
+export async function exportSet(setId: string, format: ExportFormat) {
+  const set = await fetchSetForExport(setId);
+
+  let blob: Blob;
+  if (format === "apkg") {
+    blob = await buildApkg({
+      name: set.title,
+      description: set.description ?? undefined,
+      tags: tagsFor(set),
+      cards: set.cards,
+    });
+  } else {
+    // The byte order mark makes Excel read the CSV as UTF-8, so Ge'ez
+    // script survives; Anki reads the TSV as UTF-8 anyway
+    blob =
+      format === "csv"
+        ? new Blob(["\uFEFF", toCsv(set)], { type: "text/csv" })
+        : new Blob([toTsv(set)], { type: "text/tab-separated-values" });
+  }
+
+  download(blob, fileName(set.title, format));
+}
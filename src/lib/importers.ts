@@ -0,0 +1,258 @@
+import { unzipSync } from "fflate";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { MessageKey } from "@/i18n";
+import { FIELD_SEPARATOR, loadSqlJs } from "@/lib/anki";
+
+// Mirrors the limit in import_flashcard_set
+export const MAX_IMPORT_CARDS = 2000;
+export const MAX_FIELD_LENGTH = 5000;
+
+// Cells read from a file or paste, before the student says which columns
+// hold the question and the answer
+export interface ImportTable {
+  rows: string[][];
+  // Column names the source defines itself, such as Anki's field names
+  columns?: string[];
+  // Set when an Anki deck mixes note types, whose fields needn't line up
+  noteTypes?: number;
+  // Whether the first row is likely column headings rather than a card
+  hasHeader?: boolean;
+  // Suggested title for the new set
+  title?: string;
+}
+
+// Thrown for files we can't read; messageKey says why
+export class ImportError extends Error {
+  constructor(readonly messageKey: MessageKey) {
+    super(messageKey);
+    this.name = "ImportError";
+  }
+}
+
+const titleFromFileName = (name: string) => name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+
+// Anki stores fields as HTML
+function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/\[sound:[^\]]*\]/g, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n");
+  const doc = new DOMParser().parseFromString(withBreaks, "text/html");
+  return (doc.body.textContent ?? "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// RFC 4180: a quoted field may contain the delimiter, line breaks and
+// doubled quotes
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// Anki and Quizlet use tabs; spreadsheets use commas, or semicolons where
+// the decimal separator is a comma
+function detectDelimiter(line: string): string {
+  const counts = ["\t", ";", ","].map((delimiter) => [delimiter, line.split(delimiter).length] as const);
+  return counts.reduce((best, current) => (current[1] > best[1] ? current : best))[0];
+}
+
+const HEADER_NAMES = ["question", "answer", "front", "back", "term", "definition"];
+
+async function readDelimitedFile(file: File): Promise<ImportTable> {
+  const lines = (await file.text()).replace(/^\uFEFF/, "").split(/\r?\n/);
+
+  // Text exported from Anki starts with "#key:value" settings lines
+  let html = false;
+  let delimiter: string | null = file.name.toLowerCase().endsWith(".tsv") ? "\t" : null;
+  while (lines.length > 0 && /^#[\w ]+:/.test(lines[0])) {
+    const [key, value] = lines.shift()!.slice(1).split(":");
+    if (key === "html") html = value.trim() === "true";
+    if (key === "separator") delimiter = { tab: "\t", comma: ",", semicolon: ";", pipe: "|" }[value.trim()] ?? delimiter;
+  }
+
+  const text = lines.join("\n");
+  const rows = parseDelimited(text, delimiter ?? detectDelimiter(lines[0] ?? ""));
+  const firstCell = rows[0]?.[0]?.trim().toLowerCase() ?? "";
+
+  return {
+    rows: html ? rows.map((row) => row.map(htmlToText)) : rows,
+    hasHeader: HEADER_NAMES.includes(firstCell),
+    title: titleFromFileName(file.name),
+  };
+}
+
+// Reads the notes of an Anki package. Anki 2.1.50+ compresses the
+// collection in a format we can't read unless the deck was exported with
+// "Support older Anki versions" ticked.
+async function readApkg(file: File): Promise<ImportTable> {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: (entry) => entry.name.startsWith("collection."),
+    });
+  } catch {
+    throw new ImportError("import.error.unreadable");
+  }
+
+  const collection =
+    entries["collection.anki21"] ?? (entries["collection.anki21b"] ? undefined : entries["collection.anki2"]);
+  if (!collection) {
+    throw new ImportError(entries["collection.anki21b"] ? "import.error.newAnkiFormat" : "import.error.unreadable");
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+
+  try {
+    const [col] = db.exec("SELECT models, decks FROM col")[0]?.values ?? [];
+    const models = JSON.parse(String(col?.[0] ?? "{}"));
+    const decks = JSON.parse(String(col?.[1] ?? "{}"));
+    const notes = (db.exec("SELECT mid, flds FROM notes ORDER BY id")[0]?.values ?? []).map(
+      ([mid, fields]) => ({ mid: String(mid), fields: String(fields).split(FIELD_SEPARATOR) })
+    );
+    const deckId = db.exec("SELECT did FROM cards ORDER BY id LIMIT 1")[0]?.values[0]?.[0];
+    const deckName: string | undefined = deckId != null ? decks[String(deckId)]?.name : undefined;
+
+    // Each note type ("Basic", "Cloze", ...) names its own fields. A deck can
+    // mix them, so a column is labelled with every name used in that position,
+    // e.g. "Front / Text".
+    const noteTypes = [...new Set(notes.map((note) => note.mid))];
+    const columnNames: string[][] = [];
+    for (const mid of noteTypes) {
+      const fieldNames: string[] = (models[mid]?.flds ?? [])
+        .slice()
+        .sort((a: { ord: number }, b: { ord: number }) => a.ord - b.ord)
+        .map((field: { name: string }) => field.name);
+
+      fieldNames.forEach((name, index) => {
+        columnNames[index] ??= [];
+        if (!columnNames[index].includes(name)) columnNames[index].push(name);
+      });
+    }
+
+    return {
+      rows: notes.map((note) => note.fields.map(htmlToText)),
+      columns: columnNames.length > 0 ? columnNames.map((names) => names.join(" / ")) : undefined,
+      noteTypes: noteTypes.length > 1 ? noteTypes.length : undefined,
+      // Only the last part of a nested deck name, "Biology::Cells" → "Cells"
+      title: deckName && deckName !== "Default" ? deckName.split("::").pop() : titleFromFileName(file.name),
+    };
+  } catch {
+    throw new ImportError("import.error.unreadable");
+  } finally {
+    db.close();
+  }
+}
+
+export const isAnkiPackage = (file: File) => /\.(apkg|colpkg)$/i.test(file.name);
+
+export const readImportFile = (file: File) => (isAnkiPackage(file) ? readApkg(file) : readDelimitedFile(file));
+
+// Quizlet's "Export" box: term and definition separated by a tab (or a
+// comma), cards separated by new lines (or semicolons)
+export function parseQuizlet(text: string, termSeparator: string, cardSeparator: string): ImportTable {
+  const cards = cardSeparator === "\n" ? text.split(/\r?\n/) : text.split(cardSeparator);
+
+  return {
+    rows: cards
+      .filter((card) => card.trim() !== "")
+      .map((card) => {
+        const split = card.indexOf(termSeparator);
+        return split === -1 ? [card] : [card.slice(0, split), card.slice(split + termSeparator.length)];
+      }),
+  };
+}
+
+export interface ImportCard {
+  question: string;
+  answer: string;
+}
+
+// A row that won't become a card; `row` counts from 1 like a spreadsheet
+export interface RowIssue {
+  row: number;
+  messageKey: MessageKey;
+}
+
+export interface ImportMapping {
+  questionColumn: number;
+  answerColumn: number;
+  skipHeader: boolean;
+}
+
+// Turn the table into cards using the chosen columns, with a reason for
+// every row that can't be imported
+export function mapRows(table: ImportTable, mapping: ImportMapping): { cards: ImportCard[]; issues: RowIssue[] } {
+  const cards: ImportCard[] = [];
+  const issues: RowIssue[] = [];
+
+  table.rows.forEach((cells, index) => {
+    if (mapping.skipHeader && index === 0) return;
+
+    const row = index + 1;
+    const question = cells[mapping.questionColumn]?.trim() ?? "";
+    const answer = cells[mapping.answerColumn]?.trim() ?? "";
+
+    if (!question) {
+      issues.push({ row, messageKey: "import.error.noQuestion" });
+    } else if (!answer) {
+      issues.push({ row, messageKey: "import.error.noAnswer" });
+    } else if (question.length > MAX_FIELD_LENGTH || answer.length > MAX_FIELD_LENGTH) {
+      issues.push({ row, messageKey: "import.error.tooLong" });
+    } else {
+      cards.push({ question, answer });
+    }
+  });
+
+  return { cards, issues };
+}
+
+// Create the set with its cards in one go. Imports don't count against the
+// AI upload quota.
+export async function importSet(set: {
+  title: string;
+  description: string;
+  language: string;
+  cards: ImportCard[];
+}): Promise<string> {
+  const { data, error } = await supabase.rpc("import_flashcard_set", {
+    _title: set.title,
+    _description: set.description,
+    _language: set.language,
+    _cards: set.cards as unknown as Json,
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,22 @@
+import { LANGUAGES, type Language, type MessageKey } from "@/i18n";
+
+// Languages flashcards can be generated in: any interface language, or English
+// with an Amharic translation. Mirrors supabase/functions/_shared/language.ts.
+export type ContentLanguage = Language | "bilingual";
+
+export const CONTENT_LANGUAGES: ContentLanguage[] = ["en", "am", "om", "ti", "bilingual"];
+
+export const isContentLanguage = (value: unknown): value is ContentLanguage =>
+  typeof value === "string" && (CONTENT_LANGUAGES as string[]).includes(value);
+
+// Single languages use their own name so they are recognisable whatever the
+// interface language; only the bilingual mode needs translating.
+export function contentLanguageName(language: ContentLanguage, t: (key: MessageKey) => string) {
+  if (language === "bilingual") return t("language.bilingual");
+  return LANGUAGES.find((entry) => entry.code === language)?.name ?? language;
+}
+
+// `lang` attribute for elements showing study material, so screen readers and
+// the Ge'ez font rules apply. Bilingual content mixes two languages.
+export const contentLang = (language: ContentLanguage) =>
+  language === "bilingual" ? undefined : language;
@@ -0,0 +1,110 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageKey, MessageParams } from "@/i18n";
+import { REJECTION_REASONS, isRejectionReason } from "@/lib/premium";
+
+// Mirrors the type check on public.notifications
+export type NotificationType =
+  | "premium_approved"
+  | "premium_rejected"
+  | "payment_received"
+  | "premium_expiring"
+  | "premium_expired"
+  | "upload_completed"
+  | "upload_failed"
+  | "cards_due";
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  data: Record<string, string | number | undefined>;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Texts and the page each kind of notification opens
+const NOTIFICATIONS: Record<NotificationType, { title: MessageKey; body: MessageKey; path: string }> = {
+  premium_approved: {
+    title: "notifications.premiumApproved",
+    body: "notifications.premiumApprovedBody",
+    path: "/dashboard",
+  },
+  premium_rejected: {
+    title: "notifications.premiumRejected",
+    body: "notifications.premiumRejectedBody",
+    path: "/premium",
+  },
+  payment_received: {
+    title: "notifications.paymentReceived",
+    body: "notifications.paymentReceivedBody",
+    path: "/dashboard",
+  },
+  premium_expiring: {
+    title: "notifications.premiumExpiring",
+    body: "notifications.premiumExpiringBody",
+    path: "/premium",
+  },
+  premium_expired: {
+    title: "notifications.premiumExpired",
+    body: "notifications.premiumExpiredBody",
+    path: "/premium",
+  },
+  upload_completed: {
+    title: "notifications.uploadCompleted",
+    body: "notifications.uploadCompletedBody",
+    path: "/dashboard",
+  },
+  upload_failed: {
+    title: "notifications.uploadFailed",
+    body: "notifications.uploadFailedBody",
+    path: "/dashboard",
+  },
+  cards_due: {
+    title: "notifications.cardsDue",
+    body: "notifications.cardsDueBody",
+    path: "/memory",
+  },
+};
+
+// Title, text and link for a notification in the interface language. The
+// database only stores the event and its details.
+export function describeNotification(
+  notification: AppNotification,
+  t: (key: MessageKey, params?: MessageParams) => string,
+  language: string
+) {
+  const { data } = notification;
+  const entry = NOTIFICATIONS[notification.type];
+  const date = data.expires_at ?? data.expired_at;
+
+  const body =
+    notification.type === "premium_rejected" && isRejectionReason(data.rejection_reason)
+      ? t(REJECTION_REASONS[data.rejection_reason])
+      : t(entry.body, {
+          file: data.file_name ?? "",
+          amount: data.amount ?? "",
+          count: data.count ?? "",
+          date: date ? new Date(date).toLocaleDateString(language) : "",
+        });
+
+  // A finished upload opens its new set
+  const path = data.set_id ? `/study/${data.set_id}` : entry.path;
+
+  return { title: t(entry.title), body, path };
+}
+
+export async function fetchNotifications(limit = 20): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, type, data, read_at, created_at")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as AppNotification[];
+}
+
+// Marks the given notifications as read, or all of them
+export async function markNotificationsRead(ids?: string[]) {
+  const { error } = await supabase.rpc("mark_notifications_read", ids ? { _ids: ids } : {});
+  if (error) throw error;
+}
@@ -0,0 +1,176 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageKey } from "@/i18n";
+
+export interface PremiumProfile {
+  is_premium: boolean | null;
+  premium_expires_at: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Mirrors public.has_premium: premium lapses at premium_expires_at, and no
+// expiry date means it never lapses. The hourly expiry job may not have
+// cleared is_premium yet, so the date is what counts.
+export function hasActivePremium(profile: PremiumProfile | null | undefined): boolean {
+  if (!profile?.is_premium) return false;
+  return !profile.premium_expires_at || new Date(profile.premium_expires_at).getTime() > Date.now();
+}
+
+// Whole days left before the subscription lapses, rounded up
+export const daysUntil = (date: string) =>
+  Math.max(0, Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS));
+
+export interface PremiumPlan {
+  id: string;
+  code: string;
+  name: string;
+  price_etb: number;
+  duration_days: number;
+  // null means unlimited uploads
+  upload_limit: number | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+// The built-in plans have translated names; any plan added later shows the
+// name stored with it
+const PLAN_NAME_KEYS: Record<string, MessageKey> = {
+  monthly: "premium.plan.monthly",
+  semester: "premium.plan.semester",
+  yearly: "premium.plan.yearly",
+};
+
+export const planName = (plan: Pick<PremiumPlan, "code" | "name">, t: (key: MessageKey) => string) =>
+  PLAN_NAME_KEYS[plan.code] ? t(PLAN_NAME_KEYS[plan.code]) : plan.name;
+
+// Active plans only, unless the caller is an admin managing them
+export async function fetchPremiumPlans(includeInactive = false): Promise<PremiumPlan[]> {
+  let query = supabase.from("premium_plans").select("*").order("sort_order", { ascending: true });
+  if (!includeInactive) query = query.eq("is_active", true);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Mirrors the rejection_reason check on premium_requests
+export type RejectionReason =
+  | "amount_mismatch"
+  | "reference_not_found"
+  | "unreadable_screenshot"
+  | "duplicate_receipt"
+  | "other";
+
+export const REJECTION_REASONS: Record<RejectionReason, MessageKey> = {
+  amount_mismatch: "premium.rejection.amountMismatch",
+  reference_not_found: "premium.rejection.referenceNotFound",
+  unreadable_screenshot: "premium.rejection.unreadableScreenshot",
+  duplicate_receipt: "premium.rejection.duplicateReceipt",
+  other: "premium.rejection.other",
+};
+
+export const isRejectionReason = (value: unknown): value is RejectionReason =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(REJECTION_REASONS, value);
+
+export type PaymentStatus = "pending" | "succeeded" | "failed";
+
+// Start an online payment for a plan and return the provider's checkout page
+export async function startCheckout(planId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("create-checkout", {
+    body: { planId },
+  });
+  if (error) throw error;
+  return data.checkoutUrl;
+}
+
+// Status of an online payment, or null if it isn't one of the user's
+export async function fetchPaymentStatus(txRef: string): Promise<PaymentStatus | null> {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("status")
+    .eq("tx_ref", txRef)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.status as PaymentStatus | undefined) ?? null;
+}
+
+// Bank references are typed by hand; compare them without case or spacing
+export const normalizeReference = (reference: string) =>
+  reference.replace(/\s+/g, "").toUpperCase();
+
+export interface PaymentProofSubmission {
+  screenshotPath: string;
+  planId: string;
+  email: string;
+  username: string;
+  transactionReference: string;
+  amount: number;
+  payerName: string;
+  resubmissionOf: string | null;
+}
+
+// A submission the server turned down for a reason the payer can fix
+export class PaymentProofError extends Error {
+  constructor(readonly messageKey: MessageKey) {
+    super(messageKey);
+    this.name = "PaymentProofError";
+  }
+}
+
+// File a bank-transfer proof for review. The screenshot must already be in
+// the payment-screenshots bucket; the server hashes it and checks the
+// reference hasn't been used before.
+export async function submitPaymentProof(proof: PaymentProofSubmission): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("submit-premium-request", {
+    body: proof,
+  });
+  if (error instanceof FunctionsHttpError && error.context?.status === 409) {
+    throw new PaymentProofError("premium.duplicateReference");
+  }
+  if (error) throw error;
+  return data.requestId;
+}
+
+export interface PaymentProof {
+  id: string;
+  transaction_reference: string | null;
+  screenshot_hash: string | null;
+}
+
+export interface DuplicateProofs<T> {
+  sameReference: T[];
+  sameScreenshot: T[];
+}
+
+// For each request, the other requests that reuse its transaction reference
+// or screenshot. Requests with no duplicates are left out.
+export function findDuplicateProofs<T extends PaymentProof>(requests: T[]) {
+  const byReference = new Map<string, T[]>();
+  const byHash = new Map<string, T[]>();
+
+  const group = (index: Map<string, T[]>, key: string | null, request: T) => {
+    if (!key) return;
+    index.set(key, [...(index.get(key) ?? []), request]);
+  };
+
+  for (const request of requests) {
+    group(byReference, request.transaction_reference, request);
+    group(byHash, request.screenshot_hash, request);
+  }
+
+  const duplicates = new Map<string, DuplicateProofs<T>>();
+  for (const request of requests) {
+    const others = (index: Map<string, T[]>, key: string | null) =>
+      key ? (index.get(key) ?? []).filter((other) => other.id !== request.id) : [];
+
+    const sameReference = others(byReference, request.transaction_reference);
+    const sameScreenshot = others(byHash, request.screenshot_hash);
+    if (sameReference.length > 0 || sameScreenshot.length > 0) {
+      duplicates.set(request.id, { sameReference, sameScreenshot });
+    }
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,307 @@
+import type { MessageKey, MessageParams } from "@/i18n";
+
+type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export type QuestionType = "mcq" | "true_false" | "cloze" | "short_answer" | "matching";
+
+interface BaseQuestion {
+  question: string;
+  explanation?: string;
+}
+
+export interface McqQuestion extends BaseQuestion {
+  type: "mcq";
+  options: string[];
+  correctAnswer: number;
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  type: "true_false";
+  answer: boolean;
+}
+
+// `question` contains a single blank written as CLOZE_BLANK
+export interface ClozeQuestion extends BaseQuestion {
+  type: "cloze";
+  answer: string;
+}
+
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: "short_answer";
+  answer: string;
+  acceptedAnswers?: string[];
+}
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+  type: "matching";
+  pairs: MatchingPair[];
+}
+
+export type QuizQuestion =
+  | McqQuestion
+  | TrueFalseQuestion
+  | ClozeQuestion
+  | ShortAnswerQuestion
+  | MatchingQuestion;
+
+// What the student submitted, shaped by question type: the chosen option
+// index, true/false, typed text, or for matching the index of the right-hand
+// item picked for each left-hand item (in `pairs` order).
+export type QuizResponse = number | boolean | string | number[];
+
+export interface SourceCard {
+  question: string;
+  answer: string;
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, MessageKey> = {
+  mcq: "quiz.type.mcq",
+  true_false: "quiz.type.trueFalse",
+  cloze: "quiz.type.cloze",
+  short_answer: "quiz.type.shortAnswer",
+  matching: "quiz.type.matching",
+};
+
+export const CLOZE_BLANK = "_____";
+export const MAX_QUIZ_QUESTIONS = 10;
+export const MATCHING_PAIRS = 4;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Validate a question loaded from storage. Questions saved before typed
+// questions existed have no `type` and are read as multiple choice.
+export function normalizeQuestion(value: unknown): QuizQuestion | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (!isNonEmptyString(raw.question)) return null;
+
+  const base = {
+    question: raw.question,
+    explanation: isNonEmptyString(raw.explanation) ? raw.explanation : undefined,
+  };
+
+  switch (raw.type ?? "mcq") {
+    case "mcq": {
+      const options = raw.options;
+      const correctAnswer = raw.correctAnswer;
+      if (
+        !Array.isArray(options) ||
+        options.length < 2 ||
+        !options.every(isNonEmptyString) ||
+        !Number.isInteger(correctAnswer) ||
+        (correctAnswer as number) < 0 ||
+        (correctAnswer as number) >= options.length
+      ) {
+        return null;
+      }
+      return { ...base, type: "mcq", options, correctAnswer: correctAnswer as number };
+    }
+    case "true_false":
+      if (typeof raw.answer !== "boolean") return null;
+      return { ...base, type: "true_false", answer: raw.answer };
+    case "cloze":
+      if (!isNonEmptyString(raw.answer) || !raw.question.includes(CLOZE_BLANK)) return null;
+      return { ...base, type: "cloze", answer: raw.answer };
+    case "short_answer": {
+      if (!isNonEmptyString(raw.answer)) return null;
+      const accepted = Array.isArray(raw.acceptedAnswers)
+        ? raw.acceptedAnswers.filter(isNonEmptyString)
+        : [];
+      return { ...base, type: "short_answer", answer: raw.answer, acceptedAnswers: accepted };
+    }
+    case "matching": {
+      const pairs = Array.isArray(raw.pairs)
+        ? raw.pairs.filter(
+            (pair): pair is MatchingPair =>
+              !!pair && isNonEmptyString(pair.left) && isNonEmptyString(pair.right)
+          )
+        : [];
+      if (pairs.length < 2) return null;
+      return { ...base, type: "matching", pairs };
+    }
+    default:
+      return null;
+  }
+}
+
+// Every valid question in a stored `quizzes.questions` value
+export function parseQuestions(value: unknown): QuizQuestion[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(normalizeQuestion)
+    .filter((question): question is QuizQuestion => question !== null);
+}
+
+// Lowercase, drop punctuation and collapse whitespace. Unicode-aware so
+// Ge'ez script answers compare the same way as Latin ones.
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export function levenshtein(a: string, b: string): number {
+  const source = Array.from(a);
+  const target = Array.from(b);
+  let previous = Array.from({ length: target.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+// Typed answers tolerate small typos: roughly one edit per five characters,
+// and none at all for very short answers where one edit changes the word.
+export function isFuzzyMatch(input: string, expected: string): boolean {
+  const given = normalizeAnswer(input);
+  const wanted = normalizeAnswer(expected);
+  if (!given || !wanted) return false;
+  if (given === wanted) return true;
+
+  const length = Array.from(wanted).length;
+  const allowed = length < 4 ? 0 : Math.max(1, Math.floor(length / 5));
+  return levenshtein(given, wanted) <= allowed;
+}
+
+export function gradeResponse(question: QuizQuestion, response: QuizResponse): boolean {
+  switch (question.type) {
+    case "mcq":
+      return response === question.correctAnswer;
+    case "true_false":
+      return response === question.answer;
+    case "cloze":
+      return typeof response === "string" && isFuzzyMatch(response, question.answer);
+    case "short_answer":
+      return (
+        typeof response === "string" &&
+        [question.answer, ...(question.acceptedAnswers ?? [])].some((answer) =>
+          isFuzzyMatch(response, answer)
+        )
+      );
+    case "matching":
+      return (
+        Array.isArray(response) &&
+        response.length === question.pairs.length &&
+        response.every((choice, index) => choice === index)
+      );
+  }
+}
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const wordCount = (text: string) => text.trim().split(/\s+/).length;
+
+function buildMcq(card: SourceCard, cards: SourceCard[]): McqQuestion {
+  const otherAnswers = shuffle(
+    cards.filter((other) => other.answer !== card.answer).map((other) => other.answer)
+  ).slice(0, 3);
+  const options = shuffle([...otherAnswers, card.answer]);
+
+  return {
+    type: "mcq",
+    question: card.question,
+    options,
+    correctAnswer: options.indexOf(card.answer),
+  };
+}
+
+// Pair the question with either its own answer or another card's, half the time each
+function buildTrueFalse(card: SourceCard, cards: SourceCard[], t: Translate): TrueFalseQuestion {
+  const others = cards.filter((other) => other.answer !== card.answer);
+  const truthful = others.length === 0 || Math.random() < 0.5;
+  const shown = truthful ? card.answer : shuffle(others)[0].answer;
+
+  return {
+    type: "true_false",
+    question: `${card.question}\n${t("quiz.answerLabel")} ${shown}`,
+    answer: truthful,
+    explanation: truthful ? undefined : t("quiz.correctAnswerIs", { answer: card.answer }),
+  };
+}
+
+// Blank out the most distinctive (longest) word of the answer
+function buildCloze(card: SourceCard): ClozeQuestion | null {
+  const words = card.answer.split(/\s+/);
+  if (words.length < 3) return null;
+
+  const keyword = words
+    .map((word) => word.replace(/^[\p{P}]+|[\p{P}]+$/gu, ""))
+    .reduce((longest, word) => (Array.from(word).length > Array.from(longest).length ? word : longest), "");
+  if (Array.from(keyword).length < 4) return null;
+
+  return {
+    type: "cloze",
+    question: `${card.question}\n${card.answer.replace(keyword, CLOZE_BLANK)}`,
+    answer: keyword,
+  };
+}
+
+function buildShortAnswer(card: SourceCard): ShortAnswerQuestion | null {
+  if (wordCount(card.answer) > 4) return null;
+  return { type: "short_answer", question: card.question, answer: card.answer };
+}
+
+function buildMatching(cards: SourceCard[], t: Translate): MatchingQuestion {
+  return {
+    type: "matching",
+    question: t("quiz.matchingPrompt"),
+    pairs: cards.map((card) => ({ left: card.question, right: card.answer })),
+  };
+}
+
+const ROTATION: QuestionType[] = ["mcq", "true_false", "cloze", "short_answer", "mcq"];
+
+// Build a mixed quiz locally from a set's flashcards. Types rotate so every
+// quiz exercises recognition, judgement and recall; a card that does not suit
+// its turn (a long answer can't be typed from memory) falls back to MCQ. One
+// matching question is added when there are enough spare cards.
+export function buildMixedQuiz(
+  cards: SourceCard[],
+  t: Translate,
+  count = MAX_QUIZ_QUESTIONS
+): QuizQuestion[] {
+  const shuffled = shuffle(cards);
+  const useMatching = shuffled.length >= count + MATCHING_PAIRS;
+  const picked = shuffled.slice(0, useMatching ? count - 1 : Math.min(count, shuffled.length));
+
+  const questions: QuizQuestion[] = picked.map((card, index) => {
+    switch (ROTATION[index % ROTATION.length]) {
+      case "true_false":
+        return buildTrueFalse(card, cards, t);
+      case "cloze":
+        return buildCloze(card) ?? buildMcq(card, cards);
+      case "short_answer":
+        return buildShortAnswer(card) ?? buildMcq(card, cards);
+      default:
+        return buildMcq(card, cards);
+    }
+  });
+
+  if (useMatching) {
+    questions.push(buildMatching(shuffled.slice(picked.length, picked.length + MATCHING_PAIRS), t));
+  }
+
+  return shuffle(questions);
+}
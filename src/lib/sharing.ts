@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageKey } from "@/i18n";
+
+// Mirrors the visibility check on flashcard_sets
+export type Visibility = "private" | "unlisted" | "public";
+
+export const VISIBILITIES: Record<Visibility, { labelKey: MessageKey; descriptionKey: MessageKey }> = {
+  private: { labelKey: "share.private", descriptionKey: "share.privateBody" },
+  unlisted: { labelKey: "share.unlisted", descriptionKey: "share.unlistedBody" },
+  public: { labelKey: "share.public", descriptionKey: "share.publicBody" },
+};
+
+export const isVisibility = (value: unknown): value is Visibility =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(VISIBILITIES, value);
+
+export const shareUrl = (token: string) => `${window.location.origin}/shared/${token}`;
+
+export interface SharedCard {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+// What get_shared_set returns
+export interface SharedSet {
+  id: string;
+  title: string;
+  description: string | null;
+  language: string;
+  author: string | null;
+  is_owner: boolean;
+  created_at: string;
+  cards: SharedCard[];
+}
+
+export interface PublicSetSummary {
+  share_token: string;
+  title: string;
+  description: string | null;
+  language: string;
+  author: string | null;
+  card_count: number;
+  created_at: string;
+}
+
+// null when the link is wrong or the owner made the set private again
+export async function fetchSharedSet(token: string): Promise<SharedSet | null> {
+  const { data, error } = await supabase.rpc("get_shared_set", { _token: token });
+  if (error) throw error;
+  return data as unknown as SharedSet | null;
+}
+
+export async function listPublicSets(search?: string): Promise<PublicSetSummary[]> {
+  const { data, error } = await supabase.rpc("list_public_sets", search ? { _search: search } : {});
+  if (error) throw error;
+  return data ?? [];
+}
+
+// Copies the set into the signed-in user's library and returns the new id
+export async function cloneSharedSet(token: string): Promise<string> {
+  const { data, error } = await supabase.rpc("clone_shared_set", { _token: token });
+  if (error) throw error;
+  return data;
+}
+
+export async function updateVisibility(setId: string, visibility: Visibility) {
+  const { error } = await supabase.from("flashcard_sets").update({ visibility }).eq("id", setId);
+  if (error) throw error;
+}
+
+// A new token stops the old link from working
+export async function resetShareToken(setId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("rotate_share_token", { _set_id: setId });
+  if (error) throw error;
+  return data;
+}
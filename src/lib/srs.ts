@@ -0,0 +1,122 @@
+export type Grade = "again" | "hard" | "good" | "easy";
+
+export const GRADES: Grade[] = ["again", "hard", "good", "easy"];
+
+export interface ReviewState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
+
+// New cards introduced into Memory Mode per day
+export const NEW_CARDS_PER_DAY = 20;
+
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+// A forgotten card comes back later in the same session
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const initialReviewState = (now: Date = new Date()): ReviewState => ({
+  ease_factor: DEFAULT_EASE,
+  interval_days: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_at: now.toISOString(),
+});
+
+// SM-2 as popularised by Anki: "again" resets the card, "hard" grows the
+// interval slowly, "good" multiplies it by the ease factor and "easy" adds a
+// bonus. Ease drifts down on lapses/hard answers and up on easy ones.
+export function schedule(
+  state: ReviewState | null,
+  grade: Grade,
+  now: Date = new Date()
+): ReviewState {
+  const current = state ?? initialReviewState(now);
+  let { ease_factor, interval_days, repetitions } = current;
+  const { lapses } = current;
+
+  if (grade === "again") {
+    return {
+      ease_factor: Math.max(MIN_EASE, ease_factor - 0.2),
+      interval_days: 0,
+      repetitions: 0,
+      lapses: current.repetitions > 0 ? lapses + 1 : lapses,
+      due_at: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  if (repetitions === 0) {
+    interval_days = grade === "easy" ? 4 : 1;
+  } else if (repetitions === 1) {
+    interval_days = grade === "hard" ? 3 : grade === "good" ? 6 : 8;
+  } else if (grade === "hard") {
+    interval_days = Math.max(interval_days + 1, Math.round(interval_days * 1.2));
+  } else if (grade === "good") {
+    interval_days = Math.max(interval_days + 1, Math.round(interval_days * ease_factor));
+  } else {
+    interval_days = Math.max(interval_days + 1, Math.round(interval_days * ease_factor * 1.3));
+  }
+
+  if (grade === "hard") ease_factor = Math.max(MIN_EASE, ease_factor - 0.15);
+  if (grade === "easy") ease_factor += 0.15;
+  repetitions += 1;
+
+  return {
+    ease_factor,
+    interval_days,
+    repetitions,
+    lapses,
+    due_at: new Date(now.getTime() + interval_days * DAY_MS).toISOString(),
+  };
+}
+
+// Short human label for when a card would next be due, e.g. "10m", "6d", "2mo"
+export function formatInterval(state: ReviewState, now: Date = new Date()): string {
+  const minutes = Math.round((new Date(state.due_at).getTime() - now.getTime()) / 60000);
+  if (minutes < 60) return `${Math.max(minutes, 1)}m`;
+  const days = Math.round(minutes / (60 * 24));
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+export interface StoredReview extends ReviewState {
+  flashcard_id: string;
+  created_at: string;
+}
+
+// Today's Memory Mode queue: every review that has fallen due (most overdue
+// first), followed by as many unseen cards as the daily new-card allowance
+// still permits. `cards` should already be in study order.
+export function buildDueQueue<T extends { id: string }>(
+  cards: T[],
+  reviews: StoredReview[],
+  now: Date = new Date()
+): T[] {
+  const reviewsByCard = new Map(reviews.map((review) => [review.flashcard_id, review]));
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const due = cards
+    .filter((card) => {
+      const review = reviewsByCard.get(card.id);
+      return review && new Date(review.due_at) <= now;
+    })
+    .sort(
+      (a, b) =>
+        new Date(reviewsByCard.get(a.id)!.due_at).getTime() -
+        new Date(reviewsByCard.get(b.id)!.due_at).getTime()
+    );
+
+  const introducedToday = reviews.filter((review) => new Date(review.created_at) >= startOfDay).length;
+  const newCards = cards
+    .filter((card) => !reviewsByCard.has(card.id))
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+
+  return [...due, ...newCards];
+}
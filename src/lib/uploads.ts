@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { MessageKey } from "@/i18n";
+
+export type ProcessingStatus =
+  | "queued"
+  | "extracting"
+  | "generating"
+  | "completed"
+  | "failed";
+
+export interface UploadStatus {
+  id: string;
+  file_name: string;
+  processing_status: ProcessingStatus;
+  processing_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Label and progress-bar position for each processing stage
+export const PROCESSING_STAGES: Record<ProcessingStatus, { labelKey: MessageKey; progress: number }> = {
+  queued: { labelKey: "processing.queued", progress: 10 },
+  extracting: { labelKey: "processing.extracting", progress: 35 },
+  generating: { labelKey: "processing.generating", progress: 70 },
+  completed: { labelKey: "processing.completed", progress: 100 },
+  failed: { labelKey: "processing.failed", progress: 100 },
+};
+
+export const isProcessing = (status: ProcessingStatus) =>
+  status !== "completed" && status !== "failed";
+
+// Re-queue a failed upload and start processing it straight away. Owners can
+// retry their own uploads; admins can retry anyone's.
+export async function retryUpload(uploadId: string) {
+  const { error } = await supabase.rpc("retry_upload", { _upload_id: uploadId });
+  if (error) throw error;
+
+  const { error: processError } = await supabase.functions.invoke("process-upload", {
+    body: { uploadId },
+  });
+  if (processError) {
+    console.error("Failed to start processing:", processError);
+  }
+}
+
+export interface UploadQuota {
+  used: number;
+  // Both null when the plan has no upload limit
+  limit: number | null;
+  remaining: number | null;
+  isPremium: boolean;
+}
+
+// Message the database raises when an upload would go past the plan allowance
+export const QUOTA_EXCEEDED = "quota_exceeded";
+
+export const isQuotaExceeded = (error: unknown) =>
+  typeof error === "object" &&
+  error !== null &&
+  (error as { message?: unknown }).message === QUOTA_EXCEEDED;
+
+// The quota is enforced in the database; this is only for display
+export async function fetchUploadQuota(): Promise<UploadQuota> {
+  const { data, error } = await supabase.rpc("get_upload_quota");
+  if (error) throw error;
+
+  const row = data?.[0];
+  return {
+    used: row?.used ?? 0,
+    limit: row?.upload_limit ?? null,
+    remaining: row?.remaining ?? null,
+    isPremium: row?.is_premium ?? false,
+  };
+}
@@ -0,0 +1,78 @@
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { useAuth } from "@/auth/context";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { OfflineContext } from "./context";
+import { flushSyncQueue, pendingSyncCount, subscribeToSyncQueue } from "./sync";
+
+// How often to retry while results are waiting: the browser's online event
+// doesn't fire when a connection only drops for a moment
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+// Tracks connectivity and uploads the results queued while offline as soon
+// as there is a connection again
+export const OfflineProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const userId = user?.id;
+  const hasPending = pendingCount > 0;
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setPendingCount(0);
+      return;
+    }
+
+    const refreshCount = () =>
+      pendingSyncCount(userId)
+        .then(setPendingCount)
+        .catch((error) => console.error("Error reading the sync queue:", error));
+
+    refreshCount();
+    return subscribeToSyncQueue(refreshCount);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !online || !hasPending) return;
+
+    const sync = async () => {
+      setSyncing(true);
+      try {
+        const synced = await flushSyncQueue(userId);
+        if (synced > 0) {
+          toast({
+            title: t("offline.syncedTitle"),
+            description: t("offline.syncedBody", { count: synced }),
+          });
+        }
+      } catch (error) {
+        console.error("Error syncing offline results:", error);
+      } finally {
+        setSyncing(false);
+      }
+    };
+
+    sync();
+    const timer = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [userId, online, hasPending]);
+
+  const value = useMemo(() => ({ online, pendingCount, syncing }), [online, pendingCount, syncing]);
+
+  return <OfflineContext.Provider value={value}>{children}</OfflineContext.Provider>;
+};
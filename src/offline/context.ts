@@ -0,0 +1,16 @@
+import { createContext, useContext } from "react";
+
+export interface OfflineContextValue {
+  online: boolean;
+  // Results recorded without a connection that haven't been uploaded yet
+  pendingCount: number;
+  syncing: boolean;
+}
+
+export const OfflineContext = createContext<OfflineContextValue>({
+  online: true,
+  pendingCount: 0,
+  syncing: false,
+});
+
+export const useOffline = () => useContext(OfflineContext);
@@ -0,0 +1,44 @@
+// The IndexedDB database behind offline study: flashcard sets saved on this
+// device and the results waiting to be uploaded.
+const DB_NAME = "ethiocard-offline";
+const DB_VERSION = 1;
+
+export const DECKS_STORE = "decks";
+export const SYNC_QUEUE_STORE = "sync_queue";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(DECKS_STORE, { keyPath: "id" });
+      db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  return database;
+}
+
+// Run one request against a store and resolve once its transaction has
+// committed, so a write is on disk before the caller moves on
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
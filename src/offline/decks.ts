@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+import { QuizQuestion, parseQuestions } from "@/lib/quiz";
+import type { ReviewState, StoredReview } from "@/lib/srs";
+import { DECKS_STORE, withStore } from "./db";
+
+export interface OfflineCard {
+  id: string;
+  question: string;
+  answer: string;
+  order_index: number;
+  slide_number: number | null;
+}
+
+// A flashcard set saved on this device, with everything Study, Quiz and
+// Memory Mode need to run without a connection
+export interface OfflineDeck {
+  id: string;
+  user_id: string;
+  // As stored; pages decode it the same way as the online copy
+  title: string;
+  description: string | null;
+  language: string;
+  created_at: string;
+  cards: OfflineCard[];
+  // The latest AI-generated quiz, if the set has one
+  quiz: { id: string; questions: QuizQuestion[] } | null;
+  // The user's Memory Mode progress on these cards
+  reviews: StoredReview[];
+  saved_at: string;
+}
+
+// Fetch a set with its cards, quiz and review progress and keep it on this
+// device. Saving it again refreshes the copy.
+export async function saveOfflineDeck(setId: string, userId: string): Promise<OfflineDeck> {
+  const { data: set, error: setError } = await supabase
+    .from("flashcard_sets")
+    .select("id, title, description, language, created_at")
+    .eq("id", setId)
+    .single();
+  if (setError) throw setError;
+
+  const { data: cards, error: cardsError } = await supabase
+    .from("flashcards")
+    .select("id, question, answer, order_index, slide_number")
+    .eq("set_id", setId)
+    .order("order_index", { ascending: true });
+  if (cardsError) throw cardsError;
+
+  const { data: quizzes, error: quizError } = await supabase
+    .from("quizzes")
+    .select("id, questions")
+    .eq("set_id", setId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (quizError) throw quizError;
+
+  const { data: reviews, error: reviewsError } = await supabase
+    .from("card_reviews")
+    .select("flashcard_id, ease_factor, interval_days, repetitions, lapses, due_at, created_at")
+    .eq("user_id", userId)
+    .in("flashcard_id", (cards || []).map((card) => card.id));
+  if (reviewsError) throw reviewsError;
+
+  const quizQuestions = parseQuestions(quizzes?.[0]?.questions);
+  const deck: OfflineDeck = {
+    ...set,
+    user_id: userId,
+    cards: cards || [],
+    quiz: quizzes?.[0] && quizQuestions.length > 0 ? { id: quizzes[0].id, questions: quizQuestions } : null,
+    reviews: reviews || [],
+    saved_at: new Date().toISOString(),
+  };
+
+  await withStore(DECKS_STORE, "readwrite", (store) => store.put(deck));
+  return deck;
+}
+
+// Decks saved by other accounts on a shared device stay hidden
+export async function getOfflineDeck(setId: string, userId: string): Promise<OfflineDeck | undefined> {
+  const deck = await withStore<OfflineDeck | undefined>(DECKS_STORE, "readonly", (store) => store.get(setId));
+  return deck?.user_id === userId ? deck : undefined;
+}
+
+export async function listOfflineDecks(userId: string): Promise<OfflineDeck[]> {
+  const decks = await withStore<OfflineDeck[]>(DECKS_STORE, "readonly", (store) => store.getAll());
+  return decks
+    .filter((deck) => deck.user_id === userId)
+    .sort((a, b) => b.saved_at.localeCompare(a.saved_at));
+}
+
+export const removeOfflineDeck = (setId: string) =>
+  withStore(DECKS_STORE, "readwrite", (store) => store.delete(setId));
+
+// Keep the saved copy's Memory Mode progress in step with reviews made on
+// this device, so an offline session doesn't show the same cards again
+export async function updateOfflineReview(
+  setId: string,
+  userId: string,
+  flashcardId: string,
+  state: ReviewState
+) {
+  const deck = await getOfflineDeck(setId, userId);
+  if (!deck) return;
+
+  const previous = deck.reviews.find((review) => review.flashcard_id === flashcardId);
+  const reviews = deck.reviews.filter((review) => review !== previous);
+  const review: StoredReview = {
+    ...state,
+    flashcard_id: flashcardId,
+    created_at: previous?.created_at ?? new Date().toISOString(),
+  };
+
+  await withStore(DECKS_STORE, "readwrite", (store) => store.put({ ...deck, reviews: [...reviews, review] }));
+}
@@ -0,0 +1,11 @@
+// The worker in public/sw.js caches the built app so it opens offline. Only
+// production builds register it; in development it would serve stale modules.
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Service worker registration failed:", error));
+  });
+}
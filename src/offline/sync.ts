@@ -0,0 +1,96 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesInsert } from "@/integrations/supabase/types";
+import { SYNC_QUEUE_STORE, withStore } from "./db";
+
+type CardReviewInsert = TablesInsert<"card_reviews">;
+// Attempts carry their own id so a retried upload can't record them twice
+type QuizAttemptInsert = TablesInsert<"quiz_attempts"> & { id: string };
+
+type SyncItem = { id?: number; user_id: string; created_at: string } & (
+  | { kind: "review"; payload: CardReviewInsert }
+  | { kind: "quiz_attempt"; payload: QuizAttemptInsert }
+);
+
+export type SaveResult = "saved" | "queued";
+
+const listeners = new Set<() => void>();
+
+// Called whenever the queue changes, so the sync status can update
+export function subscribeToSyncQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const notify = () => listeners.forEach((listener) => listener());
+
+// PostgREST answers with a code; a request that never reached it has none
+const isNetworkError = (error: PostgrestError) => !navigator.onLine || !error.code;
+
+const upload = async (item: SyncItem) => {
+  const { error } =
+    item.kind === "review"
+      ? await supabase.from("card_reviews").upsert(item.payload, { onConflict: "user_id,flashcard_id" })
+      : await supabase.from("quiz_attempts").upsert(item.payload, { onConflict: "id", ignoreDuplicates: true });
+  return error;
+};
+
+const queuedItems = async (userId: string) =>
+  (await withStore<SyncItem[]>(SYNC_QUEUE_STORE, "readonly", (store) => store.getAll())).filter(
+    (item) => item.user_id === userId
+  );
+
+export const pendingSyncCount = async (userId: string) => (await queuedItems(userId)).length;
+
+// Upload now, or keep the result on this device when there's no connection.
+// Errors from the server itself are still thrown.
+async function saveOrQueue(item: SyncItem): Promise<SaveResult> {
+  // Anything already waiting goes first, or an older review could overwrite
+  // this one when it syncs
+  if ((await pendingSyncCount(item.user_id).catch(() => 0)) === 0) {
+    const error = await upload(item);
+    if (!error) return "saved";
+    if (!isNetworkError(error)) throw error;
+  }
+
+  await withStore(SYNC_QUEUE_STORE, "readwrite", (store) => store.add(item));
+  notify();
+  return "queued";
+}
+
+export const saveReview = (payload: CardReviewInsert) =>
+  saveOrQueue({ kind: "review", payload, user_id: payload.user_id, created_at: new Date().toISOString() });
+
+export const saveQuizAttempt = (payload: QuizAttemptInsert) =>
+  saveOrQueue({ kind: "quiz_attempt", payload, user_id: payload.user_id, created_at: new Date().toISOString() });
+
+let flushing: Promise<number> | null = null;
+
+// Upload queued results in the order they happened. Stops at the first
+// network failure and leaves the rest for the next attempt; anything the
+// server rejects would never succeed, so it is logged and dropped.
+export function flushSyncQueue(userId: string): Promise<number> {
+  flushing ??= (async () => {
+    let synced = 0;
+
+    try {
+      for (const item of await queuedItems(userId)) {
+        const error = await upload(item);
+        if (error && isNetworkError(error)) break;
+        if (error) console.error("Dropping queued result the server rejected:", error);
+        else synced += 1;
+
+        await withStore(SYNC_QUEUE_STORE, "readwrite", (store) => store.delete(item.id as number));
+      }
+    } finally {
+      flushing = null;
+      notify();
+    }
+
+    return synced;
+  })();
+
+  return flushing;
+}
@@ -4,10 +4,42 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Check, X, Users, CreditCard, FileText, Crown } from "lucide-react";
-import { User } from "@supabase/supabase-js";
+import { retryUpload } from "@/lib/uploads";
+import {
+  REJECTION_REASONS,
+  RejectionReason,
+  findDuplicateProofs,
+  hasActivePremium,
+  isRejectionReason,
+  planName,
+} from "@/lib/premium";
+import { PremiumPlansEditor } from "@/components/PremiumPlansEditor";
+import { RejectRequestDialog } from "@/components/RejectRequestDialog";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Check,
+  X,
+  Users,
+  CreditCard,
+  FileText,
+  Crown,
+  RotateCw,
+  Tags,
+} from "lucide-react";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import type { MessageKey } from "@/i18n";
 
 interface PremiumRequest {
   id: string;
@@ -15,9 +47,17 @@ interface PremiumRequest {
   email: string;
   username: string;
   screenshot_url: string;
+  screenshot_hash: string | null;
+  transaction_reference: string | null;
+  amount_etb: number | null;
+  payer_name: string | null;
   status: string;
   admin_notes: string | null;
+  rejection_reason: string | null;
+  resubmission_of: string | null;
   created_at: string;
+  plan_id: string | null;
+  premium_plans: { code: string; name: string; price_etb: number } | null;
 }
 
 interface UserProfile {
@@ -25,6 +65,8 @@ interface UserProfile {
   username: string;
   email: string;
   is_premium: boolean;
+  premium_expires_at: string | null;
+  premium_plan_id: string | null;
   created_at: string;
 }
 
@@ -34,63 +76,50 @@ interface Upload {
   file_name: string;
   file_type: string;
   processing_status: string;
+  processing_error: string | null;
+  extracted_text: string | null;
   created_at: string;
 }
 
+const REQUEST_STATUS_LABELS: Record<string, MessageKey> = {
+  pending: "admin.status.pending",
+  approved: "admin.status.approved",
+  rejected: "admin.status.rejected",
+};
+
 const Admin = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, t } = useI18n();
   
-  const [user, setUser] = useState<User | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [requests, setRequests] = useState<PremiumRequest[]>([]);
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [uploads, setUploads] = useState<Upload[]>([]);
   const [processingId, setProcessingId] = useState<string | null>(null);
+  const [textUpload, setTextUpload] = useState<Upload | null>(null);
+  // Signed screenshot URLs by storage path
+  const [screenshotUrls, setScreenshotUrls] = useState<Record<string, string>>({});
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<PremiumRequest | null>(null);
 
+  // RequireRole keeps non-admins out of this page
   useEffect(() => {
-    checkAdminAccess();
+    loadData().finally(() => setLoading(false));
   }, []);
 
-  const checkAdminAccess = async () => {
-    const { data: { session } } = await supabase.auth.getSession();
-    if (!session) {
-      navigate("/auth");
-      return;
-    }
-    setUser(session.user);
-
-    // Check if user is admin
-    const { data: roles } = await supabase
-      .from("user_roles")
-      .select("role")
-      .eq("user_id", session.user.id)
-      .eq("role", "admin");
-
-    if (!roles || roles.length === 0) {
-      toast({
-        title: "Access Denied",
-        description: "You don't have admin privileges",
-        variant: "destructive",
-      });
-      navigate("/dashboard");
-      return;
-    }
-
-    setIsAdmin(true);
-    await loadData();
-    setLoading(false);
-  };
-
   const loadData = async () => {
     // Load premium requests
     const { data: requestsData } = await supabase
       .from("premium_requests")
-      .select("*")
+      .select("*, premium_plans(code, name, price_etb)")
       .order("created_at", { ascending: false });
     
-    if (requestsData) setRequests(requestsData);
+    if (requestsData) {
+      setRequests(requestsData);
+      await loadScreenshotUrls(requestsData.map((request) => request.screenshot_url));
+    }
 
     // Load all users
     const { data: usersData } = await supabase
@@ -112,38 +141,22 @@ const Admin = () => {
   const handleApprove = async (request: PremiumRequest) => {
     setProcessingId(request.id);
     try {
-      // Update request status
-      const { error: requestError } = await supabase
-        .from("premium_requests")
-        .update({
-          status: "approved",
-          reviewed_at: new Date().toISOString(),
-          reviewed_by: user?.id,
-        })
-        .eq("id", request.id);
-
-      if (requestError) throw requestError;
-
-      // Update user premium status
-      const { error: profileError } = await supabase
-        .from("profiles")
-        .update({
-          is_premium: true,
-          premium_expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(), // 30 days
-        })
-        .eq("id", request.user_id);
+      // Marks the request approved and extends (never resets) the expiry
+      const { error } = await supabase.rpc("approve_premium_request", {
+        _request_id: request.id,
+      });
 
-      if (profileError) throw profileError;
+      if (error) throw error;
 
       toast({
-        title: "Approved!",
-        description: `Premium activated for ${request.username}`,
+        title: t("admin.approved"),
+        description: t("admin.approvedBody", { username: request.username }),
       });
 
       await loadData();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t("common.error"),
         description: error.message,
         variant: "destructive",
       });
@@ -152,14 +165,15 @@ const Admin = () => {
     }
   };
 
-  const handleReject = async (request: PremiumRequest, reason?: string) => {
+  const handleReject = async (request: PremiumRequest, reason: RejectionReason, notes: string) => {
     setProcessingId(request.id);
     try {
       const { error } = await supabase
         .from("premium_requests")
         .update({
           status: "rejected",
-          admin_notes: reason || "Payment could not be verified",
+          rejection_reason: reason,
+          admin_notes: notes || null,
           reviewed_at: new Date().toISOString(),
           reviewed_by: user?.id,
         })
@@ -168,14 +182,15 @@ const Admin = () => {
       if (error) throw error;
 
       toast({
-        title: "Rejected",
-        description: `Request from ${request.username} rejected`,
+        title: t("admin.rejected"),
+        description: t("admin.rejectedBody", { username: request.username }),
       });
 
+      setRejecting(null);
       await loadData();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t("common.error"),
         description: error.message,
         variant: "destructive",
       });
@@ -185,28 +200,30 @@ const Admin = () => {
   };
 
   const togglePremium = async (profile: UserProfile) => {
+    const active = hasActivePremium(profile);
     try {
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          is_premium: !profile.is_premium,
-          premium_expires_at: !profile.is_premium
-            ? new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-            : null,
-        })
-        .eq("id", profile.id);
+      // Granting renews the plan they last had (the default period if none)
+      const { error } = active
+        ? await supabase
+            .from("profiles")
+            .update({ is_premium: false, premium_expires_at: null })
+            .eq("id", profile.id)
+        : await supabase.rpc("admin_grant_premium", {
+            _user_id: profile.id,
+            _plan_id: profile.premium_plan_id,
+          });
 
       if (error) throw error;
 
       toast({
-        title: "Updated",
-        description: `${profile.username} premium status updated`,
+        title: t("admin.updated"),
+        description: t("admin.updatedBody", { username: profile.username }),
       });
 
       await loadData();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t("common.error"),
         description: error.message,
         variant: "destructive",
       });
@@ -223,45 +240,88 @@ const Admin = () => {
       if (error) throw error;
 
       toast({
-        title: "Deleted",
-        description: "Upload deleted successfully",
+        title: t("admin.deleted"),
+        description: t("admin.deletedBody"),
       });
 
       await loadData();
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t("common.error"),
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
-  const getScreenshotUrl = async (path: string) => {
-    const { data } = await supabase.storage
-      .from("payment-screenshots")
-      .createSignedUrl(path, 3600);
-    return data?.signedUrl;
+  const reprocessUpload = async (upload: Upload) => {
+    setProcessingId(upload.id);
+    try {
+      await retryUpload(upload.id);
+
+      toast({
+        title: t("admin.reprocessing"),
+        description: t("admin.reprocessingBody", { file: upload.file_name }),
+      });
+
+      await loadData();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("admin.reprocessFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
   };
 
-  const viewScreenshot = async (path: string) => {
-    const url = await getScreenshotUrl(path);
-    if (url) {
-      window.open(url, "_blank");
+  // The bucket is private, so screenshots are shown through short-lived
+  // signed URLs, fetched in one batch
+  const loadScreenshotUrls = async (paths: string[]) => {
+    if (paths.length === 0) return;
+
+    const { data, error } = await supabase.storage
+      .from("payment-screenshots")
+      .createSignedUrls(paths, 3600);
+
+    if (error) {
+      console.error("Error signing screenshot URLs:", error);
+      return;
     }
+
+    setScreenshotUrls(
+      Object.fromEntries(
+        (data ?? [])
+          .filter((entry) => entry.path && entry.signedUrl)
+          .map((entry) => [entry.path, entry.signedUrl])
+      )
+    );
   };
 
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
-        <p className="text-muted-foreground">Loading...</p>
+        <p className="text-muted-foreground">{t("common.loading")}</p>
       </div>
     );
   }
 
-  if (!isAdmin) return null;
-
   const pendingRequests = requests.filter((r) => r.status === "pending");
+  const duplicates = findDuplicateProofs(requests);
+
+  // Older requests carry only a free-text note
+  const rejectionSummary = (request: PremiumRequest) => {
+    const reason = isRejectionReason(request.rejection_reason)
+      ? t(REJECTION_REASONS[request.rejection_reason])
+      : null;
+    return [reason, request.admin_notes].filter(Boolean).join(" · ") || t("admin.defaultRejectReason");
+  };
+
+  const describeRequests = (others: PremiumRequest[]) =>
+    others
+      .map((other) => `${other.username} (${t(REQUEST_STATUS_LABELS[other.status] ?? "admin.status.pending")})`)
+      .join(", ");
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
@@ -270,13 +330,13 @@ const Admin = () => {
           <div className="flex items-center gap-4">
             <Button variant="ghost" onClick={() => navigate("/dashboard")} className="gap-2">
               <ArrowLeft className="w-4 h-4" />
-              Dashboard
+              {t("common.dashboard")}
             </Button>
-            <h1 className="text-2xl font-bold text-primary">Admin Panel</h1>
+            <h1 className="text-2xl font-bold text-primary">{t("admin.title")}</h1>
           </div>
           <Badge variant="secondary" className="gap-1">
             <Crown className="w-3 h-3" />
-            Admin
+            {t("common.admin")}
           </Badge>
         </div>
       </header>
@@ -290,7 +350,7 @@ const Admin = () => {
                 <CreditCard className="w-8 h-8 text-yellow-500" />
                 <div>
                   <p className="text-2xl font-bold">{pendingRequests.length}</p>
-                  <p className="text-sm text-muted-foreground">Pending Requests</p>
+                  <p className="text-sm text-muted-foreground">{t("admin.pendingRequests")}</p>
                 </div>
               </div>
             </CardContent>
@@ -301,7 +361,7 @@ const Admin = () => {
                 <Users className="w-8 h-8 text-blue-500" />
                 <div>
                   <p className="text-2xl font-bold">{users.length}</p>
-                  <p className="text-sm text-muted-foreground">Total Users</p>
+                  <p className="text-sm text-muted-foreground">{t("admin.totalUsers")}</p>
                 </div>
               </div>
             </CardContent>
@@ -311,8 +371,8 @@ const Admin = () => {
               <div className="flex items-center gap-4">
                 <Crown className="w-8 h-8 text-primary" />
                 <div>
-                  <p className="text-2xl font-bold">{users.filter((u) => u.is_premium).length}</p>
-                  <p className="text-sm text-muted-foreground">Premium Users</p>
+                  <p className="text-2xl font-bold">{users.filter(hasActivePremium).length}</p>
+                  <p className="text-sm text-muted-foreground">{t("admin.premiumUsers")}</p>
                 </div>
               </div>
             </CardContent>
@@ -323,7 +383,7 @@ const Admin = () => {
                 <FileText className="w-8 h-8 text-green-500" />
                 <div>
                   <p className="text-2xl font-bold">{uploads.length}</p>
-                  <p className="text-sm text-muted-foreground">Total Uploads</p>
+                  <p className="text-sm text-muted-foreground">{t("admin.totalUploads")}</p>
                 </div>
               </div>
             </CardContent>
@@ -334,7 +394,7 @@ const Admin = () => {
           <TabsList>
             <TabsTrigger value="requests" className="gap-2">
               <CreditCard className="w-4 h-4" />
-              Payment Requests
+              {t("admin.paymentRequests")}
               {pendingRequests.length > 0 && (
                 <Badge variant="destructive" className="ml-1">
                   {pendingRequests.length}
@@ -343,11 +403,15 @@ const Admin = () => {
             </TabsTrigger>
             <TabsTrigger value="users" className="gap-2">
               <Users className="w-4 h-4" />
-              Users
+              {t("admin.users")}
             </TabsTrigger>
             <TabsTrigger value="uploads" className="gap-2">
               <FileText className="w-4 h-4" />
-              Uploads
+              {t("admin.uploads")}
+            </TabsTrigger>
+            <TabsTrigger value="plans" className="gap-2">
+              <Tags className="w-4 h-4" />
+              {t("admin.plans")}
             </TabsTrigger>
           </TabsList>
 
@@ -355,66 +419,138 @@ const Admin = () => {
             {requests.length === 0 ? (
               <Card>
                 <CardContent className="pt-6 text-center text-muted-foreground">
-                  No payment requests yet
+                  {t("admin.noRequests")}
                 </CardContent>
               </Card>
             ) : (
-              requests.map((request) => (
-                <Card key={request.id} className={request.status === "pending" ? "border-yellow-500" : ""}>
-                  <CardContent className="pt-6">
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-2">
-                        <div className="flex items-center gap-2">
-                          <span className="font-bold">{request.username}</span>
-                          <Badge
-                            variant={
-                              request.status === "approved"
-                                ? "default"
-                                : request.status === "rejected"
-                                ? "destructive"
-                                : "secondary"
-                            }
-                          >
-                            {request.status}
-                          </Badge>
+              requests.map((request) => {
+                const duplicate = duplicates.get(request.id);
+                const screenshotUrl = screenshotUrls[request.screenshot_url];
+                const planPrice = request.premium_plans?.price_etb;
+                const original = request.resubmission_of
+                  ? requests.find((other) => other.id === request.resubmission_of)
+                  : undefined;
+
+                return (
+                  <Card key={request.id} className={request.status === "pending" ? "border-yellow-500" : ""}>
+                    <CardContent className="pt-6">
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-bold">{request.username}</span>
+                            <Badge
+                              variant={
+                                request.status === "approved"
+                                  ? "default"
+                                  : request.status === "rejected"
+                                  ? "destructive"
+                                  : "secondary"
+                              }
+                            >
+                              {t(REQUEST_STATUS_LABELS[request.status] ?? "admin.status.pending")}
+                            </Badge>
+                            {duplicate && (
+                              <Badge variant="outline" className="gap-1 border-destructive text-destructive">
+                                <AlertTriangle className="w-3 h-3" />
+                                {t("admin.duplicate")}
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{request.email}</p>
+                          {request.premium_plans && (
+                            <p className="text-sm">
+                              {t("admin.requestPlan", {
+                                plan: planName(request.premium_plans, t),
+                                price: request.premium_plans.price_etb,
+                              })}
+                            </p>
+                          )}
+                          {request.transaction_reference && (
+                            <p className="text-sm font-mono">
+                              {t("admin.reference", { reference: request.transaction_reference })}
+                            </p>
+                          )}
+                          {request.amount_etb !== null && (
+                            <p className="text-sm">
+                              {t("admin.amountPaid", { amount: request.amount_etb })}
+                              {planPrice !== undefined && request.amount_etb < planPrice && (
+                                <span className="text-destructive"> · {t("admin.amountShort")}</span>
+                              )}
+                            </p>
+                          )}
+                          {request.payer_name && (
+                            <p className="text-sm">{t("admin.payer", { name: request.payer_name })}</p>
+                          )}
+                          {original && (
+                            <p className="text-sm text-muted-foreground">
+                              {t("admin.resubmissionOf", {
+                                date: new Date(original.created_at).toLocaleDateString(language),
+                                reason: rejectionSummary(original),
+                              })}
+                            </p>
+                          )}
+                          {request.status === "rejected" && (
+                            <p className="text-sm text-destructive">
+                              {t("admin.rejectionReason", { reason: rejectionSummary(request) })}
+                            </p>
+                          )}
+                          <p className="text-sm text-muted-foreground">
+                            {t("premium.submittedOn", { date: new Date(request.created_at).toLocaleString(language) })}
+                          </p>
+                          {duplicate && (
+                            <div className="text-sm text-destructive space-y-1">
+                              {duplicate.sameReference.length > 0 && (
+                                <p>{t("admin.sameReference", { requests: describeRequests(duplicate.sameReference) })}</p>
+                              )}
+                              {duplicate.sameScreenshot.length > 0 && (
+                                <p>{t("admin.sameScreenshot", { requests: describeRequests(duplicate.sameScreenshot) })}</p>
+                              )}
+                            </div>
+                          )}
+                          {screenshotUrl ? (
+                            <button
+                              type="button"
+                              onClick={() => setPreviewUrl(screenshotUrl)}
+                              className="block rounded-md border overflow-hidden"
+                              title={t("admin.viewScreenshot")}
+                            >
+                              <img
+                                src={screenshotUrl}
+                                alt={t("premium.screenshot")}
+                                loading="lazy"
+                                className="h-40 w-auto object-cover"
+                              />
+                            </button>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">{t("admin.screenshotUnavailable")}</p>
+                          )}
                         </div>
-                        <p className="text-sm text-muted-foreground">{request.email}</p>
-                        <p className="text-sm text-muted-foreground">
-                          Submitted: {new Date(request.created_at).toLocaleString()}
-                        </p>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => viewScreenshot(request.screenshot_url)}
-                        >
-                          View Screenshot
-                        </Button>
+                        {request.status === "pending" && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => handleApprove(request)}
+                              disabled={processingId === request.id}
+                            >
+                              <Check className="w-4 h-4 mr-1" />
+                              {t("admin.approve")}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => setRejecting(request)}
+                              disabled={processingId === request.id}
+                            >
+                              <X className="w-4 h-4 mr-1" />
+                              {t("admin.reject")}
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                      {request.status === "pending" && (
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            onClick={() => handleApprove(request)}
-                            disabled={processingId === request.id}
-                          >
-                            <Check className="w-4 h-4 mr-1" />
-                            Approve
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="destructive"
-                            onClick={() => handleReject(request)}
-                            disabled={processingId === request.id}
-                          >
-                            <X className="w-4 h-4 mr-1" />
-                            Reject
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))
+                    </CardContent>
+                  </Card>
+                );
+              })
             )}
           </TabsContent>
 
@@ -426,25 +562,32 @@ const Admin = () => {
                     <div className="space-y-1 min-w-0 flex-1">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span className="font-bold break-all">{profile.username}</span>
-                        {profile.is_premium && (
+                        {hasActivePremium(profile) && (
                           <Badge className="gap-1 flex-shrink-0">
                             <Crown className="w-3 h-3" />
-                            Premium
+                            {t("common.premium")}
                           </Badge>
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground break-all">{profile.email}</p>
+                      {hasActivePremium(profile) && profile.premium_expires_at && (
+                        <p className="text-xs text-muted-foreground">
+                          {t("admin.premiumUntil", {
+                            date: new Date(profile.premium_expires_at).toLocaleDateString(language),
+                          })}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
-                        Joined: {new Date(profile.created_at).toLocaleDateString()}
+                        {t("admin.joined", { date: new Date(profile.created_at).toLocaleDateString(language) })}
                       </p>
                     </div>
                     <Button
-                      variant={profile.is_premium ? "destructive" : "default"}
+                      variant={hasActivePremium(profile) ? "destructive" : "default"}
                       size="sm"
                       onClick={() => togglePremium(profile)}
                       className="flex-shrink-0 w-full sm:w-auto"
                     >
-                      {profile.is_premium ? "Remove Premium" : "Grant Premium"}
+                      {hasActivePremium(profile) ? t("admin.removePremium") : t("admin.grantPremium")}
                     </Button>
                   </div>
                 </CardContent>
@@ -456,7 +599,7 @@ const Admin = () => {
             {uploads.length === 0 ? (
               <Card>
                 <CardContent className="pt-6 text-center text-muted-foreground">
-                  No uploads yet
+                  {t("admin.noUploads")}
                 </CardContent>
               </Card>
             ) : (
@@ -467,28 +610,91 @@ const Admin = () => {
                       <div className="space-y-1 min-w-0 flex-1">
                         <p className="font-medium break-words">{upload.file_name}</p>
                         <p className="text-sm text-muted-foreground break-words">
-                          Type: {upload.file_type} | Status: {upload.processing_status}
+                          {t("admin.uploadMeta", { type: upload.file_type, status: upload.processing_status })}
                         </p>
+                        {upload.processing_error && (
+                          <p className="text-sm text-destructive break-words">
+                            {t("admin.uploadError", { error: upload.processing_error })}
+                          </p>
+                        )}
                         <p className="text-xs text-muted-foreground">
-                          Uploaded: {new Date(upload.created_at).toLocaleString()}
+                          {t("admin.uploadedOn", { date: new Date(upload.created_at).toLocaleString(language) })}
                         </p>
                       </div>
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => deleteUpload(upload.id)}
-                        className="flex-shrink-0 w-full sm:w-auto"
-                      >
-                        Delete
-                      </Button>
+                      <div className="flex gap-2 flex-shrink-0 w-full sm:w-auto">
+                        {upload.extracted_text && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setTextUpload(upload)}
+                            className="flex-1 sm:flex-none"
+                          >
+                            {t("admin.viewText")}
+                          </Button>
+                        )}
+                        {upload.processing_status === "failed" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => reprocessUpload(upload)}
+                            disabled={processingId === upload.id}
+                            className="flex-1 sm:flex-none"
+                          >
+                            <RotateCw className="w-4 h-4 mr-1" />
+                            {t("admin.reprocess")}
+                          </Button>
+                        )}
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => deleteUpload(upload.id)}
+                          className="flex-1 sm:flex-none"
+                        >
+                          {t("common.delete")}
+                        </Button>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
               ))
             )}
           </TabsContent>
+
+          <TabsContent value="plans" className="space-y-4">
+            <PremiumPlansEditor />
+          </TabsContent>
         </Tabs>
       </div>
+
+      <RejectRequestDialog
+        username={rejecting?.username ?? null}
+        submitting={!!rejecting && processingId === rejecting.id}
+        onCancel={() => setRejecting(null)}
+        onConfirm={(reason, notes) => rejecting && handleReject(rejecting, reason, notes)}
+      />
+
+      <Dialog open={!!previewUrl} onOpenChange={(open) => !open && setPreviewUrl(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t("premium.screenshot")}</DialogTitle>
+          </DialogHeader>
+          {previewUrl && (
+            <img src={previewUrl} alt={t("premium.screenshot")} className="max-h-[75vh] w-full object-contain" />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!textUpload} onOpenChange={(open) => !open && setTextUpload(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="break-words">{textUpload?.file_name}</DialogTitle>
+            <DialogDescription>{t("admin.extractedText")}</DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-[60vh] rounded-md border p-4">
+            <p className="text-sm whitespace-pre-wrap break-words">{textUpload?.extracted_text}</p>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,12 +1,14 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { Location, Navigate, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
 
 const Auth = () => {
   const [isLogin, setIsLogin] = useState(true);
@@ -14,31 +16,13 @@ const Auth = () => {
   const [password, setPassword] = useState("");
   const [username, setUsername] = useState("");
   const [loading, setLoading] = useState(false);
-  const [user, setUser] = useState<User | null>(null);
-  const navigate = useNavigate();
+  const { user } = useAuth();
+  const location = useLocation();
   const { toast } = useToast();
+  const { language, t } = useI18n();
 
-  useEffect(() => {
-    // Check if already logged in
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-      if (session?.user) {
-        navigate("/dashboard");
-      }
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setUser(session?.user ?? null);
-        if (session?.user && event === 'SIGNED_IN') {
-          navigate("/dashboard");
-        }
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  // Back to the page that asked for a sign-in, if any
+  const from = (location.state as { from?: Location } | null)?.from;
 
   const handleAuth = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -53,14 +37,14 @@ const Auth = () => {
 
         if (error) {
           toast({
-            title: "Login Failed",
+            title: t("auth.loginFailed"),
             description: error.message,
             variant: "destructive",
           });
         } else {
           toast({
-            title: "Welcome back!",
-            description: "You've successfully logged in.",
+            title: t("auth.welcomeBackToast"),
+            description: t("auth.loggedIn"),
           });
         }
       } else {
@@ -70,6 +54,7 @@ const Auth = () => {
           options: {
             data: {
               username: username || email.split("@")[0],
+              language,
             },
             emailRedirectTo: `${window.location.origin}/`,
           },
@@ -77,20 +62,20 @@ const Auth = () => {
 
         if (error) {
           toast({
-            title: "Signup Failed",
+            title: t("auth.signupFailed"),
             description: error.message,
             variant: "destructive",
           });
         } else {
           toast({
-            title: "Account Created!",
-            description: "Welcome to Ethiocard AI.",
+            title: t("auth.accountCreated"),
+            description: t("auth.welcome"),
           });
         }
       }
     } catch (error: any) {
       toast({
-        title: "Error",
+        title: t("common.error"),
         description: error.message,
         variant: "destructive",
       });
@@ -100,27 +85,26 @@ const Auth = () => {
   };
 
   if (user) {
-    return null; // Will redirect via useEffect
+    return <Navigate to={from ? `${from.pathname}${from.search}` : "/dashboard"} replace />;
   }
 
   return (
-    <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center p-4 sm:p-6 lg:p-8">
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center p-4 sm:p-6 lg:p-8 relative">
+      <LanguageSwitcher className="absolute top-4 right-4" />
       <Card className="w-full max-w-md p-6 sm:p-8 shadow-[var(--shadow-elevated)]">
         <div className="text-center mb-6 sm:mb-8">
           <h2 className="text-2xl sm:text-3xl font-bold mb-2">
-            {isLogin ? "Welcome Back" : "Create Account"}
+            {isLogin ? t("auth.welcomeBack") : t("auth.createAccount")}
           </h2>
           <p className="text-sm sm:text-base text-muted-foreground">
-            {isLogin
-              ? "Sign in to access your flashcards"
-              : "Start creating AI-powered flashcards"}
+            {isLogin ? t("auth.signInSubtitle") : t("auth.signUpSubtitle")}
           </p>
         </div>
 
         <form onSubmit={handleAuth} className="space-y-4">
           {!isLogin && (
             <div>
-              <Label htmlFor="username">Username (optional)</Label>
+              <Label htmlFor="username">{t("auth.usernameOptional")}</Label>
               <Input
                 id="username"
                 type="text"
@@ -132,7 +116,7 @@ const Auth = () => {
           )}
 
           <div>
-            <Label htmlFor="email">Email</Label>
+            <Label htmlFor="email">{t("auth.email")}</Label>
             <Input
               id="email"
               type="email"
@@ -144,7 +128,7 @@ const Auth = () => {
           </div>
 
           <div>
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="password">{t("auth.password")}</Label>
             <Input
               id="password"
               type="password"
@@ -157,7 +141,7 @@ const Auth = () => {
           </div>
 
           <Button type="submit" className="w-full" disabled={loading}>
-            {loading ? "Loading..." : isLogin ? "Sign In" : "Sign Up"}
+            {loading ? t("common.loading") : isLogin ? t("auth.signIn") : t("auth.signUp")}
           </Button>
         </form>
 
@@ -166,9 +150,7 @@ const Auth = () => {
             onClick={() => setIsLogin(!isLogin)}
             className="text-primary hover:underline"
           >
-            {isLogin
-              ? "Don't have an account? Sign up"
-              : "Already have an account? Sign in"}
+            {isLogin ? t("auth.switchToSignUp") : t("auth.switchToSignIn")}
           </button>
         </div>
       </Card>
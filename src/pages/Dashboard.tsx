@@ -3,79 +3,125 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ProcessingUploads } from "@/components/ProcessingUploads";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
-import { Upload, BookOpen, LogOut, Crown, Shield, Brain } from "lucide-react";
+import { Upload, BookOpen, LogOut, Crown, Shield, Brain, Download, FileDown, Globe } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UploadStatus, retryUpload } from "@/lib/uploads";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { NotificationBell } from "@/components/NotificationBell";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { listOfflineDecks } from "@/offline/decks";
+import { EXPORT_FORMATS, ExportFormat, exportSet } from "@/lib/export";
+import type { MessageKey } from "@/i18n";
+import { CONTENT_LANGUAGES, ContentLanguage, contentLang, contentLanguageName, isContentLanguage } from "@/lib/languages";
+
+const EXPORT_LABELS: Record<ExportFormat, MessageKey> = {
+  csv: "dashboard.exportCsv",
+  tsv: "dashboard.exportTsv",
+  apkg: "dashboard.exportAnki",
+};
 
 interface FlashcardSet {
   id: string;
   title: string;
   description: string | null;
   created_at: string;
+  language: string;
   flashcards: { count: number }[];
 }
 
 const Dashboard = () => {
-  const [user, setUser] = useState<User | null>(null);
   const [sets, setSets] = useState<FlashcardSet[]>([]);
+  const [languageFilter, setLanguageFilter] = useState<ContentLanguage | "all">("all");
+  const [pendingUploads, setPendingUploads] = useState<UploadStatus[]>([]);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isPremium, setIsPremium] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
+  // Sets saved on this device for offline study
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set());
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, t } = useI18n();
+  const { user, isPremium, isAdmin } = useAuth();
 
   useEffect(() => {
-    // Check auth status
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (!session?.user) {
-        navigate("/auth");
-      } else {
-        setUser(session.user);
-        loadFlashcardSets(session.user.id);
-        checkUserStatus(session.user.id);
-      }
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        if (!session?.user) {
-          navigate("/auth");
-        } else {
-          setUser(session.user);
+    if (!user) return;
+    loadFlashcardSets(user.id);
+    loadPendingUploads(user.id);
+  }, [user?.id]);
+
+  // Follow processing status of this user's uploads live
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`uploads-${user.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "uploads",
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            setPendingUploads((current) =>
+              current.filter((upload) => upload.id !== payload.old.id)
+            );
+            return;
+          }
+
+          const upload = payload.new as UploadStatus;
+          if (upload.processing_status === "completed") {
+            setPendingUploads((current) => current.filter((u) => u.id !== upload.id));
+            loadFlashcardSets(user.id);
+            toast({
+              title: t("dashboard.readyTitle"),
+              description: t("dashboard.readyBody", { file: upload.file_name }),
+            });
+            return;
+          }
+
+          setPendingUploads((current) => {
+            const others = current.filter((u) => u.id !== upload.id);
+            return [upload, ...others].sort((a, b) => b.created_at.localeCompare(a.created_at));
+          });
         }
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
-
-  const checkUserStatus = async (userId: string) => {
-    // Check premium status
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("is_premium")
-      .eq("id", userId)
-      .single();
-    
-    if (profile) {
-      setIsPremium(profile.is_premium || false);
-    }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id]);
 
-    // Check admin status
-    const { data: roles } = await supabase
-      .from("user_roles")
-      .select("role")
+  const loadPendingUploads = async (userId: string) => {
+    const { data } = await supabase
+      .from("uploads")
+      .select("id, file_name, processing_status, processing_error, created_at, updated_at")
       .eq("user_id", userId)
-      .eq("role", "admin");
-    
-    if (roles && roles.length > 0) {
-      setIsAdmin(true);
-      setIsPremium(true); // Admin always has premium
-    }
+      .neq("processing_status", "completed")
+      .order("created_at", { ascending: false });
+
+    setPendingUploads((data as UploadStatus[]) || []);
   };
 
   const loadFlashcardSets = async (userId: string) => {
+    const offlineDecks = await listOfflineDecks(userId).catch(() => []);
+    setOfflineIds(new Set(offlineDecks.map((deck) => deck.id)));
+
     try {
       const { data, error } = await supabase
         .from("flashcard_sets")
@@ -84,6 +130,7 @@ const Dashboard = () => {
           title,
           description,
           created_at,
+          language,
           flashcards(count)
         `)
         .eq("user_id", userId)
@@ -92,9 +139,24 @@ const Dashboard = () => {
       if (error) throw error;
       setSets(data || []);
     } catch (error: any) {
+      // Without a connection, list what's saved on this device
+      if (offlineDecks.length > 0) {
+        setSets(
+          offlineDecks.map((deck) => ({
+            id: deck.id,
+            title: deck.title,
+            description: deck.description,
+            created_at: deck.created_at,
+            language: deck.language,
+            flashcards: [{ count: deck.cards.length }],
+          }))
+        );
+        return;
+      }
+
       toast({
-        title: "Error",
-        description: "Failed to load flashcard sets",
+        title: t("common.error"),
+        description: t("dashboard.loadFailed"),
         variant: "destructive",
       });
     } finally {
@@ -102,6 +164,41 @@ const Dashboard = () => {
     }
   };
 
+  const handleExport = async (setId: string, format: ExportFormat) => {
+    setExportingId(setId);
+    try {
+      await exportSet(setId, format);
+    } catch (error) {
+      console.error("Error exporting set:", error);
+      toast({
+        title: t("common.error"),
+        description: t("dashboard.exportFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const handleRetry = async (upload: UploadStatus) => {
+    setRetryingId(upload.id);
+    try {
+      await retryUpload(upload.id);
+      toast({
+        title: t("dashboard.retryingTitle"),
+        description: t("dashboard.retryingBody", { file: upload.file_name }),
+      });
+    } catch (error) {
+      toast({
+        title: t("dashboard.retryFailed"),
+        description: error instanceof Error ? error.message : t("dashboard.retryFailedBody"),
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   const handleSignOut = async () => {
     await supabase.auth.signOut();
     navigate("/");
@@ -109,6 +206,10 @@ const Dashboard = () => {
 
   if (!user) return null;
 
+  const setLanguages = CONTENT_LANGUAGES.filter((code) => sets.some((set) => set.language === code));
+  const visibleSets =
+    languageFilter === "all" ? sets : sets.filter((set) => set.language === languageFilter);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
       {/* Header */}
@@ -120,32 +221,34 @@ const Dashboard = () => {
               {isPremium && (
                 <Badge className="gap-1 text-xs">
                   <Crown className="w-3 h-3" />
-                  Premium
+                  {t("common.premium")}
                 </Badge>
               )}
               {isAdmin && (
                 <Badge variant="secondary" className="gap-1 text-xs">
                   <Shield className="w-3 h-3" />
-                  Admin
+                  {t("common.admin")}
                 </Badge>
               )}
             </div>
             <div className="flex items-center gap-2 w-full sm:w-auto">
+              <LanguageSwitcher className="flex-1 sm:flex-none" />
+              {user && <NotificationBell userId={user.id} className="flex-1 sm:flex-none" />}
               {isAdmin && (
                 <Button variant="outline" size="sm" onClick={() => navigate("/admin")} className="flex-1 sm:flex-none">
                   <Shield className="w-4 h-4 sm:mr-2" />
-                  <span className="hidden sm:inline">Admin Panel</span>
+                  <span className="hidden sm:inline">{t("admin.title")}</span>
                 </Button>
               )}
               {!isPremium && (
                 <Button variant="outline" size="sm" onClick={() => navigate("/premium")} className="flex-1 sm:flex-none">
                   <Crown className="w-4 h-4 sm:mr-2" />
-                  <span className="hidden sm:inline">Get Premium</span>
+                  <span className="hidden sm:inline">{t("dashboard.getPremium")}</span>
                 </Button>
               )}
               <Button variant="outline" size="sm" onClick={handleSignOut} className="flex-1 sm:flex-none">
                 <LogOut className="w-4 h-4 sm:mr-2" />
-                <span className="hidden sm:inline">Sign Out</span>
+                <span className="hidden sm:inline">{t("dashboard.signOut")}</span>
               </Button>
             </div>
           </div>
@@ -157,59 +260,121 @@ const Dashboard = () => {
           {/* Welcome Section */}
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 sm:gap-0">
             <div>
-              <h2 className="text-2xl sm:text-3xl font-bold mb-2">Your Flashcard Sets</h2>
+              <h2 className="text-2xl sm:text-3xl font-bold mb-2">{t("dashboard.title")}</h2>
               <p className="text-sm sm:text-base text-muted-foreground">
-                Create new sets or review existing ones
+                {t("dashboard.subtitle")}
               </p>
             </div>
-            <Button
-              size="lg"
-              onClick={() => navigate("/upload")}
-              className="gap-2 w-full sm:w-auto"
-            >
-              <Upload className="w-4 h-4 sm:w-5 sm:h-5" />
-              Upload Files
-            </Button>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              <Button
+                size="lg"
+                variant="outline"
+                onClick={() => navigate("/shared")}
+                className="gap-2 w-full sm:w-auto"
+              >
+                <Globe className="w-4 h-4 sm:w-5 sm:h-5" />
+                {t("share.browse")}
+              </Button>
+              <Button
+                size="lg"
+                variant="outline"
+                onClick={() => navigate("/memory")}
+                className="gap-2 w-full sm:w-auto"
+              >
+                <Brain className="w-4 h-4 sm:w-5 sm:h-5" />
+                {t("memory.title")}
+                {!isPremium && <Crown className="w-4 h-4 text-amber-500" />}
+              </Button>
+              <Button
+                size="lg"
+                onClick={() => navigate("/upload")}
+                className="gap-2 w-full sm:w-auto"
+              >
+                <Upload className="w-4 h-4 sm:w-5 sm:h-5" />
+                {t("dashboard.uploadFiles")}
+              </Button>
+            </div>
           </div>
 
+          <ProcessingUploads
+            uploads={pendingUploads}
+            retryingId={retryingId}
+            onRetry={handleRetry}
+          />
+
+          {/* Only offer the language filter once there is more than one to pick from */}
+          {setLanguages.length > 1 && (
+            <div className="flex justify-end mb-4">
+              <Select
+                value={languageFilter}
+                onValueChange={(value) => setLanguageFilter(isContentLanguage(value) ? value : "all")}
+              >
+                <SelectTrigger className="w-full sm:w-56" aria-label={t("dashboard.filterLanguage")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("dashboard.allLanguages")}</SelectItem>
+                  {setLanguages.map((code) => (
+                    <SelectItem key={code} value={code}>
+                      {contentLanguageName(code, t)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Flashcard Sets Grid */}
           {loading ? (
             <div className="text-center py-12">
-              <p className="text-muted-foreground">Loading your flashcards...</p>
+              <p className="text-muted-foreground">{t("dashboard.loadingSets")}</p>
             </div>
           ) : sets.length === 0 ? (
             <Card className="p-12 text-center">
               <BookOpen className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-xl font-semibold mb-2">No flashcard sets yet</h3>
+              <h3 className="text-xl font-semibold mb-2">{t("dashboard.emptyTitle")}</h3>
               <p className="text-muted-foreground mb-6">
-                Upload your first file to get started with AI-generated flashcards
+                {t("dashboard.emptyBody")}
               </p>
               <Button onClick={() => navigate("/upload")}>
                 <Upload className="w-4 h-4 mr-2" />
-                Upload Now
+                {t("dashboard.uploadNow")}
               </Button>
             </Card>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-              {sets.map((set) => (
+              {visibleSets.map((set) => (
                 <Card
                   key={set.id}
                   className="p-6 hover:shadow-[var(--shadow-elevated)] transition-shadow"
                 >
-                  <h3 className="text-lg font-semibold mb-2 line-clamp-2">
-                    {set.title}
-                  </h3>
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <h3 className="text-lg font-semibold line-clamp-2">
+                      {set.title}
+                    </h3>
+                    {isContentLanguage(set.language) && (
+                      <Badge variant="outline" className="text-xs flex-shrink-0" lang={contentLang(set.language)}>
+                        {contentLanguageName(set.language, t)}
+                      </Badge>
+                    )}
+                  </div>
                   {set.description && (
                     <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
                       {set.description}
                     </p>
                   )}
                   <div className="flex items-center justify-between text-sm mb-4">
-                    <span className="text-muted-foreground">
-                      {set.flashcards[0]?.count || 0} cards
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {t("common.cardCount", { count: set.flashcards[0]?.count || 0 })}
+                      {offlineIds.has(set.id) && (
+                        <Badge variant="secondary" className="gap-1 text-xs font-normal">
+                          <Download className="w-3 h-3" />
+                          {t("offline.saved")}
+                        </Badge>
+                      )}
                     </span>
                     <span className="text-xs text-muted-foreground">
-                      {new Date(set.created_at).toLocaleDateString()}
+                      {new Date(set.created_at).toLocaleDateString(language)}
                     </span>
                   </div>
                   <div className="flex gap-2">
@@ -220,7 +385,7 @@ const Dashboard = () => {
                       onClick={() => navigate(`/study/${set.id}`)}
                     >
                       <BookOpen className="w-4 h-4 mr-1" />
-                      Study
+                      {t("dashboard.study")}
                     </Button>
                     <Button
                       size="sm"
@@ -228,8 +393,32 @@ const Dashboard = () => {
                       onClick={() => navigate(`/quiz/${set.id}`)}
                     >
                       <Brain className="w-4 h-4 mr-1" />
-                      Quiz
+                      {t("dashboard.quiz")}
                     </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={exportingId === set.id}
+                          aria-label={t("dashboard.export")}
+                        >
+                          <FileDown className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuLabel>{t("dashboard.export")}</DropdownMenuLabel>
+                        {EXPORT_FORMATS.map((format) => (
+                          <DropdownMenuItem key={format} onSelect={() => handleExport(set.id, format)}>
+                            {t(EXPORT_LABELS[format])}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onSelect={() => navigate(`/study/${set.id}/print`)}>
+                          {t("dashboard.print")}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </Card>
               ))}
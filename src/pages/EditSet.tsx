@@ -0,0 +1,356 @@
+import { DragEvent, useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowDown, ArrowLeft, ArrowUp, GripVertical, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+
+interface EditableCard {
+  // Stable React key; new cards have no database id until saved
+  key: string;
+  id: string | null;
+  question: string;
+  answer: string;
+  slide_number: number | null;
+}
+
+const EditSet = () => {
+  const { setId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const { user } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [cards, setCards] = useState<EditableCard[]>([]);
+  const [deletedIds, setDeletedIds] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  // Only the grip handle starts a drag, so text in the fields stays selectable
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [dirty, setDirty] = useState(false);
+
+  useEffect(() => {
+    loadSet();
+  }, [setId]);
+
+  // Warn before leaving the page with unsaved edits
+  useEffect(() => {
+    if (!dirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [dirty]);
+
+  const loadSet = async () => {
+    try {
+      if (!user) return;
+
+      const { data: setData, error: setError } = await supabase
+        .from("flashcard_sets")
+        .select("id, title, description, user_id")
+        .eq("id", setId)
+        .single();
+
+      if (setError) throw setError;
+      if (setData.user_id !== user.id) {
+        toast({
+          title: t("editSet.notAllowed"),
+          description: t("editSet.notAllowedBody"),
+          variant: "destructive",
+        });
+        navigate("/dashboard");
+        return;
+      }
+
+      setTitle(decodeURIComponent(setData.title.replace(/\+/g, " ")));
+      setDescription(setData.description || "");
+
+      const { data: cardsData, error: cardsError } = await supabase
+        .from("flashcards")
+        .select("id, question, answer, slide_number")
+        .eq("set_id", setId)
+        .order("order_index", { ascending: true });
+
+      if (cardsError) throw cardsError;
+      setCards((cardsData || []).map((card) => ({ ...card, key: card.id })));
+      setDeletedIds([]);
+      setDirty(false);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: t("editSet.loadFailed"),
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateCards = (next: EditableCard[]) => {
+    setCards(next);
+    setDirty(true);
+  };
+
+  const updateCard = (index: number, field: "question" | "answer", value: string) => {
+    updateCards(cards.map((card, i) => (i === index ? { ...card, [field]: value } : card)));
+  };
+
+  const addCard = () => {
+    updateCards([
+      ...cards,
+      { key: crypto.randomUUID(), id: null, question: "", answer: "", slide_number: null },
+    ]);
+  };
+
+  const deleteCard = (index: number) => {
+    const card = cards[index];
+    if (card.id) setDeletedIds([...deletedIds, card.id]);
+    updateCards(cards.filter((_, i) => i !== index));
+  };
+
+  const moveCard = (from: number, to: number) => {
+    if (to < 0 || to >= cards.length || from === to) return;
+    const next = [...cards];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    updateCards(next);
+  };
+
+  // Native drag and drop: the dragged card follows the pointer as it passes
+  // over other cards. The arrow buttons cover touch screens, which don't fire
+  // HTML5 drag events.
+  const handleDragOver = (e: DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    moveCard(dragIndex, index);
+    setDragIndex(index);
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      toast({ title: t("editSet.titleRequired"), description: t("editSet.titleRequiredBody"), variant: "destructive" });
+      return;
+    }
+    if (cards.some((card) => !card.question.trim() || !card.answer.trim())) {
+      toast({
+        title: t("editSet.incomplete"),
+        description: t("editSet.incompleteBody"),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: setError } = await supabase
+        .from("flashcard_sets")
+        .update({ title: title.trim(), description: description.trim() || null })
+        .eq("id", setId);
+
+      if (setError) throw setError;
+
+      if (deletedIds.length > 0) {
+        const { error } = await supabase.from("flashcards").delete().in("id", deletedIds);
+        if (error) throw error;
+      }
+
+      const rows = cards.map((card, index) => ({
+        set_id: setId as string,
+        question: card.question.trim(),
+        answer: card.answer.trim(),
+        slide_number: card.slide_number,
+        order_index: index,
+      }));
+
+      const existing = cards
+        .map((card, index) => (card.id ? { ...rows[index], id: card.id } : null))
+        .filter((row) => row !== null);
+      if (existing.length > 0) {
+        const { error } = await supabase.from("flashcards").upsert(existing);
+        if (error) throw error;
+      }
+
+      const added = rows.filter((_, index) => !cards[index].id);
+      if (added.length > 0) {
+        const { error } = await supabase.from("flashcards").insert(added);
+        if (error) throw error;
+      }
+
+      // The stored AI quiz was written from the old cards; the quiz page falls
+      // back to building one from the edited cards until it is regenerated.
+      const { error: quizError } = await supabase.from("quizzes").delete().eq("set_id", setId);
+      if (quizError) throw quizError;
+
+      toast({ title: t("editSet.saved"), description: t("editSet.savedBody") });
+      await loadSet();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: t("editSet.saveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (dirty && !window.confirm(t("editSet.discardConfirm"))) return;
+    navigate(`/study/${setId}`);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <p className="text-muted-foreground">{t("study.loading")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+      <header className="border-b border-border bg-card/50 backdrop-blur sticky top-0 z-10">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex items-center justify-between gap-3">
+          <Button variant="ghost" size="sm" onClick={handleBack} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            <span className="hidden sm:inline">{t("editSet.backToStudy")}</span>
+            <span className="sm:hidden">{t("common.back")}</span>
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving || !dirty} className="gap-2">
+            <Save className="w-4 h-4" />
+            {saving ? t("editSet.saving") : t("editSet.save")}
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="set-title">{t("editSet.title")}</Label>
+                <Input
+                  id="set-title"
+                  value={title}
+                  onChange={(e) => {
+                    setTitle(e.target.value);
+                    setDirty(true);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="set-description">{t("editSet.description")}</Label>
+                <Textarea
+                  id="set-description"
+                  value={description}
+                  rows={2}
+                  onChange={(e) => {
+                    setDescription(e.target.value);
+                    setDirty(true);
+                  }}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg sm:text-xl font-semibold">
+              {cards.length === 1 ? t("editSet.oneCard") : t("common.cardCount", { count: cards.length })}
+            </h2>
+            <p className="text-xs sm:text-sm text-muted-foreground hidden sm:block">{t("editSet.dragHint")}</p>
+          </div>
+
+          <div className="space-y-3">
+            {cards.map((card, index) => (
+              <Card
+                key={card.key}
+                draggable={handleIndex === index}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => handleDragOver(e, index)}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setHandleIndex(null);
+                }}
+                className={dragIndex === index ? "opacity-50" : undefined}
+              >
+                <CardContent className="pt-4 sm:pt-6 flex gap-2 sm:gap-3">
+                  <div className="flex flex-col items-center gap-1 text-muted-foreground">
+                    <GripVertical
+                      className="w-5 h-5 cursor-grab hidden sm:block"
+                      onMouseDown={() => setHandleIndex(index)}
+                      onMouseUp={() => setHandleIndex(null)}
+                    />
+                    <span className="text-xs font-medium">{index + 1}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveCard(index, index - 1)}
+                      disabled={index === 0}
+                      aria-label={t("editSet.moveUp")}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => moveCard(index, index + 1)}
+                      disabled={index === cards.length - 1}
+                      aria-label={t("editSet.moveDown")}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <Textarea
+                      value={card.question}
+                      placeholder={t("editSet.questionPlaceholder")}
+                      rows={2}
+                      onChange={(e) => updateCard(index, "question", e.target.value)}
+                    />
+                    <Textarea
+                      value={card.answer}
+                      placeholder={t("editSet.answerPlaceholder")}
+                      rows={2}
+                      onChange={(e) => updateCard(index, "answer", e.target.value)}
+                    />
+                    {card.slide_number && (
+                      <p className="text-xs text-muted-foreground">{t("study.slide", { number: card.slide_number })}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-destructive hover:text-destructive flex-shrink-0"
+                    onClick={() => deleteCard(index)}
+                    aria-label={t("editSet.deleteCard")}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Button variant="outline" onClick={addCard} className="w-full gap-2">
+            <Plus className="w-4 h-4" />
+            {t("editSet.addCard")}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditSet;
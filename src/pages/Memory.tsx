@@ -0,0 +1,288 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { FlipCard } from "@/components/FlipCard";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowLeft, Brain, CheckCircle, Crown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import type { MessageKey } from "@/i18n";
+import {
+  GRADES,
+  Grade,
+  ReviewState,
+  StoredReview,
+  buildDueQueue,
+  formatInterval,
+  schedule,
+} from "@/lib/srs";
+import { OfflineDeck, getOfflineDeck, listOfflineDecks, updateOfflineReview } from "@/offline/decks";
+import { saveReview } from "@/offline/sync";
+
+interface MemoryCard {
+  id: string;
+  question: string;
+  answer: string;
+  set_id: string;
+  order_index: number;
+  flashcard_sets: { title: string } | null;
+}
+
+const GRADE_STYLES: Record<Grade, { labelKey: MessageKey; className: string }> = {
+  again: { labelKey: "memory.again", className: "border-destructive text-destructive hover:bg-destructive/10" },
+  hard: { labelKey: "memory.hard", className: "border-yellow-500 text-yellow-600 hover:bg-yellow-500/10" },
+  good: { labelKey: "memory.good", className: "border-primary text-primary hover:bg-primary/10" },
+  easy: { labelKey: "memory.easy", className: "border-green-500 text-green-600 hover:bg-green-500/10" },
+};
+
+const Memory = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const setFilter = searchParams.get("set");
+  const { toast } = useToast();
+  const { t } = useI18n();
+
+  const { user, isPremium } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [queue, setQueue] = useState<MemoryCard[]>([]);
+  const [reviews, setReviews] = useState<Record<string, ReviewState>>({});
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [initialCount, setInitialCount] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    if (isPremium) {
+      loadQueue(user.id).finally(() => setLoading(false));
+    } else {
+      setLoading(false);
+    }
+  }, [user?.id, isPremium, setFilter]);
+
+  const showQueue = (cards: MemoryCard[], storedReviews: StoredReview[]) => {
+    const dueQueue = buildDueQueue(cards, storedReviews);
+
+    setReviews(Object.fromEntries(storedReviews.map((review) => [review.flashcard_id, review])));
+    setQueue(dueQueue);
+    setInitialCount(dueQueue.length);
+  };
+
+  const offlineDecks = async (userId: string): Promise<OfflineDeck[]> => {
+    if (!setFilter) return listOfflineDecks(userId);
+    const deck = await getOfflineDeck(setFilter, userId);
+    return deck ? [deck] : [];
+  };
+
+  const loadQueue = async (userId: string) => {
+    try {
+      let cardsQuery = supabase
+        .from("flashcards")
+        .select("id, question, answer, set_id, order_index, flashcard_sets(title)")
+        .order("set_id")
+        .order("order_index", { ascending: true });
+
+      if (setFilter) {
+        cardsQuery = cardsQuery.eq("set_id", setFilter);
+      }
+
+      const { data: cards, error: cardsError } = await cardsQuery;
+      if (cardsError) throw cardsError;
+
+      const { data: reviewData, error: reviewsError } = await supabase
+        .from("card_reviews")
+        .select("flashcard_id, ease_factor, interval_days, repetitions, lapses, due_at, created_at")
+        .eq("user_id", userId);
+
+      if (reviewsError) throw reviewsError;
+
+      showQueue((cards as MemoryCard[]) || [], reviewData || []);
+    } catch (error) {
+      // Without a connection, review the sets saved on this device
+      const decks = await offlineDecks(userId).catch(() => []);
+      if (decks.length > 0) {
+        showQueue(
+          decks.flatMap((deck) =>
+            deck.cards.map((card) => ({ ...card, set_id: deck.id, flashcard_sets: { title: deck.title } }))
+          ),
+          decks.flatMap((deck) => deck.reviews)
+        );
+        return;
+      }
+
+      toast({
+        title: t("common.error"),
+        description: t("memory.loadFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleGrade = async (grade: Grade) => {
+    if (!user || grading) return;
+
+    const card = queue[0];
+    const nextState = schedule(reviews[card.id] ?? null, grade);
+
+    setGrading(true);
+    try {
+      await saveReview({
+        user_id: user.id,
+        flashcard_id: card.id,
+        ...nextState,
+        last_grade: grade,
+        last_reviewed_at: new Date().toISOString(),
+      });
+
+      updateOfflineReview(card.set_id, user.id, card.id, nextState).catch((error) =>
+        console.error("Error updating offline copy:", error)
+      );
+
+      setReviews((current) => ({ ...current, [card.id]: nextState }));
+      // Forgotten cards come back at the end of this session
+      setQueue((current) => (grade === "again" ? [...current.slice(1), card] : current.slice(1)));
+      if (grade !== "again") setReviewedCount((count) => count + 1);
+      setIsFlipped(false);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: t("memory.saveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <p className="text-muted-foreground">{t("memory.loading")}</p>
+      </div>
+    );
+  }
+
+  const header = (
+    <header className="border-b border-border bg-card/50 backdrop-blur">
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex items-center justify-between gap-3">
+        <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+          <span className="sm:hidden">{t("common.back")}</span>
+        </Button>
+        {isPremium && queue.length > 0 && (
+          <p className="text-xs sm:text-sm text-muted-foreground">{t("memory.cardsLeft", { count: queue.length })}</p>
+        )}
+      </div>
+    </header>
+  );
+
+  if (!isPremium) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+        {header}
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="pt-6 sm:pt-8 text-center space-y-4">
+              <Crown className="w-12 h-12 sm:w-16 sm:h-16 mx-auto text-primary" />
+              <h1 className="text-2xl sm:text-3xl font-bold">{t("memory.premiumTitle")}</h1>
+              <p className="text-sm sm:text-base text-muted-foreground">
+                {t("memory.premiumBody")}
+              </p>
+              <Button onClick={() => navigate("/premium")} className="w-full sm:w-auto">
+                <Crown className="w-4 h-4 mr-2" />
+                {t("common.upgradeToPremium")}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+        {header}
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="pt-6 sm:pt-8 text-center space-y-4">
+              <CheckCircle className="w-12 h-12 sm:w-16 sm:h-16 mx-auto text-green-500" />
+              <h1 className="text-2xl sm:text-3xl font-bold">{t("memory.caughtUp")}</h1>
+              <p className="text-sm sm:text-base text-muted-foreground">
+                {reviewedCount > 0
+                  ? t("memory.reviewedBody", { count: reviewedCount })
+                  : t("memory.nothingDue")}
+              </p>
+              <Button onClick={() => navigate("/dashboard")} className="w-full sm:w-auto">
+                {t("common.backToDashboard")}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const currentCard = queue[0];
+  const currentState = reviews[currentCard.id] ?? null;
+  const progress = initialCount > 0 ? Math.min(100, (reviewedCount / initialCount) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+      {header}
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
+        <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
+          <div className="text-center space-y-2 overflow-hidden">
+            <h1 className="text-2xl sm:text-3xl font-bold flex items-center justify-center gap-2">
+              <Brain className="w-6 h-6 sm:w-7 sm:h-7 text-primary" />
+              {t("memory.title")}
+            </h1>
+            <p className="text-xs sm:text-sm text-muted-foreground break-words">
+              {currentCard.flashcard_sets?.title}
+              {!currentState && ` · ${t("memory.newCard")}`}
+            </p>
+            <Progress value={progress} className="h-2" />
+          </div>
+
+          <FlipCard
+            question={currentCard.question}
+            answer={currentCard.answer}
+            isFlipped={isFlipped}
+            onFlip={() => setIsFlipped(!isFlipped)}
+          />
+
+          {isFlipped ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-3">
+              {GRADES.map((grade) => (
+                <Button
+                  key={grade}
+                  variant="outline"
+                  className={`h-auto py-2 flex flex-col ${GRADE_STYLES[grade].className}`}
+                  onClick={() => handleGrade(grade)}
+                  disabled={grading}
+                >
+                  <span className="font-medium">{t(GRADE_STYLES[grade].labelKey)}</span>
+                  <span className="text-xs opacity-75">
+                    {formatInterval(schedule(currentState, grade))}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <Button variant="outline" className="w-full" onClick={() => setIsFlipped(true)}>
+              {t("memory.showAnswer")}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Memory;
@@ -1,82 +1,144 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Upload, Crown, CheckCircle, Clock, XCircle } from "lucide-react";
-import { User } from "@supabase/supabase-js";
+import { ArrowLeft, Upload, Crown, CheckCircle, Clock, XCircle, RefreshCw, AlertCircle, CreditCard, Loader2 } from "lucide-react";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import {
+  PaymentProofError,
+  PaymentStatus,
+  PremiumPlan,
+  REJECTION_REASONS,
+  daysUntil,
+  fetchPaymentStatus,
+  fetchPremiumPlans,
+  hasActivePremium,
+  isRejectionReason,
+  normalizeReference,
+  planName,
+  startCheckout,
+  submitPaymentProof,
+} from "@/lib/premium";
+
+// The provider's webhook usually lands within seconds of the payer returning;
+// stop polling after a minute and let a later visit pick up the result
+const PAYMENT_POLL_INTERVAL_MS = 3000;
+const PAYMENT_POLL_ATTEMPTS = 20;
 
 const Premium = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, t } = useI18n();
+  const [searchParams] = useSearchParams();
+  const paymentRef = searchParams.get("payment");
   
-  const [user, setUser] = useState<User | null>(null);
+  const { user, profile, refresh } = useAuth();
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
   const [file, setFile] = useState<File | null>(null);
-  const [email, setEmail] = useState("");
-  const [username, setUsername] = useState("");
-  const [isPremium, setIsPremium] = useState(false);
+  const [email, setEmail] = useState(user?.email ?? "");
+  const [username, setUsername] = useState(profile?.username ?? "");
+  const [transactionReference, setTransactionReference] = useState("");
+  const [amount, setAmount] = useState("");
+  const [payerName, setPayerName] = useState("");
+  const [renewing, setRenewing] = useState(false);
   const [pendingRequest, setPendingRequest] = useState<any>(null);
+  const [plans, setPlans] = useState<PremiumPlan[]>([]);
+  const [planId, setPlanId] = useState("");
+  const [checkingOut, setCheckingOut] = useState(false);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatus | null>(null);
 
   useEffect(() => {
-    const checkAuth = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      if (!session) {
-        navigate("/auth");
-        return;
-      }
-      setUser(session.user);
-      setEmail(session.user.email || "");
-      
-      // Check premium status
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("username, is_premium")
-        .eq("id", session.user.id)
-        .single();
-      
-      if (profile) {
-        setUsername(profile.username);
-        setIsPremium(profile.is_premium || false);
+    const loadRequests = async () => {
+      if (!user) return;
+
+      let activePlans: PremiumPlan[] = [];
+      try {
+        activePlans = await fetchPremiumPlans();
+        setPlans(activePlans);
+        setPlanId(activePlans[0]?.id ?? "");
+      } catch (error) {
+        console.error("Error loading premium plans:", error);
       }
-      
+
       // Check for pending requests
       const { data: requests } = await supabase
         .from("premium_requests")
         .select("*")
-        .eq("user_id", session.user.id)
+        .eq("user_id", user.id)
         .order("created_at", { ascending: false })
         .limit(1);
       
       if (requests && requests.length > 0) {
-        setPendingRequest(requests[0]);
+        const latest = requests[0];
+        setPendingRequest(latest);
+
+        // A resubmission starts from what was sent last time
+        if (latest.status === "rejected") {
+          setTransactionReference(latest.transaction_reference ?? "");
+          setAmount(latest.amount_etb?.toString() ?? "");
+          setPayerName(latest.payer_name ?? "");
+          if (activePlans.some((plan) => plan.id === latest.plan_id)) {
+            setPlanId(latest.plan_id);
+          }
+        }
       }
       
       setLoading(false);
     };
     
-    checkAuth();
-  }, [navigate]);
+    loadRequests();
+  }, [user?.id]);
+
+  // Back from an online checkout: wait for the payment to be confirmed
+  useEffect(() => {
+    if (!paymentRef || !user) return;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      attempts += 1;
+      const status = await fetchPaymentStatus(paymentRef).catch(() => null);
+      setPaymentStatus(status);
+
+      if (status === "succeeded") {
+        await refresh();
+        setRenewing(false);
+        toast({
+          title: t("premium.paymentSucceeded"),
+          description: t("premium.paymentSucceededBody"),
+        });
+      } else if (status === "pending" && attempts < PAYMENT_POLL_ATTEMPTS) {
+        timer = setTimeout(poll, PAYMENT_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+    return () => clearTimeout(timer);
+  }, [paymentRef, user?.id]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       if (!selectedFile.type.startsWith("image/")) {
         toast({
-          title: "Invalid File",
-          description: "Please upload an image file (screenshot)",
+          title: t("premium.invalidFile"),
+          description: t("premium.invalidFileBody"),
           variant: "destructive",
         });
         return;
       }
       if (selectedFile.size > 5 * 1024 * 1024) {
         toast({
-          title: "File Too Large",
-          description: "Maximum file size is 5MB",
+          title: t("upload.tooLarge"),
+          description: t("premium.tooLargeBody"),
           variant: "destructive",
         });
         return;
@@ -87,10 +149,20 @@ const Premium = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!file || !user || !email || !username) {
+    const paidAmount = Number(amount);
+    if (
+      !file ||
+      !user ||
+      !email ||
+      !username ||
+      !planId ||
+      !transactionReference.trim() ||
+      !payerName.trim() ||
+      !(paidAmount > 0)
+    ) {
       toast({
-        title: "Missing Information",
-        description: "Please fill all fields and upload a screenshot",
+        title: t("premium.missingInfo"),
+        description: t("premium.missingInfoBody"),
         variant: "destructive",
       });
       return;
@@ -108,33 +180,32 @@ const Premium = () => {
       
       if (uploadError) throw uploadError;
       
-      const { data: urlData } = supabase.storage
-        .from("payment-screenshots")
-        .getPublicUrl(filePath);
-      
       // Create premium request
-      const { error: insertError } = await supabase
-        .from("premium_requests")
-        .insert({
-          user_id: user.id,
-          email,
-          username,
-          screenshot_url: filePath,
-        });
-      
-      if (insertError) throw insertError;
+      await submitPaymentProof({
+        screenshotPath: filePath,
+        planId,
+        email,
+        username,
+        transactionReference: normalizeReference(transactionReference),
+        amount: paidAmount,
+        payerName: payerName.trim(),
+        resubmissionOf: pendingRequest?.status === "rejected" ? pendingRequest.id : null,
+      });
       
       toast({
-        title: "Request Submitted!",
-        description: "Your premium request is being reviewed by admin.",
+        title: t("premium.submitted"),
+        description: t("premium.submittedBody"),
       });
       
       // Refresh to show pending status
       window.location.reload();
     } catch (error: any) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to submit request",
+        title: t("common.error"),
+        description:
+          error instanceof PaymentProofError
+            ? t(error.messageKey)
+            : error.message || t("premium.submitFailed"),
         variant: "destructive",
       });
     } finally {
@@ -142,22 +213,114 @@ const Premium = () => {
     }
   };
 
+  const handleCheckout = async () => {
+    if (!planId) return;
+
+    setCheckingOut(true);
+    try {
+      window.location.assign(await startCheckout(planId));
+    } catch (error) {
+      console.error("Error starting checkout:", error);
+      toast({
+        title: t("common.error"),
+        description: t("premium.checkoutFailed"),
+        variant: "destructive",
+      });
+      setCheckingOut(false);
+    }
+  };
+
+  // The subscription itself; admins get premium features without one
+  const isPremium = hasActivePremium(profile);
+  const expiresAt = profile?.premium_expires_at ?? null;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
-        <p className="text-muted-foreground">Loading...</p>
+        <p className="text-muted-foreground">{t("common.loading")}</p>
       </div>
     );
   }
 
+  const expiryLabel = (date: string) => {
+    const days = daysUntil(date);
+    const formatted = new Date(date).toLocaleDateString(language);
+    if (days === 0) return t("premium.expiresToday", { date: formatted });
+    if (days === 1) return t("premium.expiresInOneDay", { date: formatted });
+    return t("premium.expiresIn", { count: days, date: formatted });
+  };
+
+  const pendingCard = pendingRequest && (
+    <Card className="border-yellow-500">
+      <CardContent className="pt-6 text-center">
+        <Clock className="w-12 h-12 mx-auto text-yellow-500 mb-4" />
+        <h2 className="text-2xl font-bold text-yellow-500 mb-2">{t("premium.pending")}</h2>
+        <p className="text-muted-foreground">
+          {t("premium.pendingBody")}
+        </p>
+        <p className="text-sm text-muted-foreground mt-2">
+          {t("premium.submittedOn", { date: new Date(pendingRequest.created_at).toLocaleDateString(language) })}
+        </p>
+      </CardContent>
+    </Card>
+  );
+
+  const rejectedCard = pendingRequest?.status === "rejected" && (
+    <Card className="border-destructive">
+      <CardContent className="pt-6 text-center">
+        <XCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+        <h2 className="text-2xl font-bold text-destructive mb-2">{t("premium.rejected")}</h2>
+        {isRejectionReason(pendingRequest.rejection_reason) ? (
+          <>
+            <p className="font-medium mb-2">{t(REJECTION_REASONS[pendingRequest.rejection_reason])}</p>
+            {pendingRequest.admin_notes && (
+              <p className="text-muted-foreground mb-2">
+                {t("premium.reviewerNote", { note: pendingRequest.admin_notes })}
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-muted-foreground mb-2">
+            {pendingRequest.admin_notes || t("premium.rejectedBody")}
+          </p>
+        )}
+        <p className="text-sm text-muted-foreground">{t("premium.resubmitHint")}</p>
+      </CardContent>
+    </Card>
+  );
+
+  const paymentForm = (
+    <PaymentForm
+      plans={plans}
+      planId={planId}
+      setPlanId={setPlanId}
+      handleCheckout={handleCheckout}
+      checkingOut={checkingOut}
+      email={email}
+      setEmail={setEmail}
+      username={username}
+      setUsername={setUsername}
+      transactionReference={transactionReference}
+      setTransactionReference={setTransactionReference}
+      amount={amount}
+      setAmount={setAmount}
+      payerName={payerName}
+      setPayerName={setPayerName}
+      file={file}
+      handleFileChange={handleFileChange}
+      handleSubmit={handleSubmit}
+      uploading={uploading}
+    />
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
       <header className="border-b border-border bg-card/50 backdrop-blur">
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4">
           <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="gap-2">
             <ArrowLeft className="w-4 h-4" />
-            <span className="hidden sm:inline">Back to Dashboard</span>
-            <span className="sm:hidden">Back</span>
+            <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+            <span className="sm:hidden">{t("common.back")}</span>
           </Button>
         </div>
       </header>
@@ -166,91 +329,105 @@ const Premium = () => {
         <div className="max-w-2xl mx-auto space-y-6 sm:space-y-8">
           <div className="text-center">
             <Crown className="w-12 h-12 sm:w-16 sm:h-16 mx-auto text-primary mb-3 sm:mb-4" />
-            <h1 className="text-3xl sm:text-4xl font-bold mb-2">Premium Access</h1>
+            <h1 className="text-3xl sm:text-4xl font-bold mb-2">{t("premium.title")}</h1>
             <p className="text-sm sm:text-base text-muted-foreground">
-              Unlock unlimited flashcard generation and Memory Mode
+              {t("premium.subtitle")}
             </p>
           </div>
 
-          {isPremium ? (
-            <Card className="border-primary">
+          {paymentStatus === "pending" && (
+            <Card className="border-primary/50">
               <CardContent className="pt-6 text-center">
-                <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
-                <h2 className="text-2xl font-bold text-green-500 mb-2">You're Premium!</h2>
-                <p className="text-muted-foreground">
-                  Enjoy unlimited flashcard generation and all premium features.
-                </p>
+                <Loader2 className="w-12 h-12 mx-auto text-primary mb-4 animate-spin" />
+                <h2 className="text-2xl font-bold mb-2">{t("premium.paymentConfirming")}</h2>
+                <p className="text-muted-foreground">{t("premium.paymentConfirmingBody")}</p>
               </CardContent>
             </Card>
-          ) : pendingRequest?.status === "pending" ? (
-            <Card className="border-yellow-500">
+          )}
+
+          {paymentStatus === "failed" && (
+            <Card className="border-destructive">
               <CardContent className="pt-6 text-center">
-                <Clock className="w-12 h-12 mx-auto text-yellow-500 mb-4" />
-                <h2 className="text-2xl font-bold text-yellow-500 mb-2">Request Pending</h2>
-                <p className="text-muted-foreground">
-                  Your payment is being verified by admin. Please wait.
-                </p>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Submitted: {new Date(pendingRequest.created_at).toLocaleDateString()}
-                </p>
+                <XCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
+                <h2 className="text-2xl font-bold text-destructive mb-2">{t("premium.paymentFailed")}</h2>
+                <p className="text-muted-foreground">{t("premium.paymentFailedBody")}</p>
               </CardContent>
             </Card>
-          ) : pendingRequest?.status === "rejected" ? (
+          )}
+
+          {isPremium ? (
             <>
-              <Card className="border-destructive">
+              <Card className="border-primary">
                 <CardContent className="pt-6 text-center">
-                  <XCircle className="w-12 h-12 mx-auto text-destructive mb-4" />
-                  <h2 className="text-2xl font-bold text-destructive mb-2">Request Rejected</h2>
-                  <p className="text-muted-foreground mb-2">
-                    {pendingRequest.admin_notes || "Your payment could not be verified. Please try again."}
+                  <CheckCircle className="w-12 h-12 mx-auto text-green-500 mb-4" />
+                  <h2 className="text-2xl font-bold text-green-500 mb-2">{t("premium.active")}</h2>
+                  <p className="text-muted-foreground">
+                    {t("premium.activeBody")}
                   </p>
+                  {expiresAt && (
+                    <p className="text-sm font-medium mt-3">{expiryLabel(expiresAt)}</p>
+                  )}
                 </CardContent>
               </Card>
-              <PaymentForm
-                email={email}
-                setEmail={setEmail}
-                username={username}
-                setUsername={setUsername}
-                file={file}
-                handleFileChange={handleFileChange}
-                handleSubmit={handleSubmit}
-                uploading={uploading}
-              />
+              {rejectedCard}
+              {/* Accounts without an expiry date have nothing to renew */}
+              {expiresAt &&
+                (pendingRequest?.status === "pending" ? (
+                  pendingCard
+                ) : renewing ? (
+                  <>
+                    <p className="text-sm text-muted-foreground text-center">{t("premium.renewBody")}</p>
+                    {paymentForm}
+                  </>
+                ) : (
+                  <Button variant="outline" className="w-full gap-2" onClick={() => setRenewing(true)}>
+                    <RefreshCw className="w-4 h-4" />
+                    {t("premium.renew")}
+                  </Button>
+                ))}
             </>
+          ) : pendingRequest?.status === "pending" ? (
+            pendingCard
           ) : (
-            <PaymentForm
-              email={email}
-              setEmail={setEmail}
-              username={username}
-              setUsername={setUsername}
-              file={file}
-              handleFileChange={handleFileChange}
-              handleSubmit={handleSubmit}
-              uploading={uploading}
-            />
+            <>
+              {rejectedCard || (
+                expiresAt && (
+                  <Card className="border-amber-500">
+                    <CardContent className="pt-6 text-center">
+                      <AlertCircle className="w-12 h-12 mx-auto text-amber-500 mb-4" />
+                      <h2 className="text-2xl font-bold text-amber-500 mb-2">{t("premium.expired")}</h2>
+                      <p className="text-muted-foreground">
+                        {t("premium.expiredBody", { date: new Date(expiresAt).toLocaleDateString(language) })}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )
+              )}
+              {paymentForm}
+            </>
           )}
 
           {/* Premium Benefits */}
           <Card>
             <CardHeader>
-              <CardTitle>Premium Benefits</CardTitle>
+              <CardTitle>{t("premium.benefits")}</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-primary" />
-                <span>Unlimited flashcard generation</span>
+                <span>{t("premium.benefitUnlimited")}</span>
               </div>
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-primary" />
-                <span>Memory Mode (Spaced Repetition)</span>
+                <span>{t("premium.benefitMemory")}</span>
               </div>
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-primary" />
-                <span>Quiz Mode with auto-generated questions</span>
+                <span>{t("premium.benefitQuiz")}</span>
               </div>
               <div className="flex items-center gap-3">
                 <CheckCircle className="w-5 h-5 text-primary" />
-                <span>Priority support</span>
+                <span>{t("premium.benefitSupport")}</span>
               </div>
             </CardContent>
           </Card>
@@ -261,10 +438,21 @@ const Premium = () => {
 };
 
 interface PaymentFormProps {
+  plans: PremiumPlan[];
+  planId: string;
+  setPlanId: (value: string) => void;
+  handleCheckout: () => void;
+  checkingOut: boolean;
   email: string;
   setEmail: (value: string) => void;
   username: string;
   setUsername: (value: string) => void;
+  transactionReference: string;
+  setTransactionReference: (value: string) => void;
+  amount: string;
+  setAmount: (value: string) => void;
+  payerName: string;
+  setPayerName: (value: string) => void;
   file: File | null;
   handleFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   handleSubmit: (e: React.FormEvent) => void;
@@ -272,105 +460,194 @@ interface PaymentFormProps {
 }
 
 const PaymentForm = ({
+  plans,
+  planId,
+  setPlanId,
+  handleCheckout,
+  checkingOut,
   email,
   setEmail,
   username,
   setUsername,
+  transactionReference,
+  setTransactionReference,
+  amount,
+  setAmount,
+  payerName,
+  setPayerName,
   file,
   handleFileChange,
   handleSubmit,
   uploading,
-}: PaymentFormProps) => (
-  <>
-    <Card className="border-primary/50">
-      <CardHeader>
-        <CardTitle>Payment Information</CardTitle>
-        <CardDescription>Send 100 Birr/month to activate premium</CardDescription>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        <div className="p-4 bg-primary/10 rounded-lg border border-primary/20">
-          <p className="font-bold text-lg">CBE Account Number:</p>
-          <p className="text-2xl font-mono text-primary">1000723323529</p>
-          <p className="text-sm text-muted-foreground mt-2">
-            Commercial Bank of Ethiopia
-          </p>
-        </div>
-        <p className="text-sm text-muted-foreground">
-          After sending payment, upload your screenshot below.
-        </p>
-      </CardContent>
-    </Card>
+}: PaymentFormProps) => {
+  const { t } = useI18n();
 
-    <Card>
-      <CardHeader>
-        <CardTitle>Submit Payment Proof</CardTitle>
-        <CardDescription>
-          Upload your payment screenshot and verify your details
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
+  return (
+    <>
+      <Card className="border-primary/50">
+        <CardHeader>
+          <CardTitle>{t("premium.paymentInfo")}</CardTitle>
+          <CardDescription>{t("premium.paymentInfoBody")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RadioGroup value={planId} onValueChange={setPlanId} className="gap-3">
+            {plans.map((plan) => (
+              <Label
+                key={plan.id}
+                htmlFor={`plan-${plan.id}`}
+                className={`flex items-center gap-3 rounded-lg border p-4 cursor-pointer ${
+                  plan.id === planId ? "border-primary bg-primary/5" : "border-border"
+                }`}
+              >
+                <RadioGroupItem id={`plan-${plan.id}`} value={plan.id} />
+                <div className="flex-1">
+                  <p className="font-semibold">{planName(plan, t)}</p>
+                  <p className="text-sm text-muted-foreground font-normal">
+                    {t("premium.planDuration", { days: plan.duration_days })}
+                  </p>
+                </div>
+                <p className="text-lg font-bold">{t("premium.planPrice", { price: plan.price_etb })}</p>
+              </Label>
+            ))}
+          </RadioGroup>
           <div className="space-y-2">
-            <Label htmlFor="email">Email Address</Label>
-            <Input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="your@email.com"
-              required
-            />
+            <Button className="w-full gap-2" onClick={handleCheckout} disabled={checkingOut || !planId}>
+              {checkingOut ? <Loader2 className="w-4 h-4 animate-spin" /> : <CreditCard className="w-4 h-4" />}
+              {t("premium.payOnline")}
+            </Button>
+            <p className="text-sm text-muted-foreground text-center">{t("premium.payOnlineHint")}</p>
           </div>
-          
-          <div className="space-y-2">
-            <Label htmlFor="username">Username</Label>
-            <Input
-              id="username"
-              type="text"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="Your username"
-              required
-            />
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <div className="h-px flex-1 bg-border" />
+            {t("premium.orBankTransfer")}
+            <div className="h-px flex-1 bg-border" />
           </div>
+          <div className="p-4 bg-primary/10 rounded-lg border border-primary/20">
+            <p className="font-bold text-lg">{t("premium.accountNumber")}</p>
+            <p className="text-2xl font-mono text-primary">1000723323529</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              {t("premium.bankName")}
+            </p>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {t("premium.afterPayment")}
+          </p>
+        </CardContent>
+      </Card>
 
-          <div className="space-y-2">
-            <Label htmlFor="screenshot">Payment Screenshot</Label>
-            <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
-              <input
-                id="screenshot"
-                type="file"
-                accept="image/*"
-                onChange={handleFileChange}
-                className="hidden"
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("premium.submitProof")}</CardTitle>
+          <CardDescription>
+            {t("premium.submitProofBody")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">{t("premium.emailAddress")}</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="your@email.com"
+                required
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="username">{t("premium.username")}</Label>
+              <Input
+                id="username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder={t("premium.usernamePlaceholder")}
+                required
               />
-              <label
-                htmlFor="screenshot"
-                className="cursor-pointer flex flex-col items-center gap-2"
-              >
-                <Upload className="w-8 h-8 text-muted-foreground" />
-                {file ? (
-                  <span className="text-primary font-medium">{file.name}</span>
-                ) : (
-                  <span className="text-muted-foreground">
-                    Click to upload payment screenshot
-                  </span>
-                )}
-              </label>
             </div>
-          </div>
 
-          <Button
-            type="submit"
-            className="w-full"
-            disabled={uploading || !file}
-          >
-            {uploading ? "Submitting..." : "Submit Payment Request"}
-          </Button>
-        </form>
-      </CardContent>
-    </Card>
-  </>
-);
+            <div className="space-y-2">
+              <Label htmlFor="transaction-reference">{t("premium.transactionReference")}</Label>
+              <Input
+                id="transaction-reference"
+                type="text"
+                value={transactionReference}
+                onChange={(e) => setTransactionReference(e.target.value)}
+                placeholder="FT24123ABCDE"
+                autoComplete="off"
+                required
+              />
+              <p className="text-xs text-muted-foreground">{t("premium.transactionReferenceHint")}</p>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amount">{t("premium.amountPaid")}</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  inputMode="decimal"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={String(plans.find((plan) => plan.id === planId)?.price_etb ?? "")}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payer-name">{t("premium.payerName")}</Label>
+                <Input
+                  id="payer-name"
+                  type="text"
+                  value={payerName}
+                  onChange={(e) => setPayerName(e.target.value)}
+                  placeholder={t("premium.payerNamePlaceholder")}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="screenshot">{t("premium.screenshot")}</Label>
+              <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
+                <input
+                  id="screenshot"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFileChange}
+                  className="hidden"
+                />
+                <label
+                  htmlFor="screenshot"
+                  className="cursor-pointer flex flex-col items-center gap-2"
+                >
+                  <Upload className="w-8 h-8 text-muted-foreground" />
+                  {file ? (
+                    <span className="text-primary font-medium">{file.name}</span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {t("premium.screenshotPrompt")}
+                    </span>
+                  )}
+                </label>
+              </div>
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={uploading || !file || !planId}
+            >
+              {uploading ? t("premium.submitting") : t("premium.submit")}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </>
+  );
+};
 
 export default Premium;
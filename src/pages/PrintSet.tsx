@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { ContentLanguage, contentLang, isContentLanguage } from "@/lib/languages";
+import { getOfflineDeck } from "@/offline/decks";
+
+interface PrintCard {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+interface PrintableSet {
+  title: string;
+  language: ContentLanguage;
+}
+
+type Layout = "cards" | "sheet";
+
+// Cut-out cards per A4 sheet: two columns of four
+const COLUMNS = 2;
+const CARDS_PER_PAGE = 8;
+
+interface CardSlot {
+  card: PrintCard;
+  number: number;
+}
+
+// Fronts and backs alternate so a duplex printer puts each answer behind its
+// question. Flipping on the long edge swaps left and right, so the back page
+// lists every row in reverse. The last sheet is padded with empty slots to
+// keep the positions lined up.
+function duplexPages(cards: PrintCard[]) {
+  const pages: { side: "front" | "back"; slots: (CardSlot | null)[] }[] = [];
+
+  for (let start = 0; start < cards.length; start += CARDS_PER_PAGE) {
+    const front: (CardSlot | null)[] = Array.from({ length: CARDS_PER_PAGE }, (_, i) => {
+      const card = cards[start + i];
+      return card ? { card, number: start + i + 1 } : null;
+    });
+
+    const back: (CardSlot | null)[] = [];
+    for (let row = 0; row < CARDS_PER_PAGE; row += COLUMNS) {
+      back.push(...front.slice(row, row + COLUMNS).reverse());
+    }
+
+    pages.push({ side: "front", slots: front }, { side: "back", slots: back });
+  }
+
+  return pages;
+}
+
+// Long text gets a smaller size so it still fits on the card
+const cardTextSize = (text: string) =>
+  text.length > 280 ? "text-[9pt]" : text.length > 120 ? "text-[11pt]" : "text-[13pt]";
+
+const PrintSet = () => {
+  const { setId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const layout: Layout = searchParams.get("layout") === "sheet" ? "sheet" : "cards";
+
+  const [set, setSet] = useState<PrintableSet | null>(null);
+  const [cards, setCards] = useState<PrintCard[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSet();
+  }, [setId]);
+
+  // Browsers suggest the page title as the PDF file name
+  useEffect(() => {
+    if (!set) return;
+    const previousTitle = document.title;
+    document.title = set.title;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [set]);
+
+  const showSet = (title: string, language: string, printCards: PrintCard[]) => {
+    setSet({
+      title: decodeURIComponent(title.replace(/\+/g, " ")),
+      language: isContentLanguage(language) ? language : "en",
+    });
+    setCards(printCards);
+  };
+
+  const loadSet = async () => {
+    try {
+      const { data: setData, error: setError } = await supabase
+        .from("flashcard_sets")
+        .select("title, language")
+        .eq("id", setId)
+        .single();
+
+      if (setError) throw setError;
+
+      const { data: cardsData, error: cardsError } = await supabase
+        .from("flashcards")
+        .select("id, question, answer")
+        .eq("set_id", setId)
+        .order("order_index", { ascending: true });
+
+      if (cardsError) throw cardsError;
+      showSet(setData.title, setData.language, cardsData || []);
+    } catch (error) {
+      const offlineDeck = setId && user ? await getOfflineDeck(setId, user.id).catch(() => undefined) : undefined;
+      if (offlineDeck) {
+        showSet(offlineDeck.title, offlineDeck.language, offlineDeck.cards);
+        return;
+      }
+
+      console.error("Error loading set for printing:", error);
+      toast({
+        title: t("common.error"),
+        description: t("study.loadFailed"),
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    // Wait for the Ge'ez web font, or the first print can fall back to a
+    // system face that lacks the glyphs
+    await document.fonts.ready;
+    window.print();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <p className="text-muted-foreground">{t("study.loading")}</p>
+      </div>
+    );
+  }
+
+  if (!set || cards.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <Card className="p-8 text-center">
+          <p className="text-muted-foreground mb-4">{t("study.empty")}</p>
+          <Button onClick={() => navigate("/dashboard")}>{t("common.backToDashboard")}</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const lang = contentLang(set.language);
+  // Bilingual sets mix Latin and Ge'ez; the Ge'ez face covers both
+  const fontClass = set.language === "bilingual" ? "font-ethiopic" : "";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary print:bg-none print:bg-white">
+      <header className="border-b border-border bg-card/50 backdrop-blur print:hidden">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex flex-wrap items-center justify-between gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/study/${setId}`)} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <Tabs
+              value={layout}
+              onValueChange={(value) => setSearchParams(value === "sheet" ? { layout: "sheet" } : {}, { replace: true })}
+            >
+              <TabsList>
+                <TabsTrigger value="cards">{t("print.cards")}</TabsTrigger>
+                <TabsTrigger value="sheet">{t("print.sheet")}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Button size="sm" onClick={handlePrint} className="gap-2">
+              <Printer className="w-4 h-4" />
+              {t("print.print")}
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-6 text-center text-sm text-muted-foreground space-y-1 print:hidden">
+        <p>{layout === "cards" ? t("print.cardsHint") : t("print.sheetHint")}</p>
+        <p>{t("print.pdfHint")}</p>
+      </div>
+
+      <div className={`overflow-x-auto pb-12 print:overflow-visible print:p-0 ${fontClass}`} lang={lang}>
+        {layout === "cards" ? (
+          duplexPages(cards).map((page, pageIndex) => (
+            <div key={pageIndex} className="print-page grid grid-cols-[repeat(2,95mm)] grid-rows-[repeat(4,68mm)]">
+              {page.slots.map((slot, slotIndex) => (
+                <div
+                  key={slotIndex}
+                  className="relative flex items-center justify-center p-[6mm] border border-dashed border-gray-400 overflow-hidden"
+                >
+                  {slot && (
+                    <>
+                      <span className="absolute top-[2mm] left-[3mm] text-[7pt] text-gray-500">
+                        {page.side === "front" ? "Q" : "A"}
+                        {slot.number}
+                      </span>
+                      <p
+                        className={`text-center whitespace-pre-wrap break-words ${cardTextSize(
+                          page.side === "front" ? slot.card.question : slot.card.answer
+                        )} ${page.side === "front" ? "font-semibold" : ""}`}
+                      >
+                        {page.side === "front" ? slot.card.question : slot.card.answer}
+                      </p>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))
+        ) : (
+          <div className="print-page print-page-flow">
+            <h1 className="text-[16pt] font-bold mb-[2mm] break-words">{set.title}</h1>
+            <p className="text-[9pt] text-gray-500 mb-[5mm]">{t("common.cardCount", { count: cards.length })}</p>
+            <table className="w-full border-collapse text-[10pt]">
+              <thead>
+                <tr className="border-b-2 border-gray-800 text-left">
+                  <th className="w-[8mm] py-[1.5mm] pr-[2mm] font-semibold" />
+                  <th className="w-1/2 py-[1.5mm] pr-[4mm] font-semibold">{t("editSet.questionPlaceholder")}</th>
+                  <th className="w-1/2 py-[1.5mm] font-semibold">{t("editSet.answerPlaceholder")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {cards.map((card, index) => (
+                  <tr key={card.id} className="border-b border-gray-300 align-top break-inside-avoid">
+                    <td className="py-[1.5mm] pr-[2mm] text-gray-500">{index + 1}</td>
+                    <td className="py-[1.5mm] pr-[4mm] font-medium whitespace-pre-wrap break-words">
+                      {card.question}
+                    </td>
+                    <td className="py-[1.5mm] whitespace-pre-wrap break-words">{card.answer}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintSet;
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { ArrowLeft, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { contentLang, contentLanguageName, isContentLanguage } from "@/lib/languages";
+import { PublicSetSummary, listPublicSets } from "@/lib/sharing";
+
+// Sets their owners made public, newest first
+const PublicSets = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { language, t } = useI18n();
+  const { user } = useAuth();
+
+  const [sets, setSets] = useState<PublicSetSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadSets();
+  }, []);
+
+  const loadSets = async (query?: string) => {
+    setLoading(true);
+    try {
+      setSets(await listPublicSets(query));
+    } catch (error) {
+      console.error("Error loading public sets:", error);
+      toast({
+        title: t("common.error"),
+        description: t("share.browseFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadSets(search.trim());
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex items-center justify-between gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate(user ? "/dashboard" : "/")} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            {user ? t("common.backToDashboard") : t("common.back")}
+          </Button>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="mb-6 sm:mb-8 space-y-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold mb-1">{t("share.browseTitle")}</h1>
+            <p className="text-sm sm:text-base text-muted-foreground">{t("share.browseSubtitle")}</p>
+          </div>
+          <form onSubmit={handleSearch} className="flex gap-2 max-w-md">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t("share.searchPlaceholder")}
+              aria-label={t("share.searchPlaceholder")}
+            />
+            <Button type="submit" variant="outline" size="icon" aria-label={t("share.search")}>
+              <Search className="w-4 h-4" />
+            </Button>
+          </form>
+        </div>
+
+        {loading ? (
+          <p className="text-muted-foreground text-center py-12">{t("common.loading")}</p>
+        ) : sets.length === 0 ? (
+          <Card className="p-8 sm:p-12 text-center">
+            <p className="text-muted-foreground">{t("share.browseEmpty")}</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+            {sets.map((set) => (
+              <Link key={set.share_token} to={`/shared/${set.share_token}`}>
+                <Card className="p-6 h-full hover:shadow-[var(--shadow-elevated)] transition-shadow">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <h3 className="text-lg font-semibold line-clamp-2">{set.title}</h3>
+                    {isContentLanguage(set.language) && (
+                      <Badge variant="outline" className="text-xs flex-shrink-0" lang={contentLang(set.language)}>
+                        {contentLanguageName(set.language, t)}
+                      </Badge>
+                    )}
+                  </div>
+                  {set.description && (
+                    <p className="text-sm text-muted-foreground mb-4 line-clamp-2">{set.description}</p>
+                  )}
+                  <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                    <span>
+                      {set.author ? `${t("share.by", { author: set.author })} · ` : ""}
+                      {t("common.cardCount", { count: set.card_count })}
+                    </span>
+                    <span className="text-xs">{new Date(set.created_at).toLocaleDateString(language)}</span>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PublicSets;
@@ -1,57 +1,119 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
-import { ArrowLeft, CheckCircle, XCircle, Trophy } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+import { ArrowLeft, Trophy, History, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { ContentLanguage, contentLang, isContentLanguage } from "@/lib/languages";
+import { OfflineDeck, getOfflineDeck } from "@/offline/decks";
+import { saveQuizAttempt } from "@/offline/sync";
+import { QuestionView } from "@/components/quiz/QuestionView";
+import {
+  QUESTION_TYPE_LABELS,
+  QuizQuestion,
+  QuizResponse,
+  buildMixedQuiz,
+  gradeResponse,
+  parseQuestions,
+  shuffle,
+} from "@/lib/quiz";
 
-interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
-}
-
-interface Flashcard {
-  question: string;
-  answer: string;
+interface QuizAnswer {
+  questionIndex: number;
+  response: QuizResponse;
+  correct: boolean;
 }
 
 const Quiz = () => {
   const { setId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { t } = useI18n();
+  const { user } = useAuth();
 
   const [loading, setLoading] = useState(true);
   const [setTitle, setSetTitle] = useState("");
+  const [setLanguage, setSetLanguage] = useState<ContentLanguage>("en");
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
-  const [showResult, setShowResult] = useState(false);
+  const [response, setResponse] = useState<QuizResponse | null>(null);
   const [score, setScore] = useState(0);
   const [answered, setAnswered] = useState(false);
   const [quizComplete, setQuizComplete] = useState(false);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [quizId, setQuizId] = useState<string | null>(null);
+  const [generatingAi, setGeneratingAi] = useState(false);
+  const startedAt = useRef(new Date());
 
   useEffect(() => {
     generateQuiz();
   }, [setId]);
 
+  const startQuiz = (title: string, language: string, quizQuestions: QuizQuestion[], storedQuizId: string | null) => {
+    // Decode URL-encoded characters and replace + with spaces
+    setSetTitle(decodeURIComponent(title.replace(/\+/g, ' ')));
+    setSetLanguage(isContentLanguage(language) ? language : "en");
+    setQuestions(quizQuestions);
+    setQuizId(storedQuizId);
+    startedAt.current = new Date();
+  };
+
+  const notEnoughCards = () => {
+    toast({
+      title: t("quiz.notEnoughCards"),
+      description: t("quiz.notEnoughCardsBody"),
+      variant: "destructive",
+    });
+    navigate("/dashboard");
+  };
+
+  // Without a connection, quiz from the copy saved on this device
+  const startOfflineQuiz = (deck: OfflineDeck) => {
+    if (deck.quiz) {
+      startQuiz(deck.title, deck.language, shuffle(deck.quiz.questions), deck.quiz.id);
+    } else if (deck.cards.length >= 4) {
+      startQuiz(deck.title, deck.language, buildMixedQuiz(deck.cards, t), null);
+    } else {
+      notEnoughCards();
+    }
+  };
+
   const generateQuiz = async () => {
     try {
       // Get flashcard set
       const { data: setData, error: setError } = await supabase
         .from("flashcard_sets")
-        .select("title")
+        .select("title, language")
         .eq("id", setId)
         .single();
 
       if (setError) throw setError;
-      // Decode URL-encoded characters and replace + with spaces
-      const decodedTitle = decodeURIComponent(setData.title.replace(/\+/g, ' '));
-      setSetTitle(decodedTitle);
 
-      // Get flashcards
+      // Prefer the latest AI-generated quiz stored for this set
+      const { data: storedQuizzes, error: quizError } = await supabase
+        .from("quizzes")
+        .select("id, questions")
+        .eq("set_id", setId)
+        .order("created_at", { ascending: false })
+        .limit(1);
+
+      if (quizError) throw quizError;
+
+      const storedQuiz = storedQuizzes?.[0];
+      const storedQuestions = parseQuestions(storedQuiz?.questions);
+
+      if (storedQuiz && storedQuestions.length > 0) {
+        startQuiz(setData.title, setData.language, shuffle(storedQuestions), storedQuiz.id);
+        return;
+      }
+
+      // Fall back to building questions from the cards themselves
       const { data: flashcards, error: cardsError } = await supabase
         .from("flashcards")
         .select("question, answer")
@@ -60,22 +122,22 @@ const Quiz = () => {
       if (cardsError) throw cardsError;
 
       if (!flashcards || flashcards.length < 4) {
-        toast({
-          title: "Not Enough Cards",
-          description: "Need at least 4 flashcards to generate a quiz",
-          variant: "destructive",
-        });
-        navigate("/dashboard");
+        notEnoughCards();
         return;
       }
 
-      // Generate quiz questions from flashcards
-      const generatedQuestions = generateQuestionsFromFlashcards(flashcards);
-      setQuestions(generatedQuestions);
+      // Generate a mix of question types from the flashcards
+      startQuiz(setData.title, setData.language, buildMixedQuiz(flashcards, t), null);
     } catch (error: any) {
+      const offlineDeck = setId && user ? await getOfflineDeck(setId, user.id).catch(() => undefined) : undefined;
+      if (offlineDeck) {
+        startOfflineQuiz(offlineDeck);
+        return;
+      }
+
       toast({
-        title: "Error",
-        description: "Failed to generate quiz",
+        title: t("common.error"),
+        description: t("quiz.generateFailed"),
         variant: "destructive",
       });
       navigate("/dashboard");
@@ -84,68 +146,109 @@ const Quiz = () => {
     }
   };
 
-  const generateQuestionsFromFlashcards = (flashcards: Flashcard[]): QuizQuestion[] => {
-    const shuffled = [...flashcards].sort(() => Math.random() - 0.5);
-    const numQuestions = Math.min(10, flashcards.length);
-
-    return shuffled.slice(0, numQuestions).map((card, index) => {
-      // Get wrong answers from other cards
-      const otherAnswers = flashcards
-        .filter((f) => f.answer !== card.answer)
-        .map((f) => f.answer)
-        .sort(() => Math.random() - 0.5)
-        .slice(0, 3);
-
-      // Create options array with correct answer
-      const options = [...otherAnswers, card.answer].sort(() => Math.random() - 0.5);
-      const correctAnswer = options.indexOf(card.answer);
-
-      return {
-        question: card.question,
-        options,
-        correctAnswer,
-      };
-    });
-  };
-
-  const handleAnswer = (index: number) => {
+  const handleAnswer = (submitted: QuizResponse) => {
     if (answered) return;
 
-    setSelectedAnswer(index);
+    setResponse(submitted);
     setAnswered(true);
-    setShowResult(true);
 
-    if (index === questions[currentQuestion].correctAnswer) {
+    const correct = gradeResponse(questions[currentQuestion], submitted);
+    if (correct) {
       setScore(score + 1);
     }
+    setAnswers([...answers, { questionIndex: currentQuestion, response: submitted, correct }]);
+  };
+
+  const recordAttempt = async () => {
+    try {
+      if (!user) return;
+
+      const completedAt = new Date();
+      const result = await saveQuizAttempt({
+        id: crypto.randomUUID(),
+        user_id: user.id,
+        set_id: setId,
+        quiz_id: quizId,
+        questions: questions as unknown as Json,
+        answers: answers as unknown as Json,
+        score,
+        total_questions: questions.length,
+        duration_seconds: Math.round((completedAt.getTime() - startedAt.current.getTime()) / 1000),
+        started_at: startedAt.current.toISOString(),
+      });
+
+      if (result === "queued") {
+        toast({ title: t("offline.queuedTitle"), description: t("offline.queuedBody") });
+      }
+    } catch (error) {
+      console.error("Failed to save quiz attempt:", error);
+    }
   };
 
   const handleNext = () => {
     if (currentQuestion < questions.length - 1) {
       setCurrentQuestion(currentQuestion + 1);
-      setSelectedAnswer(null);
-      setShowResult(false);
+      setResponse(null);
       setAnswered(false);
     } else {
       setQuizComplete(true);
+      recordAttempt();
     }
   };
 
-  const restartQuiz = () => {
+  const resetProgress = () => {
     setCurrentQuestion(0);
-    setSelectedAnswer(null);
-    setShowResult(false);
+    setResponse(null);
     setScore(0);
     setAnswered(false);
     setQuizComplete(false);
+    setAnswers([]);
+  };
+
+  const restartQuiz = () => {
+    resetProgress();
     // Regenerate questions with new random order
     generateQuiz();
   };
 
+  const generateAiQuiz = async () => {
+    setGeneratingAi(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-quiz", {
+        body: { setId },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      resetProgress();
+      setQuestions(parseQuestions(data.questions));
+      setQuizId(data.quizId);
+      startedAt.current = new Date();
+      toast({
+        title: t("quiz.aiReady"),
+        description: t("quiz.aiReadyBody", { count: data.questions.length }),
+      });
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description:
+          error instanceof FunctionsHttpError && error.context?.status === 429
+            ? t("quiz.aiLimit")
+            : error instanceof Error
+              ? error.message
+              : t("quiz.aiFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setGeneratingAi(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
-        <p className="text-muted-foreground">Generating quiz...</p>
+        <p className="text-muted-foreground">{t("quiz.generating")}</p>
       </div>
     );
   }
@@ -159,8 +262,8 @@ const Quiz = () => {
           <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4">
             <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="gap-2">
               <ArrowLeft className="w-4 h-4" />
-              <span className="hidden sm:inline">Back to Dashboard</span>
-              <span className="sm:hidden">Back</span>
+              <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+              <span className="sm:hidden">{t("common.back")}</span>
             </Button>
           </div>
         </header>
@@ -169,22 +272,26 @@ const Quiz = () => {
           <Card className="max-w-2xl mx-auto">
             <CardContent className="pt-6 sm:pt-8 text-center space-y-4 sm:space-y-6">
               <Trophy className={`w-16 h-16 sm:w-20 sm:h-20 mx-auto ${percentage >= 70 ? "text-yellow-500" : "text-muted-foreground"}`} />
-              <h1 className="text-2xl sm:text-3xl font-bold">Quiz Complete!</h1>
+              <h1 className="text-2xl sm:text-3xl font-bold">{t("quiz.complete")}</h1>
               <div className="space-y-2">
                 <p className="text-4xl sm:text-5xl font-bold text-primary">{percentage}%</p>
                 <p className="text-sm sm:text-base text-muted-foreground">
-                  You got {score} out of {questions.length} correct
+                  {t("quiz.result", { score, total: questions.length })}
                 </p>
               </div>
               <div className="space-y-2">
-                {percentage >= 90 && <p className="text-sm sm:text-base text-green-500 font-medium">Excellent! You've mastered this material!</p>}
-                {percentage >= 70 && percentage < 90 && <p className="text-sm sm:text-base text-primary font-medium">Great job! Keep practicing!</p>}
-                {percentage < 70 && <p className="text-sm sm:text-base text-yellow-500 font-medium">Keep studying! You'll get there!</p>}
+                {percentage >= 90 && <p className="text-sm sm:text-base text-green-500 font-medium">{t("quiz.excellent")}</p>}
+                {percentage >= 70 && percentage < 90 && <p className="text-sm sm:text-base text-primary font-medium">{t("quiz.great")}</p>}
+                {percentage < 70 && <p className="text-sm sm:text-base text-yellow-500 font-medium">{t("quiz.keepStudying")}</p>}
               </div>
               <div className="flex flex-col sm:flex-row gap-3 sm:gap-4 justify-center">
-                <Button onClick={restartQuiz} className="w-full sm:w-auto">Try Again</Button>
+                <Button onClick={restartQuiz} className="w-full sm:w-auto">{t("quiz.tryAgain")}</Button>
                 <Button variant="outline" onClick={() => navigate(`/study/${setId}`)} className="w-full sm:w-auto">
-                  Study Cards
+                  {t("quiz.studyCards")}
+                </Button>
+                <Button variant="outline" onClick={() => navigate(`/quiz/${setId}/history`)} className="w-full sm:w-auto">
+                  <History className="w-4 h-4 mr-2" />
+                  {t("quizHistory.title")}
                 </Button>
               </div>
             </CardContent>
@@ -203,70 +310,70 @@ const Quiz = () => {
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
           <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="gap-2">
             <ArrowLeft className="w-4 h-4" />
-            <span className="hidden sm:inline">Back</span>
+            <span className="hidden sm:inline">{t("common.back")}</span>
           </Button>
-          <p className="text-xs sm:text-sm text-muted-foreground">
-            Question {currentQuestion + 1} of {questions.length}
-          </p>
+          <div className="flex items-center gap-3">
+            <p className="text-xs sm:text-sm text-muted-foreground">
+              {t("quiz.questionPosition", { current: currentQuestion + 1, total: questions.length })}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={generateAiQuiz}
+              disabled={generatingAi}
+              className="gap-2"
+            >
+              <Sparkles className="w-4 h-4" />
+              {generatingAi ? t("quiz.aiGenerating") : quizId ? t("quiz.regenerate") : t("quiz.generateAi")}
+            </Button>
+          </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
         <div className="max-w-2xl mx-auto space-y-4 sm:space-y-6">
           <div className="space-y-2 overflow-hidden">
-            <h1 className="text-xl sm:text-2xl font-bold break-words">{setTitle} - Quiz</h1>
+            <h1 className="text-xl sm:text-2xl font-bold break-words">{t("quiz.heading", { title: setTitle })}</h1>
             <Progress value={progress} className="h-2" />
           </div>
 
           <Card className="overflow-hidden">
             <CardHeader>
-              <CardTitle className="text-lg sm:text-xl break-words">{question.question}</CardTitle>
+              <p className="text-xs sm:text-sm text-muted-foreground">{t(QUESTION_TYPE_LABELS[question.type])}</p>
+              <CardTitle lang={contentLang(setLanguage)} className="text-lg sm:text-xl break-words whitespace-pre-line">
+                {question.question}
+              </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-2 sm:space-y-3">
-              {question.options.map((option, index) => {
-                let buttonClass = "w-full justify-start text-left h-auto py-3 sm:py-4 px-3 sm:px-4 whitespace-normal overflow-hidden";
-                
-                if (showResult) {
-                  if (index === question.correctAnswer) {
-                    buttonClass += " border-green-500 bg-green-500/10";
-                  } else if (index === selectedAnswer && index !== question.correctAnswer) {
-                    buttonClass += " border-destructive bg-destructive/10";
-                  }
-                }
-
-                return (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    className={buttonClass}
-                    onClick={() => handleAnswer(index)}
-                    disabled={answered}
-                  >
-                    <span className="flex items-start gap-2 sm:gap-3 w-full min-w-0 overflow-hidden">
-                      <span className="w-7 h-7 sm:w-8 sm:h-8 rounded-full border flex items-center justify-center text-xs sm:text-sm font-medium flex-shrink-0">
-                        {String.fromCharCode(65 + index)}
-                      </span>
-                      <span className="flex-1 text-sm sm:text-base text-left break-words overflow-hidden">{option}</span>
-                      {showResult && index === question.correctAnswer && (
-                        <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-500 flex-shrink-0" />
-                      )}
-                      {showResult && index === selectedAnswer && index !== question.correctAnswer && (
-                        <XCircle className="w-4 h-4 sm:w-5 sm:h-5 text-destructive flex-shrink-0" />
-                      )}
-                    </span>
-                  </Button>
-                );
-              })}
+            <CardContent lang={contentLang(setLanguage)} className="space-y-2 sm:space-y-3">
+              <QuestionView
+                key={currentQuestion}
+                question={question}
+                response={response}
+                answered={answered}
+                correct={answers[answers.length - 1]?.correct ?? false}
+                onSubmit={handleAnswer}
+              />
             </CardContent>
           </Card>
 
-          {showResult && (
+          {answered && question.explanation && (
+            <Card className="bg-muted/50">
+              <CardContent className="py-4">
+                <p className="text-sm sm:text-base break-words">
+                  <span className="font-medium">{t("quiz.explanation")} </span>
+                  <span lang={contentLang(setLanguage)}>{question.explanation}</span>
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {answered && (
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 sm:gap-0">
               <p className="text-sm sm:text-base text-muted-foreground">
-                Score: {score}/{currentQuestion + 1}
+                {t("quiz.runningScore", { score, total: currentQuestion + 1 })}
               </p>
               <Button onClick={handleNext} className="w-full sm:w-auto">
-                {currentQuestion < questions.length - 1 ? "Next Question" : "See Results"}
+                {currentQuestion < questions.length - 1 ? t("quiz.nextQuestion") : t("quiz.seeResults")}
               </Button>
             </div>
           )}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { ArrowLeft, Brain, History } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+
+interface QuizAttempt {
+  id: string;
+  score: number;
+  total_questions: number;
+  duration_seconds: number;
+  created_at: string;
+}
+
+
+const QuizHistory = () => {
+  const { setId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { language, t } = useI18n();
+  const { user } = useAuth();
+
+  const [loading, setLoading] = useState(true);
+  const [setTitle, setSetTitle] = useState("");
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [setId]);
+
+  const loadHistory = async () => {
+    try {
+      if (!user) return;
+
+      const { data: setData, error: setError } = await supabase
+        .from("flashcard_sets")
+        .select("title")
+        .eq("id", setId)
+        .single();
+
+      if (setError) throw setError;
+      setSetTitle(decodeURIComponent(setData.title.replace(/\+/g, " ")));
+
+      const { data, error } = await supabase
+        .from("quiz_attempts")
+        .select("id, score, total_questions, duration_seconds, created_at")
+        .eq("set_id", setId)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setAttempts(data || []);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: t("quizHistory.loadFailed"),
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <p className="text-muted-foreground">{t("quizHistory.loading")}</p>
+      </div>
+    );
+  }
+
+  const chartConfig = {
+    percentage: {
+      label: t("quizHistory.score"),
+      color: "hsl(var(--primary))",
+    },
+  } satisfies ChartConfig;
+
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0
+      ? t("quizHistory.minutesSeconds", { minutes, seconds: seconds % 60 })
+      : t("quizHistory.seconds", { seconds });
+  };
+
+  const percentageOf = (attempt: QuizAttempt) =>
+    attempt.total_questions > 0 ? Math.round((attempt.score / attempt.total_questions) * 100) : 0;
+
+  const chartData = attempts.map((attempt, index) => ({
+    attempt: `#${index + 1}`,
+    date: new Date(attempt.created_at).toLocaleDateString(language),
+    percentage: percentageOf(attempt),
+  }));
+  const best = attempts.length > 0 ? Math.max(...chartData.map((point) => point.percentage)) : 0;
+  const average =
+    attempts.length > 0
+      ? Math.round(chartData.reduce((sum, point) => sum + point.percentage, 0) / attempts.length)
+      : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/dashboard")} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+            <span className="sm:hidden">{t("common.back")}</span>
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 overflow-hidden">
+            <div className="min-w-0">
+              <h1 className="text-xl sm:text-2xl font-bold break-words">{t("quizHistory.heading", { title: setTitle })}</h1>
+              <p className="text-sm text-muted-foreground">
+                {attempts.length === 1
+                  ? t("quizHistory.oneAttempt")
+                  : t("quizHistory.attemptCount", { count: attempts.length })}
+              </p>
+            </div>
+            <Button onClick={() => navigate(`/quiz/${setId}`)} className="gap-2 w-full sm:w-auto">
+              <Brain className="w-4 h-4" />
+              {t("study.takeQuiz")}
+            </Button>
+          </div>
+
+          {attempts.length === 0 ? (
+            <Card className="p-12 text-center">
+              <History className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
+              <h3 className="text-xl font-semibold mb-2">{t("quizHistory.emptyTitle")}</h3>
+              <p className="text-muted-foreground">{t("quizHistory.emptyBody")}</p>
+            </Card>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold text-primary">{best}%</p>
+                    <p className="text-sm text-muted-foreground">{t("quizHistory.best")}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardContent className="pt-6">
+                    <p className="text-2xl font-bold">{average}%</p>
+                    <p className="text-sm text-muted-foreground">{t("quizHistory.average")}</p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t("quizHistory.trend")}</CardTitle>
+                  <CardDescription>{t("quizHistory.trendBody")}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <LineChart data={chartData} margin={{ left: -16, right: 12, top: 8 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="attempt" tickLine={false} axisLine={false} tickMargin={8} />
+                      <YAxis domain={[0, 100]} tickLine={false} axisLine={false} tickFormatter={(value) => `${value}%`} />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            labelFormatter={(_, payload) => payload?.[0]?.payload?.date}
+                          />
+                        }
+                      />
+                      <Line
+                        dataKey="percentage"
+                        type="monotone"
+                        stroke="var(--color-percentage)"
+                        strokeWidth={2}
+                        dot={{ fill: "var(--color-percentage)" }}
+                      />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              <div className="space-y-2">
+                {[...attempts].reverse().map((attempt) => {
+                  const percentage = percentageOf(attempt);
+                  return (
+                    <Card key={attempt.id}>
+                      <CardContent className="py-4 flex items-center justify-between gap-3">
+                        <div>
+                          <p className="font-medium">
+                            {t("quizHistory.correctCount", { score: attempt.score, total: attempt.total_questions })}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(attempt.created_at).toLocaleString(language)} · {formatDuration(attempt.duration_seconds)}
+                          </p>
+                        </div>
+                        <Badge variant={percentage >= 70 ? "default" : "secondary"}>{percentage}%</Badge>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizHistory;
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { FlipCard } from "@/components/FlipCard";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { ArrowLeft, BookOpen, ChevronLeft, ChevronRight, Copy, RotateCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { contentLang, isContentLanguage } from "@/lib/languages";
+import { SharedSet as SharedSetData, cloneSharedSet, fetchSharedSet } from "@/lib/sharing";
+
+// Read-only view of a set someone shared. Works signed out; saving a copy
+// needs an account.
+const SharedSet = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { t } = useI18n();
+  const { user } = useAuth();
+
+  const [set, setSet] = useState<SharedSetData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [cloning, setCloning] = useState(false);
+
+  useEffect(() => {
+    loadSet();
+  }, [token]);
+
+  const loadSet = async () => {
+    setLoading(true);
+    try {
+      setSet(token ? await fetchSharedSet(token) : null);
+    } catch (error) {
+      console.error("Error loading shared set:", error);
+      setSet(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClone = async () => {
+    if (!token) return;
+
+    if (!user) {
+      navigate("/auth", { state: { from: location } });
+      return;
+    }
+
+    setCloning(true);
+    try {
+      const setId = await cloneSharedSet(token);
+      toast({ title: t("share.cloned"), description: t("share.clonedBody") });
+      navigate(`/study/${setId}`);
+    } catch (error) {
+      console.error("Error copying shared set:", error);
+      toast({
+        title: t("common.error"),
+        description: t("share.cloneFailed"),
+        variant: "destructive",
+      });
+      setCloning(false);
+    }
+  };
+
+  const showCard = (index: number) => {
+    setCurrentIndex(index);
+    setIsFlipped(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
+        <p className="text-muted-foreground">{t("study.loading")}</p>
+      </div>
+    );
+  }
+
+  if (!set) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center px-4">
+        <Card className="p-8 text-center max-w-md">
+          <p className="font-medium mb-2">{t("share.notFound")}</p>
+          <p className="text-sm text-muted-foreground mb-4">{t("share.notFoundBody")}</p>
+          <Button onClick={() => navigate("/shared")}>{t("share.browse")}</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const lang = contentLang(isContentLanguage(set.language) ? set.language : "en");
+  const currentCard = set.cards[currentIndex];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
+      <header className="border-b border-border bg-card/50 backdrop-blur">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex items-center justify-between gap-3">
+          <Button variant="ghost" size="sm" onClick={() => navigate("/shared")} className="gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            {t("share.browse")}
+          </Button>
+          <LanguageSwitcher />
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
+        <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
+          <div className="text-center overflow-hidden">
+            <h1 className="text-2xl sm:text-3xl font-bold mb-2 break-words" lang={lang}>
+              {set.title}
+            </h1>
+            {set.description && (
+              <p className="text-sm sm:text-base text-muted-foreground break-words" lang={lang}>
+                {set.description}
+              </p>
+            )}
+            <p className="text-xs sm:text-sm text-muted-foreground mt-2">
+              {set.author ? `${t("share.by", { author: set.author })} · ` : ""}
+              {t("common.cardCount", { count: set.cards.length })}
+            </p>
+          </div>
+
+          <div className="flex justify-center">
+            {set.is_owner ? (
+              <Button onClick={() => navigate(`/study/${set.id}`)} className="gap-2">
+                <BookOpen className="w-4 h-4" />
+                {t("share.openOwn")}
+              </Button>
+            ) : (
+              <Button onClick={handleClone} disabled={cloning} className="gap-2">
+                <Copy className="w-4 h-4" />
+                {cloning ? t("share.cloning") : t("share.clone")}
+              </Button>
+            )}
+          </div>
+
+          {currentCard && (
+            <>
+              <p className="text-xs sm:text-sm text-muted-foreground text-center">
+                {t("study.cardPosition", { current: currentIndex + 1, total: set.cards.length })}
+              </p>
+
+              <FlipCard
+                question={currentCard.question}
+                answer={currentCard.answer}
+                isFlipped={isFlipped}
+                onFlip={() => setIsFlipped(!isFlipped)}
+                lang={lang}
+              />
+
+              <div className="flex items-center justify-between gap-2 sm:gap-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => showCard(currentIndex - 1)}
+                  disabled={currentIndex === 0}
+                  className="flex-1 sm:flex-none"
+                >
+                  <ChevronLeft className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">{t("study.previous")}</span>
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsFlipped(!isFlipped)}
+                  className="flex-1 sm:flex-none"
+                >
+                  <RotateCw className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">{t("study.flip")}</span>
+                </Button>
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => showCard(currentIndex + 1)}
+                  disabled={currentIndex === set.cards.length - 1}
+                  className="flex-1 sm:flex-none"
+                >
+                  <span className="hidden sm:inline">{t("study.next")}</span>
+                  <ChevronRight className="w-4 h-4 sm:ml-2" />
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharedSet;
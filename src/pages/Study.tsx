@@ -2,53 +2,81 @@ import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { FlipCard } from "@/components/FlipCard";
 import { supabase } from "@/integrations/supabase/client";
-import { ArrowLeft, ChevronLeft, ChevronRight, RotateCw, Brain } from "lucide-react";
+import { ArrowLeft, ChevronLeft, ChevronRight, RotateCw, Brain, Repeat, Pencil, Download, CheckCircle, Printer, Share2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { ContentLanguage, contentLang, isContentLanguage } from "@/lib/languages";
+import { OfflineDeck, getOfflineDeck, removeOfflineDeck, saveOfflineDeck } from "@/offline/decks";
+import { ShareSetDialog } from "@/components/ShareSetDialog";
+import { Visibility, isVisibility } from "@/lib/sharing";
 
 interface Flashcard {
   id: string;
   question: string;
   answer: string;
   order_index: number;
+  slide_number: number | null;
 }
 
 interface FlashcardSet {
   id: string;
   title: string;
   description: string | null;
+  language: ContentLanguage;
+  // Not in copies saved offline
+  visibility?: string;
+  share_token?: string;
+  source_author?: string | null;
 }
 
 const Study = () => {
   const { setId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  
+  const { t } = useI18n();
+  const { user } = useAuth();
+
   const [set, setSet] = useState<FlashcardSet | null>(null);
   const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [savedOffline, setSavedOffline] = useState(false);
+  // Showing the copy saved on this device because the set couldn't be fetched
+  const [usingOfflineCopy, setUsingOfflineCopy] = useState(false);
+  const [savingOffline, setSavingOffline] = useState(false);
+  const [sharing, setSharing] = useState(false);
 
   useEffect(() => {
     loadFlashcardSet();
   }, [setId]);
 
+  const showSet = (setData: Omit<FlashcardSet, "language"> & { language: string }) => {
+    // Decode URL-encoded characters and replace + with spaces
+    setSet({
+      ...setData,
+      title: decodeURIComponent(setData.title.replace(/\+/g, ' ')),
+      language: isContentLanguage(setData.language) ? setData.language : "en",
+    });
+  };
+
   const loadFlashcardSet = async () => {
+    const offlineDeck = setId && user ? await getOfflineDeck(setId, user.id).catch(() => undefined) : undefined;
+    setSavedOffline(!!offlineDeck);
+
     try {
       // Load set details
       const { data: setData, error: setError } = await supabase
         .from("flashcard_sets")
-        .select("id, title, description")
+        .select("id, title, description, language, visibility, share_token, source_author")
         .eq("id", setId)
         .single();
 
       if (setError) throw setError;
-      // Decode URL-encoded characters and replace + with spaces
-      setSet({
-        ...setData,
-        title: decodeURIComponent(setData.title.replace(/\+/g, ' ')),
-      });
+      showSet(setData);
 
       // Load flashcards
       const { data: cardsData, error: cardsError } = await supabase
@@ -59,10 +87,22 @@ const Study = () => {
 
       if (cardsError) throw cardsError;
       setFlashcards(cardsData || []);
+
+      // Keep the saved copy up to date while there's a connection
+      if (offlineDeck && user) {
+        saveOfflineDeck(offlineDeck.id, user.id).catch((error) =>
+          console.error("Error refreshing offline copy:", error)
+        );
+      }
     } catch (error: any) {
+      if (offlineDeck) {
+        showOfflineDeck(offlineDeck);
+        return;
+      }
+
       toast({
-        title: "Error",
-        description: "Failed to load flashcards",
+        title: t("common.error"),
+        description: t("study.loadFailed"),
         variant: "destructive",
       });
       navigate("/dashboard");
@@ -71,6 +111,42 @@ const Study = () => {
     }
   };
 
+  const showOfflineDeck = (deck: OfflineDeck) => {
+    showSet(deck);
+    setFlashcards(deck.cards);
+    setUsingOfflineCopy(true);
+  };
+
+  const toggleOffline = async () => {
+    if (!setId || !user) return;
+
+    setSavingOffline(true);
+    try {
+      if (savedOffline) {
+        await removeOfflineDeck(setId);
+        setSavedOffline(false);
+        toast({ title: t("offline.removed") });
+      } else {
+        await saveOfflineDeck(setId, user.id);
+        setSavedOffline(true);
+        toast({ title: t("offline.savedTitle"), description: t("offline.savedBody") });
+      }
+    } catch (error) {
+      console.error("Error updating offline copy:", error);
+      toast({
+        title: t("common.error"),
+        description: t("offline.saveFailed"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingOffline(false);
+    }
+  };
+
+  const handleShareChange = (visibility: Visibility, shareToken: string) => {
+    setSet((current) => current && { ...current, visibility, share_token: shareToken });
+  };
+
   const handleNext = () => {
     if (currentIndex < flashcards.length - 1) {
       setCurrentIndex(currentIndex + 1);
@@ -92,7 +168,7 @@ const Study = () => {
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
-        <p className="text-muted-foreground">Loading flashcards...</p>
+        <p className="text-muted-foreground">{t("study.loading")}</p>
       </div>
     );
   }
@@ -101,10 +177,18 @@ const Study = () => {
     return (
       <div className="min-h-screen bg-gradient-to-b from-background to-secondary flex items-center justify-center">
         <Card className="p-8 text-center">
-          <p className="text-muted-foreground mb-4">No flashcards found</p>
-          <Button onClick={() => navigate("/dashboard")}>
-            Back to Dashboard
-          </Button>
+          <p className="text-muted-foreground mb-4">{t("study.empty")}</p>
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            {set && (
+              <Button variant="outline" onClick={() => navigate(`/study/${setId}/edit`)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                {t("study.addCards")}
+              </Button>
+            )}
+            <Button onClick={() => navigate("/dashboard")}>
+              {t("common.backToDashboard")}
+            </Button>
+          </div>
         </Card>
       </div>
     );
@@ -115,7 +199,7 @@ const Study = () => {
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-secondary">
       <header className="border-b border-border bg-card/50 backdrop-blur">
-        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-3 sm:py-4 flex items-center justify-between gap-3">
           <Button
             variant="ghost"
             size="sm"
@@ -123,9 +207,52 @@ const Study = () => {
             className="gap-2"
           >
             <ArrowLeft className="w-4 h-4" />
-            <span className="hidden sm:inline">Back to Dashboard</span>
-            <span className="sm:hidden">Back</span>
+            <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+            <span className="sm:hidden">{t("common.back")}</span>
           </Button>
+          <div className="flex items-center gap-2">
+            {set.share_token && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSharing(true)}
+                className="gap-2"
+                aria-label={t("share.title")}
+              >
+                <Share2 className="w-4 h-4" />
+                <span className="hidden sm:inline">{t("share.button")}</span>
+              </Button>
+            )}
+            <Button
+              variant={savedOffline ? "secondary" : "outline"}
+              size="sm"
+              onClick={toggleOffline}
+              disabled={savingOffline}
+              className="gap-2"
+            >
+              {savedOffline ? <CheckCircle className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+              <span className="hidden sm:inline">{savedOffline ? t("offline.saved") : t("offline.save")}</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/study/${setId}/print`)}
+              className="gap-2"
+              aria-label={t("print.title")}
+            >
+              <Printer className="w-4 h-4" />
+              <span className="hidden sm:inline">{t("print.title")}</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(`/study/${setId}/edit`)}
+              className="gap-2"
+            >
+              <Pencil className="w-4 h-4" />
+              {t("study.editSet")}
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -137,45 +264,26 @@ const Study = () => {
             {set.description && (
               <p className="text-sm sm:text-base text-muted-foreground break-words">{set.description}</p>
             )}
+            {set.source_author && (
+              <p className="text-xs text-muted-foreground mt-2">{t("share.copiedFrom", { author: set.source_author })}</p>
+            )}
+            {usingOfflineCopy && (
+              <p className="text-xs text-muted-foreground mt-2">{t("offline.usingSavedCopy")}</p>
+            )}
             <p className="text-xs sm:text-sm text-muted-foreground mt-3 sm:mt-4">
-              Card {currentIndex + 1} of {flashcards.length}
+              {t("study.cardPosition", { current: currentIndex + 1, total: flashcards.length })}
+              {currentCard.slide_number && ` · ${t("study.slide", { number: currentCard.slide_number })}`}
             </p>
           </div>
 
           {/* Flashcard */}
-          <div
-            className="relative h-64 sm:h-80 md:h-96 cursor-pointer perspective-1000"
-            onClick={handleFlip}
-          >
-            <div
-              className={`absolute inset-0 transition-transform duration-500 transform-style-3d ${
-                isFlipped ? "rotate-y-180" : ""
-              }`}
-            >
-              {/* Front */}
-              <Card
-                className={`absolute inset-0 p-6 sm:p-8 flex flex-col items-center justify-center text-center shadow-[var(--shadow-elevated)] backface-hidden overflow-hidden ${
-                  isFlipped ? "invisible" : "visible"
-                }`}
-              >
-                <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">QUESTION</p>
-                <p className="text-lg sm:text-xl md:text-2xl font-medium px-4 break-words w-full overflow-hidden">{currentCard.question}</p>
-                <p className="text-xs sm:text-sm text-muted-foreground mt-6 sm:mt-8">
-                  Click to reveal answer
-                </p>
-              </Card>
-
-              {/* Back */}
-              <Card
-                className={`absolute inset-0 p-6 sm:p-8 flex flex-col items-center justify-center text-center shadow-[var(--shadow-elevated)] rotate-y-180 backface-hidden overflow-hidden ${
-                  isFlipped ? "visible" : "invisible"
-                }`}
-              >
-                <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">ANSWER</p>
-                <p className="text-lg sm:text-xl md:text-2xl font-medium px-4 break-words w-full overflow-hidden">{currentCard.answer}</p>
-              </Card>
-            </div>
-          </div>
+          <FlipCard
+            question={currentCard.question}
+            answer={currentCard.answer}
+            isFlipped={isFlipped}
+            onFlip={handleFlip}
+            lang={contentLang(set.language)}
+          />
 
           {/* Controls */}
           <div className="flex items-center justify-between gap-2 sm:gap-4">
@@ -187,12 +295,12 @@ const Study = () => {
               className="flex-1 sm:flex-none"
             >
               <ChevronLeft className="w-4 h-4 sm:mr-2" />
-              <span className="hidden sm:inline">Previous</span>
+              <span className="hidden sm:inline">{t("study.previous")}</span>
             </Button>
 
             <Button variant="outline" size="sm" onClick={handleFlip} className="flex-1 sm:flex-none">
               <RotateCw className="w-4 h-4 sm:mr-2" />
-              <span className="hidden sm:inline">Flip Card</span>
+              <span className="hidden sm:inline">{t("study.flip")}</span>
             </Button>
 
             <Button
@@ -202,39 +310,44 @@ const Study = () => {
               disabled={currentIndex === flashcards.length - 1}
               className="flex-1 sm:flex-none"
             >
-              <span className="hidden sm:inline">Next</span>
+              <span className="hidden sm:inline">{t("study.next")}</span>
               <ChevronRight className="w-4 h-4 sm:ml-2" />
             </Button>
           </div>
 
-          {/* Take Quiz Button */}
-          <div className="text-center pt-2 sm:pt-4">
+          {/* Take Quiz / Memory Mode Buttons */}
+          <div className="flex flex-col sm:flex-row justify-center gap-2 pt-2 sm:pt-4">
             <Button
               onClick={() => navigate(`/quiz/${setId}`)}
               className="gap-2 w-full sm:w-auto"
               size="sm"
             >
               <Brain className="w-4 h-4" />
-              Take Quiz
+              {t("study.takeQuiz")}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/memory?set=${setId}`)}
+              className="gap-2 w-full sm:w-auto"
+              size="sm"
+            >
+              <Repeat className="w-4 h-4" />
+              {t("memory.title")}
             </Button>
           </div>
         </div>
       </div>
 
-      <style>{`
-        .perspective-1000 {
-          perspective: 1000px;
-        }
-        .transform-style-3d {
-          transform-style: preserve-3d;
-        }
-        .backface-hidden {
-          backface-visibility: hidden;
-        }
-        .rotate-y-180 {
-          transform: rotateY(180deg);
-        }
-      `}</style>
+      {set.share_token && (
+        <ShareSetDialog
+          open={sharing}
+          setId={set.id}
+          visibility={isVisibility(set.visibility) ? set.visibility : "private"}
+          shareToken={set.share_token}
+          onOpenChange={setSharing}
+          onChange={handleShareChange}
+        />
+      )}
     </div>
   );
 };
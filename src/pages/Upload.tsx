@@ -5,76 +5,47 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ImportDeck } from "@/components/ImportDeck";
 import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
 import { Upload as UploadIcon, ArrowLeft, FileText, Crown, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-const FREE_UPLOAD_LIMIT = 6;
+import { useI18n } from "@/i18n/context";
+import { useAuth } from "@/auth/context";
+import { UploadQuota, fetchUploadQuota, isQuotaExceeded } from "@/lib/uploads";
+import { CONTENT_LANGUAGES, ContentLanguage, contentLanguageName, isContentLanguage } from "@/lib/languages";
 
 const Upload = () => {
-  const [user, setUser] = useState<User | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [isPremium, setIsPremium] = useState(false);
-  const [uploadCount, setUploadCount] = useState(0);
+  const [quota, setQuota] = useState<UploadQuota | null>(null);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { language, t } = useI18n();
+  const { user, isPremium } = useAuth();
+  // Cards default to the interface language; the student can pick another
+  const [outputLanguage, setOutputLanguage] = useState<ContentLanguage>(language);
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (!session?.user) {
-        navigate("/auth");
-      } else {
-        setUser(session.user);
-        checkUserStatusAndUploads(session.user.id);
-      }
-    });
-
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        if (!session?.user) {
-          navigate("/auth");
-        } else {
-          setUser(session.user);
-          checkUserStatusAndUploads(session.user.id);
-        }
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+    loadQuota();
+  }, []);
 
-  const checkUserStatusAndUploads = async (userId: string) => {
+  const loadQuota = async () => {
     setLoading(true);
     try {
-      // Check premium status
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('is_premium')
-        .eq('id', userId)
-        .maybeSingle();
-
-      setIsPremium(profile?.is_premium || false);
-
-      // Count user's uploads
-      const { count } = await supabase
-        .from('uploads')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
-
-      setUploadCount(count || 0);
+      setQuota(await fetchUploadQuota());
     } catch (error) {
-      console.error('Error checking user status:', error);
+      console.error('Error checking upload quota:', error);
     } finally {
       setLoading(false);
     }
   };
 
-  const hasReachedLimit = !isPremium && uploadCount >= FREE_UPLOAD_LIMIT;
-  const remainingUploads = FREE_UPLOAD_LIMIT - uploadCount;
+  // The database enforces the limit; this only drives what the page shows
+  const hasReachedLimit = quota?.remaining === 0;
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -104,8 +75,8 @@ const Upload = () => {
       if (!isImage && !isPdf && !isPpt) {
         console.log('File rejected - not a valid type');
         toast({
-          title: "Invalid File Type",
-          description: `File type "${selectedFile.type}" not supported. Please upload PDF, PNG, or JPEG.`,
+          title: t("upload.invalidType"),
+          description: t("upload.invalidTypeBody", { type: selectedFile.type }),
           variant: "destructive",
         });
         return;
@@ -113,8 +84,8 @@ const Upload = () => {
 
       if (selectedFile.size > 20 * 1024 * 1024) {
         toast({
-          title: "File Too Large",
-          description: "Please upload a file smaller than 20MB",
+          title: t("upload.tooLarge"),
+          description: t("upload.tooLargeBody"),
           variant: "destructive",
         });
         return;
@@ -123,24 +94,27 @@ const Upload = () => {
       console.log('File accepted! Setting state...');
       setFile(selectedFile);
       toast({
-        title: "File Selected",
-        description: `${selectedFile.name} ready to upload`,
+        title: t("upload.fileSelected"),
+        description: t("upload.fileSelectedBody", { file: selectedFile.name }),
       });
     } else {
       console.log('No files in the input');
     }
-  }, [toast]);
+  }, [toast, t]);
+
+  const showQuotaExceeded = () => {
+    toast({
+      title: t("upload.limitReached"),
+      description: t("upload.limitReachedToast"),
+      variant: "destructive",
+    });
+  };
 
   const handleUpload = async () => {
     if (!file || !user) return;
 
-    // Double-check limit before upload
     if (hasReachedLimit) {
-      toast({
-        title: "Upload Limit Reached",
-        description: "Upgrade to Premium for unlimited uploads!",
-        variant: "destructive",
-      });
+      showQuotaExceeded();
       return;
     }
 
@@ -148,74 +122,75 @@ const Upload = () => {
     setProgress(10);
 
     try {
+      // Re-check the server-side quota first: storage refuses files past the
+      // limit with a generic policy error, which would hide the real reason
+      const latestQuota = await fetchUploadQuota();
+      setQuota(latestQuota);
+      if (latestQuota.remaining === 0) {
+        showQuotaExceeded();
+        return;
+      }
+
       // Upload to storage
       const fileExt = file.name.split('.').pop();
       const fileName = `${user.id}/${Date.now()}.${fileExt}`;
       
       setProgress(30);
 
-      const { data: uploadData, error: uploadError } = await supabase.storage
+      const { error: uploadError } = await supabase.storage
         .from('uploads')
         .upload(fileName, file);
 
       if (uploadError) throw uploadError;
 
-      setProgress(50);
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('uploads')
-        .getPublicUrl(fileName);
-
-      setProgress(60);
+      setProgress(70);
 
-      // Create upload record
+      // Create upload record; the database queues a processing job for it
       const { data: uploadRecord, error: recordError } = await supabase
         .from('uploads')
         .insert({
           user_id: user.id,
           file_name: file.name,
           file_type: file.type,
-          file_url: publicUrl,
-          processing_status: 'processing',
+          file_url: fileName,
+          output_language: outputLanguage,
         })
         .select()
         .single();
 
       if (recordError) throw recordError;
 
-      setProgress(80);
+      setProgress(90);
 
-      // Call edge function to process
-      const { data: processData, error: processError } = await supabase.functions
+      // Start processing right away. If this fails the queue worker still
+      // picks the job up, so it is not fatal.
+      const { error: processError } = await supabase.functions
         .invoke('process-upload', {
-          body: {
-            uploadId: uploadRecord.id,
-            fileUrl: publicUrl,
-            fileName: file.name,
-          },
+          body: { uploadId: uploadRecord.id, outputLanguage },
         });
 
-      if (processError) throw processError;
+      if (processError) {
+        console.error('Failed to start processing:', processError);
+      }
 
       setProgress(100);
 
       toast({
-        title: "Success!",
-        description: "Your file has been processed. Flashcards are ready!",
+        title: t("upload.complete"),
+        description: t("upload.completeBody"),
       });
 
-      // Navigate to the new flashcard set
-      if (processData?.setId) {
-        navigate(`/study/${processData.setId}`);
-      } else {
-        navigate('/dashboard');
-      }
+      navigate('/dashboard');
     } catch (error: any) {
       console.error('Upload error:', error);
+      if (isQuotaExceeded(error)) {
+        showQuotaExceeded();
+        loadQuota();
+        return;
+      }
       toast({
-        title: "Upload Failed",
-        description: error.message || "Failed to process your file. Please try again.",
+        title: t("upload.failed"),
+        description: error.message || t("upload.failedBody"),
         variant: "destructive",
       });
     } finally {
@@ -237,137 +212,173 @@ const Upload = () => {
             className="gap-2"
           >
             <ArrowLeft className="w-4 h-4" />
-            <span className="hidden sm:inline">Back to Dashboard</span>
-            <span className="sm:hidden">Back</span>
+            <span className="hidden sm:inline">{t("common.backToDashboard")}</span>
+            <span className="sm:hidden">{t("common.back")}</span>
           </Button>
         </div>
       </header>
 
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8 md:py-12">
         <Card className="max-w-2xl mx-auto p-4 sm:p-6 md:p-8 shadow-[var(--shadow-elevated)]">
-          <h2 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6">Upload Your Files</h2>
-          
-          {/* Upload limit info for free users */}
-          {!isPremium && (
-            <Card className={`p-4 mb-6 ${hasReachedLimit ? 'bg-destructive/10 border-destructive' : 'bg-secondary/50'}`}>
-              <div className="flex items-start gap-3">
-                {hasReachedLimit ? (
-                  <AlertCircle className="w-5 h-5 text-destructive mt-0.5" />
-                ) : (
-                  <Crown className="w-5 h-5 text-amber-500 mt-0.5" />
+          <h2 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6">{t("upload.title")}</h2>
+
+          <Tabs defaultValue="generate">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="generate">{t("upload.tabGenerate")}</TabsTrigger>
+              <TabsTrigger value="import">{t("upload.tabImport")}</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="generate">
+              {/* Upload limit info for free users */}
+              {quota && !isPremium && (
+                <Card className={`p-4 mb-6 ${hasReachedLimit ? 'bg-destructive/10 border-destructive' : 'bg-secondary/50'}`}>
+                  <div className="flex items-start gap-3">
+                    {hasReachedLimit ? (
+                      <AlertCircle className="w-5 h-5 text-destructive mt-0.5" />
+                    ) : (
+                      <Crown className="w-5 h-5 text-amber-500 mt-0.5" />
+                    )}
+                    <div className="flex-1">
+                      {hasReachedLimit ? (
+                        <>
+                          <p className="font-medium text-destructive">{t("upload.limitReached")}</p>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {t("upload.limitReachedBody", { limit: quota?.limit ?? 0 })}
+                          </p>
+                          <Button
+                            variant="default"
+                            size="sm"
+                            className="mt-3"
+                            onClick={() => navigate('/premium')}
+                          >
+                            <Crown className="w-4 h-4 mr-2" />
+                            {t("common.upgradeToPremium")}
+                          </Button>
+                        </>
+                      ) : (
+                        <>
+                          <p className="font-medium">{t("upload.remaining", { count: quota?.remaining ?? 0 })}</p>
+                          <p className="text-sm text-muted-foreground mt-1">
+                            {t("upload.used", { used: quota?.used ?? 0, limit: quota?.limit ?? 0 })}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              )}
+
+              {isPremium && (
+                <Card className="p-4 mb-6 bg-amber-500/10 border-amber-500/30">
+                  <div className="flex items-center gap-3">
+                    <Crown className="w-5 h-5 text-amber-500" />
+                    <p className="font-medium text-amber-600 dark:text-amber-400">
+                      {quota?.remaining == null
+                        ? t("upload.premiumMember")
+                        : t("upload.premiumRemaining", { count: quota.remaining })}
+                    </p>
+                  </div>
+                </Card>
+              )}
+
+              <div className="space-y-6">
+                <div>
+                  <p className="text-base font-medium mb-2">
+                    {t("upload.selectFile")}
+                  </p>
+
+                  {/* Fully visible file input - no accept filter for Android compatibility */}
+                  <div
+                    className={`flex flex-col items-center justify-center w-full min-h-32 border-2 border-dashed rounded-lg transition-colors p-4 ${
+                      hasReachedLimit || uploading
+                        ? 'border-muted bg-muted/20 opacity-50'
+                        : 'border-primary/30 bg-secondary/30'
+                    }`}
+                  >
+                    <UploadIcon className={`w-8 h-8 mb-3 ${hasReachedLimit ? 'text-muted-foreground' : 'text-primary'}`} />
+                    <p className="text-sm text-muted-foreground mb-3">
+                      <span className="font-semibold">{t("upload.tapToSelect")}</span>
+                    </p>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      key="file-input-stable"
+                      onChange={handleFileChange}
+                      disabled={uploading || hasReachedLimit}
+                      className="block w-full text-sm text-muted-foreground
+                        file:mr-4 file:py-2 file:px-4
+                        file:rounded-md file:border-0
+                        file:text-sm file:font-semibold
+                        file:bg-primary file:text-primary-foreground
+                        hover:file:bg-primary/90
+                        file:cursor-pointer cursor-pointer"
+                    />
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {t("upload.supportedTypes")}
+                    </p>
+                  </div>
+                </div>
+
+                {file && (
+                  <Card className="p-4 bg-secondary/50">
+                    <div className="flex items-center gap-3">
+                      <FileText className="w-8 h-8 text-primary" />
+                      <div className="flex-1">
+                        <p className="font-medium">{file.name}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {(file.size / 1024 / 1024).toFixed(2)} MB
+                        </p>
+                      </div>
+                    </div>
+                  </Card>
                 )}
-                <div className="flex-1">
-                  {hasReachedLimit ? (
-                    <>
-                      <p className="font-medium text-destructive">Upload Limit Reached</p>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        You've used all {FREE_UPLOAD_LIMIT} free uploads. Upgrade to Premium for unlimited uploads!
-                      </p>
-                      <Button
-                        variant="default"
-                        size="sm"
-                        className="mt-3"
-                        onClick={() => navigate('/premium')}
-                      >
-                        <Crown className="w-4 h-4 mr-2" />
-                        Upgrade to Premium
-                      </Button>
-                    </>
-                  ) : (
-                    <>
-                      <p className="font-medium">Free Plan: {remainingUploads} uploads remaining</p>
-                      <p className="text-sm text-muted-foreground mt-1">
-                        You've used {uploadCount} of {FREE_UPLOAD_LIMIT} free uploads. Upgrade to Premium for unlimited uploads.
-                      </p>
-                    </>
-                  )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="output-language">{t("upload.outputLanguage")}</Label>
+                  <Select
+                    value={outputLanguage}
+                    onValueChange={(value) => isContentLanguage(value) && setOutputLanguage(value)}
+                    disabled={uploading}
+                  >
+                    <SelectTrigger id="output-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTENT_LANGUAGES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {contentLanguageName(code, t)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{t("upload.outputLanguageHint")}</p>
                 </div>
-              </div>
-            </Card>
-          )}
-
-          {isPremium && (
-            <Card className="p-4 mb-6 bg-amber-500/10 border-amber-500/30">
-              <div className="flex items-center gap-3">
-                <Crown className="w-5 h-5 text-amber-500" />
-                <p className="font-medium text-amber-600 dark:text-amber-400">
-                  Premium Member - Unlimited Uploads
-                </p>
-              </div>
-            </Card>
-          )}
-          
-          <div className="space-y-6">
-            <div>
-              <p className="text-base font-medium mb-2">
-                Select File
-              </p>
-              
-              {/* Fully visible file input - no accept filter for Android compatibility */}
-              <div
-                className={`flex flex-col items-center justify-center w-full min-h-32 border-2 border-dashed rounded-lg transition-colors p-4 ${
-                  hasReachedLimit || uploading
-                    ? 'border-muted bg-muted/20 opacity-50'
-                    : 'border-primary/30 bg-secondary/30'
-                }`}
-              >
-                <UploadIcon className={`w-8 h-8 mb-3 ${hasReachedLimit ? 'text-muted-foreground' : 'text-primary'}`} />
-                <p className="text-sm text-muted-foreground mb-3">
-                  <span className="font-semibold">Tap below to select file</span>
-                </p>
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  key="file-input-stable"
-                  onChange={handleFileChange}
-                  disabled={uploading || hasReachedLimit}
-                  className="block w-full text-sm text-muted-foreground
-                    file:mr-4 file:py-2 file:px-4
-                    file:rounded-md file:border-0
-                    file:text-sm file:font-semibold
-                    file:bg-primary file:text-primary-foreground
-                    hover:file:bg-primary/90
-                    file:cursor-pointer cursor-pointer"
-                />
-                <p className="text-xs text-muted-foreground mt-2">
-                  PDF, PNG, JPEG (max 20MB)
-                </p>
-              </div>
-            </div>
-
-            {file && (
-              <Card className="p-4 bg-secondary/50">
-                <div className="flex items-center gap-3">
-                  <FileText className="w-8 h-8 text-primary" />
-                  <div className="flex-1">
-                    <p className="font-medium">{file.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      {(file.size / 1024 / 1024).toFixed(2)} MB
+
+                {uploading && (
+                  <div>
+                    <Progress value={progress} className="mb-2" />
+                    <p className="text-sm text-muted-foreground text-center">
+                      {progress < 70 ? t("upload.uploading") : t("upload.queueing")}
                     </p>
                   </div>
-                </div>
-              </Card>
-            )}
-
-            {uploading && (
-              <div>
-                <Progress value={progress} className="mb-2" />
-                <p className="text-sm text-muted-foreground text-center">
-                  {progress < 50 ? "Uploading..." : "Processing with AI..."}
-                </p>
+                )}
+
+                <Button
+                  size="lg"
+                  className="w-full"
+                  onClick={handleUpload}
+                  disabled={!file || uploading || hasReachedLimit}
+                >
+                  <UploadIcon className="w-5 h-5 mr-2" />
+                  {uploading ? t("upload.uploading") : t("upload.generate")}
+                </Button>
               </div>
-            )}
-
-            <Button
-              size="lg"
-              className="w-full"
-              onClick={handleUpload}
-              disabled={!file || uploading || hasReachedLimit}
-            >
-              <UploadIcon className="w-5 h-5 mr-2" />
-              {uploading ? "Processing..." : "Generate Flashcards"}
-            </Button>
-          </div>
+            </TabsContent>
+
+            <TabsContent value="import">
+              <ImportDeck />
+            </TabsContent>
+          </Tabs>
         </Card>
       </div>
     </div>
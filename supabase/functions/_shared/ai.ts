@@ -0,0 +1,58 @@
+const AI_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+export const DEFAULT_MODEL = "google/gemini-2.5-flash";
+// Gemini Flash accepts inline images, so it doubles as the OCR model.
+export const VISION_MODEL = "google/gemini-2.5-flash";
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+// Send a chat completion request to the Lovable AI gateway and return the
+// text content of the first choice.
+export async function chatCompletion(
+  messages: ChatMessage[],
+  model: string = DEFAULT_MODEL
+): Promise<string> {
+  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+  if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY not configured");
+
+  const aiResponse = await fetch(AI_GATEWAY_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${LOVABLE_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ model, messages }),
+  });
+
+  if (!aiResponse.ok) {
+    if (aiResponse.status === 429) {
+      throw new Error("Rate limit exceeded. Please try again later.");
+    }
+    if (aiResponse.status === 402) {
+      throw new Error("AI credits depleted. Please add funds to continue.");
+    }
+    const errorText = await aiResponse.text();
+    console.error("AI gateway error:", aiResponse.status, errorText);
+    throw new Error("AI processing failed");
+  }
+
+  const aiData = await aiResponse.json();
+  return aiData.choices[0].message.content;
+}
+
+// Models sometimes wrap JSON in prose or code fences, so pull out the first
+// array-looking span before parsing.
+export function parseJsonArray<T>(content: string): T[] {
+  const jsonMatch = content.match(/\[[\s\S]*\]/);
+  const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content);
+  if (!Array.isArray(parsed)) {
+    throw new Error("Expected a JSON array");
+  }
+  return parsed;
+}
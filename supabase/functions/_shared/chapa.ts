@@ -0,0 +1,131 @@
+// Chapa payment gateway (https://developer.chapa.co). Checkout pages accept
+// Telebirr, CBE Birr, M-Pesa and cards, all settled in ETB.
+//
+// CHAPA_API_BASE can point at supabase/mocks/chapa.ts to run the whole
+// checkout locally without a merchant account.
+const DEFAULT_API_BASE = "https://api.chapa.co";
+
+function apiBase(): string {
+  return (Deno.env.get("CHAPA_API_BASE") ?? DEFAULT_API_BASE).replace(/\/$/, "");
+}
+
+function secretKey(): string {
+  const key = Deno.env.get("CHAPA_SECRET_KEY");
+  if (!key) throw new Error("CHAPA_SECRET_KEY not configured");
+  return key;
+}
+
+async function chapaRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${apiBase()}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${secretKey()}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || body?.status !== "success") {
+    console.error("Chapa error:", response.status, body);
+    throw new Error(
+      typeof body?.message === "string" ? body.message : "Payment provider request failed"
+    );
+  }
+
+  return body.data as T;
+}
+
+export interface CheckoutRequest {
+  txRef: string;
+  amount: number;
+  email: string;
+  firstName: string;
+  title: string;
+  description: string;
+  // Where Chapa sends the payer's browser back to (GET) once they are done
+  callbackUrl: string;
+  returnUrl: string;
+}
+
+// Open a hosted checkout and return the page to send the payer to
+export async function initializeCheckout(request: CheckoutRequest): Promise<string> {
+  const data = await chapaRequest<{ checkout_url: string }>("/v1/transaction/initialize", {
+    method: "POST",
+    body: JSON.stringify({
+      amount: request.amount.toFixed(2),
+      currency: "ETB",
+      email: request.email,
+      first_name: request.firstName,
+      tx_ref: request.txRef,
+      callback_url: request.callbackUrl,
+      return_url: request.returnUrl,
+      customization: {
+        title: request.title,
+        description: request.description,
+      },
+    }),
+  });
+
+  return data.checkout_url;
+}
+
+export interface VerifiedTransaction {
+  status: "success" | "failed" | "pending";
+  amount: number;
+  currency: string;
+  reference: string | null;
+}
+
+// Ask Chapa for the state of a transaction. Webhook and callback bodies are
+// only a hint; this is what a payment is judged on.
+export async function verifyTransaction(txRef: string): Promise<VerifiedTransaction> {
+  const data = await chapaRequest<{
+    status: string;
+    amount: number | string;
+    currency: string;
+    reference?: string | null;
+  }>(`/v1/transaction/verify/${encodeURIComponent(txRef)}`);
+
+  return {
+    status: data.status === "success" || data.status === "failed" ? data.status : "pending",
+    amount: Number(data.amount),
+    currency: data.currency,
+    reference: data.reference ?? null,
+  };
+}
+
+const encoder = new TextEncoder();
+
+// Hex HMAC-SHA256 of the raw webhook body, as sent in x-chapa-signature
+export async function signPayload(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function hasValidSignature(
+  payload: string,
+  signature: string | null
+): Promise<boolean> {
+  const secret = Deno.env.get("CHAPA_WEBHOOK_SECRET");
+  if (!secret) throw new Error("CHAPA_WEBHOOK_SECRET not configured");
+  if (!signature) return false;
+
+  const expected = await signPayload(secret, payload);
+  if (expected.length !== signature.length) return false;
+
+  // Compare in constant time so the signature can't be guessed byte by byte
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
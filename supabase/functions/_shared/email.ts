@@ -0,0 +1,108 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} not configured`);
+  return value;
+}
+
+// Any SMTP server. For local testing point it at a mail catcher such as
+// Mailpit (`docker run -p 1025:1025 -p 8025:8025 axllent/mailpit`) with
+// SMTP_HOST=host.docker.internal, SMTP_PORT=1025 and SMTP_TLS=false.
+function smtpTransport(): EmailTransport {
+  const from = requireEnv("EMAIL_FROM");
+  const username = Deno.env.get("SMTP_USERNAME");
+  const password = Deno.env.get("SMTP_PASSWORD");
+
+  return {
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: requireEnv("SMTP_HOST"),
+          port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+          tls: Deno.env.get("SMTP_TLS") !== "false",
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+// Resend's HTTP API, for hosts that block outgoing SMTP
+function resendTransport(): EmailTransport {
+  const apiKey = requireEnv("RESEND_API_KEY");
+  const from = requireEnv("EMAIL_FROM");
+
+  return {
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend error ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Writes emails to the function logs instead of sending them
+const logTransport: EmailTransport = {
+  send(message) {
+    console.log("Email (not sent):", { to: message.to, subject: message.subject });
+    console.log(message.text);
+    return Promise.resolve();
+  },
+};
+
+// EMAIL_TRANSPORT picks the delivery method: smtp, resend or log. There is
+// no default: a deploy that forgot the setting would otherwise mark every
+// email as sent while only logging it.
+export function createTransport(): EmailTransport {
+  const name = requireEnv("EMAIL_TRANSPORT");
+
+  switch (name) {
+    case "smtp":
+      return smtpTransport();
+    case "resend":
+      return resendTransport();
+    case "log":
+      return logTransport;
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${name}"`);
+  }
+}
@@ -0,0 +1,96 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+
+const UPLOADS_BUCKET = "uploads";
+
+// Roughly 6k tokens per chunk keeps each request well inside the model
+// context while leaving room for the prompt and the generated cards.
+export const MAX_CHUNK_CHARS = 24000;
+export const MAX_CHUNKS = 8;
+
+// Older rows store the (unusable, the bucket is private) public URL rather
+// than the object path, so accept either form.
+export function storagePathFromUrl(fileUrl: string): string {
+  const marker = `/${UPLOADS_BUCKET}/`;
+  const markerIndex = fileUrl.indexOf(marker);
+  const path =
+    markerIndex === -1 ? fileUrl : fileUrl.slice(markerIndex + marker.length);
+  return decodeURIComponent(path.split("?")[0]);
+}
+
+export async function downloadUpload(
+  supabase: SupabaseClient,
+  fileUrl: string
+): Promise<Uint8Array> {
+  const path = storagePathFromUrl(fileUrl);
+  const { data, error } = await supabase.storage
+    .from(UPLOADS_BUCKET)
+    .download(path);
+
+  if (error) throw error;
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+export function isPdf(fileName: string, fileType: string): boolean {
+  return fileType === "application/pdf" || /\.pdf$/i.test(fileName);
+}
+
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: true });
+  return normalizeWhitespace(text);
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Split text into chunks of at most `maxChars`, preferring paragraph and then
+// sentence boundaries so a concept is not cut in half between two requests.
+export function chunkText(
+  text: string,
+  maxChars: number = MAX_CHUNK_CHARS,
+  maxChunks: number = MAX_CHUNKS
+): string[] {
+  const chunks: string[] = [];
+  let remaining = text.trim();
+
+  while (remaining.length > 0 && chunks.length < maxChunks) {
+    if (remaining.length <= maxChars) {
+      chunks.push(remaining);
+      break;
+    }
+
+    const window = remaining.slice(0, maxChars);
+    let cut = window.lastIndexOf("\n\n");
+    if (cut < maxChars / 2) cut = window.lastIndexOf(". ") + 1;
+    if (cut < maxChars / 2) cut = maxChars;
+
+    chunks.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut).trim();
+  }
+
+  return chunks;
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  heic: "image/heic",
+};
+
+// Android sometimes reports an empty MIME type, so fall back to the extension.
+export function imageMimeType(
+  fileName: string,
+  fileType: string
+): string | null {
+  if (fileType.startsWith("image/")) return fileType;
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return IMAGE_MIME_TYPES[extension] ?? null;
+}
@@ -0,0 +1,131 @@
+import { chatCompletion, parseJsonArray } from "./ai.ts";
+import { formatSlide, type Slide } from "./pptx.ts";
+import { languageInstruction, type OutputLanguage } from "./language.ts";
+
+export interface GeneratedFlashcard {
+  question: string;
+  answer: string;
+  slide?: number | null;
+}
+
+const SYSTEM_PROMPT =
+  "You are an expert at creating study flashcards. Return only valid JSON arrays.";
+
+const OUTPUT_FORMAT = `Return ONLY a valid JSON array of flashcards with this exact structure:
+[
+  {
+    "question": "Question text here?",
+    "answer": "Answer text here."
+  }
+]
+
+Important: Return ONLY the JSON array, no other text or explanation.`;
+
+// Spread the overall card budget across chunks so long documents still get
+// coverage of every section without producing hundreds of cards.
+export function cardsPerChunk(chunkCount: number): number {
+  return Math.max(3, Math.round(15 / Math.max(chunkCount, 1)));
+}
+
+export async function generateFlashcardsFromText(
+  fileName: string,
+  text: string,
+  cardCount: number,
+  language: OutputLanguage,
+  part?: { index: number; total: number }
+): Promise<GeneratedFlashcard[]> {
+  const partLabel =
+    part && part.total > 1 ? ` (part ${part.index + 1} of ${part.total})` : "";
+
+  const aiPrompt = `You are a flashcard creation AI. Analyze the following document content and create high-quality study flashcards.
+
+Document: ${fileName}${partLabel}
+
+--- BEGIN CONTENT ---
+${text}
+--- END CONTENT ---
+
+Generate about ${cardCount} flashcards that:
+- Are based only on the content above
+- Focus on key concepts and important information
+- Have clear, concise questions
+- Have detailed but focused answers
+- Cover different topics from the material
+
+${languageInstruction(language)}
+
+${OUTPUT_FORMAT}`;
+
+  return requestFlashcards(aiPrompt);
+}
+
+export async function generateFlashcardsFromSlides(
+  fileName: string,
+  slides: Slide[],
+  language: OutputLanguage,
+  part?: { index: number; total: number }
+): Promise<GeneratedFlashcard[]> {
+  const partLabel =
+    part && part.total > 1 ? ` (part ${part.index + 1} of ${part.total})` : "";
+  const slideNumbers = new Set(slides.map((slide) => slide.number));
+
+  const aiPrompt = `You are a flashcard creation AI. Below are the slides of a lecture presentation, each with its title, text and speaker notes.
+
+Presentation: ${fileName}${partLabel}
+
+--- BEGIN SLIDES ---
+${slides.map(formatSlide).join("\n\n")}
+--- END SLIDES ---
+
+Generate 1-3 flashcards for each slide that has meaningful content (skip title-only, agenda and "questions?" slides). Flashcards must:
+- Be based only on the slide content and speaker notes above
+- Focus on key concepts and important information
+- Have clear, concise questions
+- Have detailed but focused answers
+- Include the number of the slide each card comes from
+
+${languageInstruction(language)}
+
+Return ONLY a valid JSON array of flashcards with this exact structure:
+[
+  {
+    "slide": 1,
+    "question": "Question text here?",
+    "answer": "Answer text here."
+  }
+]
+
+Important: Return ONLY the JSON array, no other text or explanation.`;
+
+  const cards = await requestFlashcards(aiPrompt);
+  return cards.map((card) => ({
+    ...card,
+    slide: slideNumbers.has(Number(card.slide)) ? Number(card.slide) : null,
+  }));
+}
+
+async function requestFlashcards(
+  aiPrompt: string
+): Promise<GeneratedFlashcard[]> {
+  const content = await chatCompletion([
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: aiPrompt },
+  ]);
+  console.log("AI response received");
+
+  let flashcardsData: GeneratedFlashcard[];
+  try {
+    flashcardsData = parseJsonArray<GeneratedFlashcard>(content);
+  } catch (parseError) {
+    console.error("Failed to parse AI response:", content);
+    throw new Error("Failed to generate flashcards. Please try again.");
+  }
+
+  return flashcardsData.filter(
+    (card) =>
+      typeof card?.question === "string" &&
+      typeof card?.answer === "string" &&
+      card.question.trim() !== "" &&
+      card.answer.trim() !== ""
+  );
+}
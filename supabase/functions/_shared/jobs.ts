@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  processUpload,
+  setUploadStatus,
+  UnprocessableUploadError,
+} from "./pipeline.ts";
+
+declare const EdgeRuntime:
+  | { waitUntil(promise: Promise<unknown>): void }
+  | undefined;
+
+export interface ProcessingJob {
+  id: string;
+  upload_id: string;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Base delay before a failed job is retried; doubles with every attempt.
+const RETRY_BASE_SECONDS = 30;
+
+// Keep the worker alive after the HTTP response has been sent.
+export function runInBackground(task: Promise<unknown>) {
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(task);
+  }
+}
+
+export async function claimJob(
+  supabase: SupabaseClient,
+  uploadId: string | null = null
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc("claim_processing_job", {
+    _upload_id: uploadId,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+// Run a claimed job to completion. Failures are recorded on both the job and
+// the upload; transient failures are re-queued with exponential backoff.
+export async function runJob(supabase: SupabaseClient, job: ProcessingJob) {
+  console.log("Running job:", { jobId: job.id, uploadId: job.upload_id });
+
+  try {
+    const { data: upload, error: uploadError } = await supabase
+      .from("uploads")
+      .select("id, user_id, file_name, file_type, file_url, output_language")
+      .eq("id", job.upload_id)
+      .single();
+
+    if (uploadError) throw uploadError;
+
+    const result = await processUpload(supabase, upload);
+
+    await setUploadStatus(supabase, job.upload_id, "completed");
+    await supabase
+      .from("processing_jobs")
+      .update({ status: "completed", locked_at: null, last_error: null })
+      .eq("id", job.id);
+
+    console.log("Processing completed successfully", result);
+  } catch (error) {
+    console.error("Error processing upload:", error);
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    const retryable =
+      !(error instanceof UnprocessableUploadError) &&
+      job.attempts < job.max_attempts;
+
+    if (retryable) {
+      const delaySeconds = RETRY_BASE_SECONDS * 2 ** (job.attempts - 1);
+      await supabase
+        .from("processing_jobs")
+        .update({
+          status: "queued",
+          locked_at: null,
+          last_error: message,
+          run_after: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+        })
+        .eq("id", job.id);
+      await setUploadStatus(supabase, job.upload_id, "queued", message);
+    } else {
+      await supabase
+        .from("processing_jobs")
+        .update({ status: "failed", locked_at: null, last_error: message })
+        .eq("id", job.id);
+      await setUploadStatus(supabase, job.upload_id, "failed", message);
+    }
+  }
+}
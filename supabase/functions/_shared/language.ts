@@ -0,0 +1,21 @@
+// Languages the AI can write study material in. Mirrors OUTPUT_LANGUAGES in
+// src/lib/languages.ts and the CHECK constraints on uploads/flashcard_sets.
+export type OutputLanguage = "en" | "am" | "om" | "ti" | "bilingual";
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "en";
+
+const INSTRUCTIONS: Record<OutputLanguage, string> = {
+  en: "Write everything in English.",
+  am: "Write everything in Amharic (አማርኛ) using Ge'ez script, even if the source material is in another language. Keep formulas, code and technical terms with no common Amharic equivalent in their original form.",
+  om: "Write everything in Afaan Oromo using Qubee (Latin) script, even if the source material is in another language. Keep formulas, code and technical terms with no common Afaan Oromo equivalent in their original form.",
+  ti: "Write everything in Tigrinya (ትግርኛ) using Ge'ez script, even if the source material is in another language. Keep formulas, code and technical terms with no common Tigrinya equivalent in their original form.",
+  bilingual:
+    "Write every text field in English, followed on a new line by its Amharic (አማርኛ) translation in Ge'ez script. Answers that are a single term, name or number stay in English only.",
+};
+
+export const isOutputLanguage = (value: unknown): value is OutputLanguage =>
+  typeof value === "string" && Object.hasOwn(INSTRUCTIONS, value);
+
+// Prompt line telling the model which language to write in
+export const languageInstruction = (language: OutputLanguage) =>
+  `Language: ${INSTRUCTIONS[language]}`;
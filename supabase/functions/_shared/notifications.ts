@@ -0,0 +1,138 @@
+// Email versions of the notifications the database records. The in-app bell
+// renders the same events from src/lib/notifications.ts in the user's
+// interface language; emails are sent in English.
+export type NotificationType =
+  | "premium_approved"
+  | "premium_rejected"
+  | "payment_received"
+  | "premium_expiring"
+  | "premium_expired"
+  | "upload_completed"
+  | "upload_failed"
+  | "cards_due";
+
+export interface NotificationRecord {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  data: Record<string, string | number | undefined>;
+  email_attempts: number;
+}
+
+// Mirrors the rejection_reason values on premium_requests
+const REJECTION_REASONS: Record<string, string> = {
+  amount_mismatch: "The amount paid doesn't match the plan price.",
+  reference_not_found: "We couldn't find the transaction reference in our bank statement.",
+  unreadable_screenshot: "The screenshot is unclear or doesn't show the payment.",
+  duplicate_receipt: "The receipt was already used for another request.",
+};
+
+interface EmailContent {
+  subject: string;
+  lines: string[];
+  action: { label: string; path: string };
+}
+
+const formatDate = (value: string | number | undefined) =>
+  value
+    ? new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric" })
+    : "";
+
+function emailContent(notification: NotificationRecord): EmailContent {
+  const { data } = notification;
+
+  switch (notification.type) {
+    case "premium_approved":
+      return {
+        subject: "Your Premium is active",
+        lines: ["Your payment was verified and Premium is now active on your account."],
+        action: { label: "Start studying", path: "/dashboard" },
+      };
+    case "premium_rejected": {
+      const reason = REJECTION_REASONS[String(data.rejection_reason)];
+      return {
+        subject: "We couldn't verify your payment",
+        lines: [
+          "Your Premium request was not approved.",
+          ...(reason ? [reason] : []),
+          ...(data.admin_notes ? [`Note from the reviewer: ${data.admin_notes}`] : []),
+          "You can correct the details and send your proof again.",
+        ],
+        action: { label: "Resubmit payment proof", path: "/premium" },
+      };
+    }
+    case "payment_received":
+      return {
+        subject: "Payment received",
+        lines: [`We received your payment of ${data.amount} Birr. Premium is now active.`],
+        action: { label: "Start studying", path: "/dashboard" },
+      };
+    case "premium_expiring":
+      return {
+        subject: "Your Premium ends soon",
+        lines: [
+          `Your Premium ends on ${formatDate(data.expires_at)}.`,
+          "Renew before then and the new period is added on top, so you don't lose any days.",
+        ],
+        action: { label: "Renew Premium", path: "/premium" },
+      };
+    case "premium_expired":
+      return {
+        subject: "Your Premium has ended",
+        lines: [
+          `Your Premium ended on ${formatDate(data.expired_at)}.`,
+          "Renew to get unlimited flashcards and Memory Mode back.",
+        ],
+        action: { label: "Renew Premium", path: "/premium" },
+      };
+    case "upload_completed":
+      return {
+        subject: "Your flashcards are ready",
+        lines: [`We finished generating flashcards from ${data.file_name}.`],
+        action: {
+          label: "Study now",
+          path: data.set_id ? `/study/${data.set_id}` : "/dashboard",
+        },
+      };
+    case "upload_failed":
+      return {
+        subject: "We couldn't process your file",
+        lines: [
+          `Generating flashcards from ${data.file_name} failed.`,
+          ...(data.error ? [String(data.error)] : []),
+          "You can retry it from your dashboard.",
+        ],
+        action: { label: "Open dashboard", path: "/dashboard" },
+      };
+    case "cards_due":
+      return {
+        subject: "Cards are due for review",
+        lines: [
+          `You have ${data.count} cards due in Memory Mode.`,
+          "Reviewing them today keeps them in your long-term memory.",
+        ],
+        action: { label: "Review now", path: "/memory" },
+      };
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function renderEmail(notification: NotificationRecord, siteUrl: string) {
+  const { subject, lines, action } = emailContent(notification);
+  const link = `${siteUrl.replace(/\/$/, "")}${action.path}`;
+
+  const text = [...lines, "", `${action.label}: ${link}`, "", "Ethiocard AI"].join("\n");
+  const html = `<div style="font-family: sans-serif; line-height: 1.5">
+${lines.map((line) => `  <p>${escapeHtml(line)}</p>`).join("\n")}
+  <p><a href="${escapeHtml(link)}">${escapeHtml(action.label)}</a></p>
+  <p style="color: #888">Ethiocard AI</p>
+</div>`;
+
+  return { subject, text, html };
+}
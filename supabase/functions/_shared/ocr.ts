@@ -0,0 +1,42 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { chatCompletion, VISION_MODEL } from "./ai.ts";
+import { normalizeWhitespace } from "./extract.ts";
+
+const OCR_PROMPT = `Transcribe all readable text in this image of study material (photographed notes, handouts or textbook pages).
+
+- Preserve headings, lists and the reading order of the page
+- Transcribe handwriting as faithfully as you can
+- Describe diagrams, tables and formulas briefly in square brackets
+- Keep the original language and script (e.g. Amharic in Ge'ez script)
+- If there is no readable text, return exactly: NO_TEXT
+
+Return only the transcription, with no commentary.`;
+
+// Send the image to a vision-capable model and return the transcribed text,
+// or an empty string when the page has nothing readable on it.
+export async function extractImageText(
+  bytes: Uint8Array,
+  mimeType: string
+): Promise<string> {
+  const dataUrl = `data:${mimeType};base64,${encodeBase64(bytes)}`;
+
+  const content = await chatCompletion(
+    [
+      {
+        role: "system",
+        content: "You are a precise OCR engine for student study material.",
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: OCR_PROMPT },
+          { type: "image_url", image_url: { url: dataUrl } },
+        ],
+      },
+    ],
+    VISION_MODEL
+  );
+
+  const text = normalizeWhitespace(content);
+  return text === "NO_TEXT" ? "" : text;
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTransaction } from "./chapa.ts";
+
+export type PaymentStatus = "pending" | "succeeded" | "failed";
+
+// Settle a payment from what the provider reports for it. Safe to call any
+// number of times for the same transaction: premium is granted once. Returns
+// null for a reference that isn't one of ours.
+export async function confirmPayment(
+  supabase: SupabaseClient,
+  txRef: string
+): Promise<PaymentStatus | null> {
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("id, amount, currency, status")
+    .eq("tx_ref", txRef)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!payment) return null;
+  if (payment.status !== "pending") return payment.status;
+
+  const transaction = await verifyTransaction(txRef);
+
+  if (transaction.status === "pending") return "pending";
+
+  const paidInFull =
+    transaction.currency === payment.currency &&
+    transaction.amount >= Number(payment.amount);
+
+  if (transaction.status === "success" && paidInFull) {
+    const { data: activated, error: completeError } = await supabase.rpc(
+      "complete_payment",
+      { _tx_ref: txRef, _provider_reference: transaction.reference }
+    );
+    if (completeError) throw completeError;
+
+    console.log("Payment confirmed:", { txRef, activated });
+    return "succeeded";
+  }
+
+  if (transaction.status === "success") {
+    console.error("Payment amount mismatch:", {
+      txRef,
+      expected: payment.amount,
+      paid: transaction.amount,
+      currency: transaction.currency,
+    });
+  }
+
+  const { error: failError } = await supabase
+    .from("payments")
+    .update({ status: "failed", provider_reference: transaction.reference })
+    .eq("id", payment.id)
+    .eq("status", "pending");
+  if (failError) throw failError;
+
+  return "failed";
+}
@@ -0,0 +1,262 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  chunkText,
+  downloadUpload,
+  extractPdfText,
+  imageMimeType,
+  isPdf,
+} from "./extract.ts";
+import { extractImageText } from "./ocr.ts";
+import {
+  batchSlides,
+  extractPptxSlides,
+  formatSlide,
+  isLegacyPpt,
+  isPptx,
+} from "./pptx.ts";
+import {
+  cardsPerChunk,
+  generateFlashcardsFromSlides,
+  generateFlashcardsFromText,
+  type GeneratedFlashcard,
+} from "./flashcards.ts";
+import { createQuizForSet } from "./quiz.ts";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  isOutputLanguage,
+} from "./language.ts";
+
+export type ProcessingStatus =
+  | "queued"
+  | "extracting"
+  | "generating"
+  | "completed"
+  | "failed";
+
+export interface UploadRecord {
+  id: string;
+  user_id: string;
+  file_name: string;
+  file_type: string;
+  file_url: string;
+  output_language: string;
+}
+
+export interface ProcessingResult {
+  setId: string;
+  flashcardsCount: number;
+}
+
+// Thrown for problems with the file itself; retrying will not help.
+export class UnprocessableUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnprocessableUploadError";
+  }
+}
+
+export async function setUploadStatus(
+  supabase: SupabaseClient,
+  uploadId: string,
+  status: ProcessingStatus,
+  processingError: string | null = null
+) {
+  const { error } = await supabase
+    .from("uploads")
+    .update({ processing_status: status, processing_error: processingError })
+    .eq("id", uploadId);
+
+  if (error) throw error;
+}
+
+async function saveExtractedText(
+  supabase: SupabaseClient,
+  uploadId: string,
+  text: string
+) {
+  const { error } = await supabase
+    .from("uploads")
+    .update({ extracted_text: text })
+    .eq("id", uploadId);
+
+  if (error) throw error;
+}
+
+// Sets an earlier attempt created for this upload, with their card counts
+async function findUploadSets(
+  supabase: SupabaseClient,
+  uploadId: string
+): Promise<{ id: string; cardCount: number }[]> {
+  const { data, error } = await supabase
+    .from("flashcard_sets")
+    .select("id, flashcards(count)")
+    .eq("upload_id", uploadId);
+
+  if (error) throw error;
+  return (data ?? []).map((set) => ({
+    id: set.id,
+    cardCount: set.flashcards?.[0]?.count ?? 0,
+  }));
+}
+
+// Download an upload, extract its text, generate flashcards and store them as
+// a new set. Status moves through extracting -> generating; the caller is
+// responsible for marking the upload completed or failed.
+export async function processUpload(
+  supabase: SupabaseClient,
+  upload: UploadRecord
+): Promise<ProcessingResult> {
+  const uploadId = upload.id;
+  const fileName = upload.file_name;
+  const language = isOutputLanguage(upload.output_language)
+    ? upload.output_language
+    : DEFAULT_OUTPUT_LANGUAGE;
+
+  // A set with cards means an earlier attempt got as far as saving its work.
+  // The owner may have edited or studied it since, so keep it rather than
+  // generating a replacement.
+  const earlierSets = await findUploadSets(supabase, uploadId);
+  const savedSet = earlierSets.find((set) => set.cardCount > 0);
+  if (savedSet) {
+    return { setId: savedSet.id, flashcardsCount: savedSet.cardCount };
+  }
+
+  await setUploadStatus(supabase, uploadId, "extracting");
+
+  // Always go through the stored record rather than a client-supplied URL.
+  const fileBytes = await downloadUpload(supabase, upload.file_url);
+  console.log("Downloaded file:", fileBytes.byteLength, "bytes");
+
+  let documentText: string;
+  const flashcardsData: GeneratedFlashcard[] = [];
+  const imageType = imageMimeType(upload.file_name, upload.file_type);
+
+  if (isPptx(upload.file_name, upload.file_type)) {
+    const slides = await extractPptxSlides(fileBytes);
+    if (slides.length === 0) {
+      throw new UnprocessableUploadError(
+        "No readable text found in this presentation."
+      );
+    }
+    documentText = slides.map(formatSlide).join("\n\n");
+    await saveExtractedText(supabase, uploadId, documentText);
+    await setUploadStatus(supabase, uploadId, "generating");
+
+    // Generate cards slide by slide so each keeps its slide reference
+    const batches = batchSlides(slides);
+    console.log("Extracted slides:", {
+      slides: slides.length,
+      batches: batches.length,
+    });
+
+    for (const [index, batch] of batches.entries()) {
+      const cards = await generateFlashcardsFromSlides(
+        fileName,
+        batch,
+        language,
+        { index, total: batches.length }
+      );
+      flashcardsData.push(...cards);
+    }
+  } else {
+    if (imageType) {
+      documentText = await extractImageText(fileBytes, imageType);
+      if (!documentText) {
+        throw new UnprocessableUploadError(
+          "No readable text found in this image. Try a sharper, well-lit photo."
+        );
+      }
+    } else if (isPdf(upload.file_name, upload.file_type)) {
+      documentText = await extractPdfText(fileBytes);
+      if (!documentText) {
+        throw new UnprocessableUploadError(
+          "No readable text found in this PDF. Scanned documents are not supported yet."
+        );
+      }
+    } else if (isLegacyPpt(upload.file_name, upload.file_type)) {
+      throw new UnprocessableUploadError(
+        "Old .ppt files can't be read. Please save the presentation as .pptx and upload it again."
+      );
+    } else {
+      throw new UnprocessableUploadError(
+        `Unsupported file type: ${upload.file_type || fileName}`
+      );
+    }
+    await saveExtractedText(supabase, uploadId, documentText);
+    await setUploadStatus(supabase, uploadId, "generating");
+
+    // Call AI to generate flashcards, one request per chunk of content
+    const chunks = chunkText(documentText);
+    const perChunk = cardsPerChunk(chunks.length);
+    console.log("Extracted text:", {
+      chars: documentText.length,
+      chunks: chunks.length,
+    });
+
+    for (const [index, chunk] of chunks.entries()) {
+      const cards = await generateFlashcardsFromText(
+        fileName,
+        chunk,
+        perChunk,
+        language,
+        { index, total: chunks.length }
+      );
+      flashcardsData.push(...cards);
+    }
+  }
+
+  if (flashcardsData.length === 0) {
+    throw new Error("No flashcards generated");
+  }
+
+  // Clear out empty sets left behind by an earlier, partially failed attempt
+  if (earlierSets.length > 0) {
+    const { error: cleanupError } = await supabase
+      .from("flashcard_sets")
+      .delete()
+      .in("id", earlierSets.map((set) => set.id));
+
+    if (cleanupError) throw cleanupError;
+  }
+
+  // Create flashcard set
+  const { data: flashcardSet, error: setError } = await supabase
+    .from("flashcard_sets")
+    .insert({
+      user_id: upload.user_id,
+      upload_id: uploadId,
+      title: fileName.replace(/\.[^/.]+$/, ""), // Remove file extension
+      description: `Generated from ${fileName}`,
+      language,
+    })
+    .select()
+    .single();
+
+  if (setError) throw setError;
+
+  // Insert flashcards
+  const flashcardsToInsert = flashcardsData.map((card, index) => ({
+    set_id: flashcardSet.id,
+    question: card.question,
+    answer: card.answer,
+    slide_number: card.slide ?? null,
+    order_index: index,
+  }));
+
+  const { error: cardsError } = await supabase
+    .from("flashcards")
+    .insert(flashcardsToInsert);
+
+  if (cardsError) throw cardsError;
+
+  // The stored AI quiz is a bonus; never fail the upload because of it
+  if (flashcardsToInsert.length >= 4) {
+    try {
+      await createQuizForSet(supabase, flashcardSet.id);
+    } catch (quizError) {
+      console.error("Failed to generate quiz:", quizError);
+    }
+  }
+
+  return { setId: flashcardSet.id, flashcardsCount: flashcardsData.length };
+}
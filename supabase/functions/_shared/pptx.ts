@@ -0,0 +1,195 @@
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import { MAX_CHUNK_CHARS, MAX_CHUNKS } from "./extract.ts";
+
+export interface Slide {
+  number: number;
+  title: string;
+  body: string;
+  notes: string;
+}
+
+export function isPptx(fileName: string, fileType: string): boolean {
+  return (
+    fileType ===
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation" ||
+    /\.pptx$/i.test(fileName)
+  );
+}
+
+export function isLegacyPpt(fileName: string, fileType: string): boolean {
+  return (
+    fileType === "application/vnd.ms-powerpoint" || /\.ppt$/i.test(fileName)
+  );
+}
+
+// Walk the slides of a .pptx deck in presentation order, pulling out each
+// slide's title, body text (including tables) and speaker notes.
+export async function extractPptxSlides(bytes: Uint8Array): Promise<Slide[]> {
+  const zip = await JSZip.loadAsync(bytes);
+  const slidePaths = await orderedSlidePaths(zip);
+  const slides: Slide[] = [];
+
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slideXml = await zip.file(slidePath)?.async("string");
+    if (!slideXml) continue;
+
+    const shapes = slideXml.match(/<p:sp>[\s\S]*?<\/p:sp>/g) ?? [];
+    const titleShapes = shapes.filter((shape) =>
+      /<p:ph\b[^>]*type="(title|ctrTitle)"/.test(shape)
+    );
+    const title = titleShapes.map(paragraphText).join(" ").trim();
+
+    let bodyXml = slideXml;
+    for (const shape of titleShapes) bodyXml = bodyXml.replace(shape, "");
+    const body = paragraphText(bodyXml);
+
+    const notesPath = await relatedPath(zip, slidePath, "notesSlide");
+    const notesXml = notesPath
+      ? await zip.file(notesPath)?.async("string")
+      : undefined;
+    // Only the body placeholder holds the notes; the rest is the slide
+    // thumbnail and slide number.
+    const notes = (notesXml?.match(/<p:sp>[\s\S]*?<\/p:sp>/g) ?? [])
+      .filter((shape) => /<p:ph\b[^>]*type="body"/.test(shape))
+      .map(paragraphText)
+      .join("\n")
+      .trim();
+
+    if (title || body || notes) {
+      slides.push({ number: index + 1, title, body, notes });
+    }
+  }
+
+  return slides;
+}
+
+export function formatSlide(slide: Slide): string {
+  const heading = slide.title
+    ? `### Slide ${slide.number}: ${slide.title}`
+    : `### Slide ${slide.number}`;
+  const lines = [heading];
+  if (slide.body) lines.push(slide.body);
+  if (slide.notes) lines.push(`Speaker notes: ${slide.notes}`);
+  return lines.join("\n");
+}
+
+// Slide file names do not always match presentation order (slides can be
+// reordered after creation), so follow presentation.xml's slide id list.
+async function orderedSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentationXml = await zip
+    .file("ppt/presentation.xml")
+    ?.async("string");
+  const relsXml = await zip
+    .file("ppt/_rels/presentation.xml.rels")
+    ?.async("string");
+
+  if (presentationXml && relsXml) {
+    const targets = relationshipTargets(relsXml);
+    const slideIds = presentationXml.matchAll(/<p:sldId\b[^>]*r:id="([^"]+)"/g);
+    const ordered = [...slideIds]
+      .map((match) => targets.get(match[1]))
+      .filter((target): target is string => !!target)
+      .map((target) => resolvePath("ppt/presentation.xml", target));
+
+    if (ordered.length > 0) return ordered;
+  }
+
+  return Object.keys(zip.files)
+    .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+    .sort((a, b) => slideFileNumber(a) - slideFileNumber(b));
+}
+
+async function relatedPath(
+  zip: JSZip,
+  partPath: string,
+  relationType: string
+): Promise<string | null> {
+  const slash = partPath.lastIndexOf("/");
+  const directory = partPath.slice(0, slash);
+  const relsPath = `${directory}/_rels/${partPath.slice(slash + 1)}.rels`;
+  const relsXml = await zip.file(relsPath)?.async("string");
+  if (!relsXml) return null;
+
+  const match = relsXml.match(
+    new RegExp(`<Relationship\\b[^>]*Type="[^"]*/${relationType}"[^>]*>`)
+  );
+  const target = match?.[0].match(/Target="([^"]+)"/)?.[1];
+  return target ? resolvePath(partPath, target) : null;
+}
+
+function relationshipTargets(relsXml: string): Map<string, string> {
+  const targets = new Map<string, string>();
+  for (const [relationship] of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = relationship.match(/Id="([^"]+)"/)?.[1];
+    const target = relationship.match(/Target="([^"]+)"/)?.[1];
+    if (id && target) targets.set(id, target);
+  }
+  return targets;
+}
+
+function resolvePath(fromPart: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const segments = fromPart.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== ".") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+function slideFileNumber(path: string): number {
+  return Number(path.match(/slide(\d+)\.xml$/)?.[1] ?? 0);
+}
+
+// Join the text runs of each <a:p> paragraph, one paragraph per line.
+function paragraphText(xml: string): string {
+  const paragraphs = xml.match(/<a:p>[\s\S]*?<\/a:p>/g) ?? [];
+  return paragraphs
+    .map((paragraph) =>
+      [...paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g)]
+        .map((run) => decodeXmlEntities(run[1]))
+        .join("")
+        .trim()
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
+
+// Group consecutive slides into batches that fit one generation request.
+export function batchSlides(
+  slides: Slide[],
+  maxChars: number = MAX_CHUNK_CHARS,
+  maxBatches: number = MAX_CHUNKS
+): Slide[][] {
+  const batches: Slide[][] = [];
+  let current: Slide[] = [];
+  let currentChars = 0;
+
+  for (const slide of slides) {
+    const size = formatSlide(slide).length;
+    if (current.length > 0 && currentChars + size > maxChars) {
+      batches.push(current);
+      if (batches.length === maxBatches) return batches;
+      current = [];
+      currentChars = 0;
+    }
+    current.push(slide);
+    currentChars += size;
+  }
+
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chatCompletion, parseJsonArray } from "./ai.ts";
+import {
+  DEFAULT_OUTPUT_LANGUAGE,
+  isOutputLanguage,
+  languageInstruction,
+  type OutputLanguage,
+} from "./language.ts";
+
+// Mirrors the QuizQuestion union in src/lib/quiz.ts
+export type QuizQuestion = { question: string; explanation: string } & (
+  | { type: "mcq"; options: string[]; correctAnswer: number }
+  | { type: "true_false"; answer: boolean }
+  | { type: "cloze"; answer: string }
+  | { type: "short_answer"; answer: string; acceptedAnswers: string[] }
+  | { type: "matching"; pairs: { left: string; right: string }[] }
+);
+
+const CLOZE_BLANK = "_____";
+
+interface SourceCard {
+  question: string;
+  answer: string;
+}
+
+export const MAX_QUIZ_QUESTIONS = 10;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+// Check one question from the model and drop any fields it should not have.
+// Anything malformed is skipped rather than failing the whole quiz.
+function toQuizQuestion(raw: Record<string, unknown>): QuizQuestion | null {
+  if (!raw || !isNonEmptyString(raw.question)) return null;
+  const base = {
+    question: raw.question,
+    explanation: isNonEmptyString(raw.explanation) ? raw.explanation : "",
+  };
+
+  switch (raw.type ?? "mcq") {
+    case "mcq": {
+      const { options, correctAnswer } = raw;
+      if (
+        !Array.isArray(options) ||
+        options.length !== 4 ||
+        !options.every(isNonEmptyString) ||
+        typeof correctAnswer !== "number" ||
+        !Number.isInteger(correctAnswer) ||
+        correctAnswer < 0 ||
+        correctAnswer >= options.length
+      ) {
+        return null;
+      }
+      return { ...base, type: "mcq", options, correctAnswer };
+    }
+    case "true_false":
+      if (typeof raw.answer !== "boolean") return null;
+      return { ...base, type: "true_false", answer: raw.answer };
+    case "cloze":
+      if (!isNonEmptyString(raw.answer) || !raw.question.includes(CLOZE_BLANK)) {
+        return null;
+      }
+      return { ...base, type: "cloze", answer: raw.answer };
+    case "short_answer": {
+      if (!isNonEmptyString(raw.answer)) return null;
+      const acceptedAnswers = Array.isArray(raw.acceptedAnswers)
+        ? raw.acceptedAnswers.filter(isNonEmptyString)
+        : [];
+      return { ...base, type: "short_answer", answer: raw.answer, acceptedAnswers };
+    }
+    case "matching": {
+      const pairs = Array.isArray(raw.pairs)
+        ? raw.pairs
+            .filter((pair) => isNonEmptyString(pair?.left) && isNonEmptyString(pair?.right))
+            .map((pair) => ({ left: pair.left, right: pair.right }))
+        : [];
+      if (pairs.length < 2) return null;
+      return { ...base, type: "matching", pairs };
+    }
+    default:
+      return null;
+  }
+}
+
+// Ask the model for a mixed quiz. Multiple-choice distractors must be
+// plausible: same topic, same kind of answer and similar length as the correct
+// one, so the answer cannot be spotted without knowing the material.
+export async function generateQuizQuestions(
+  title: string,
+  cards: SourceCard[],
+  language: OutputLanguage
+): Promise<QuizQuestion[]> {
+  const questionCount = Math.min(MAX_QUIZ_QUESTIONS, cards.length);
+  const cardList = cards
+    .map((card, index) => `${index + 1}. Q: ${card.question}\n   A: ${card.answer}`)
+    .join("\n");
+
+  const aiPrompt = `You are an exam writer. Using the study flashcards below, write ${questionCount} questions for a quiz on "${title}".
+
+--- BEGIN FLASHCARDS ---
+${cardList}
+--- END FLASHCARDS ---
+
+Mix these question types, using mostly "mcq" and at least one of each other type when the material allows:
+- "mcq": exactly 4 options with exactly one correct answer. Distractors must come from the same topic, be believable to a student who has not mastered the material, and match the correct option in length, grammar and level of detail. Never use "all of the above" or "none of the above".
+- "true_false": a statement that is clearly true or clearly false according to the flashcards.
+- "cloze": a sentence with one key term replaced by ${CLOZE_BLANK}; the answer is that term.
+- "short_answer": a question whose answer is a short term or name (at most four words). List common alternative spellings in "acceptedAnswers".
+- "matching": 3 to 5 pairs of related terms and definitions.
+
+Every question tests one important concept and includes a one or two sentence explanation.
+
+${languageInstruction(language)} Keep the JSON keys and "type" values in English.
+
+Return ONLY a valid JSON array whose items have these exact structures:
+[
+  { "type": "mcq", "question": "Question text?", "options": ["Option A", "Option B", "Option C", "Option D"], "correctAnswer": 0, "explanation": "Why the correct option is right." },
+  { "type": "true_false", "question": "Statement to judge.", "answer": true, "explanation": "..." },
+  { "type": "cloze", "question": "The ${CLOZE_BLANK} is the powerhouse of the cell.", "answer": "mitochondria", "explanation": "..." },
+  { "type": "short_answer", "question": "Question text?", "answer": "Expected answer", "acceptedAnswers": ["Alternative"], "explanation": "..." },
+  { "type": "matching", "question": "Match each term with its definition", "pairs": [{ "left": "Term", "right": "Definition" }], "explanation": "..." }
+]
+
+"correctAnswer" is the zero-based index of the correct option. Vary its position between questions.
+
+Important: Return ONLY the JSON array, no other text or explanation.`;
+
+  const content = await chatCompletion([
+    {
+      role: "system",
+      content: "You are an expert exam writer. Return only valid JSON arrays.",
+    },
+    { role: "user", content: aiPrompt },
+  ]);
+
+  let questions: Record<string, unknown>[];
+  try {
+    questions = parseJsonArray<Record<string, unknown>>(content);
+  } catch (parseError) {
+    console.error("Failed to parse AI quiz response:", content);
+    throw new Error("Failed to generate quiz. Please try again.");
+  }
+
+  const valid = questions
+    .map(toQuizQuestion)
+    .filter((question): question is QuizQuestion => question !== null);
+
+  if (valid.length === 0) {
+    throw new Error("No quiz questions generated");
+  }
+
+  return valid;
+}
+
+// Generate a quiz for a set from its current flashcards and store it in
+// `quizzes`, replacing any earlier generated quiz for the set.
+export async function createQuizForSet(
+  supabase: SupabaseClient,
+  setId: string
+): Promise<{ quizId: string; questions: QuizQuestion[] }> {
+  const { data: set, error: setError } = await supabase
+    .from("flashcard_sets")
+    .select("title, language")
+    .eq("id", setId)
+    .single();
+
+  if (setError) throw setError;
+
+  const { data: cards, error: cardsError } = await supabase
+    .from("flashcards")
+    .select("question, answer")
+    .eq("set_id", setId)
+    .order("order_index", { ascending: true });
+
+  if (cardsError) throw cardsError;
+  if (!cards || cards.length < 4) {
+    throw new Error("Need at least 4 flashcards to generate a quiz");
+  }
+
+  const language = isOutputLanguage(set.language)
+    ? set.language
+    : DEFAULT_OUTPUT_LANGUAGE;
+  const questions = await generateQuizQuestions(set.title, cards, language);
+
+  const { error: deleteError } = await supabase
+    .from("quizzes")
+    .delete()
+    .eq("set_id", setId);
+
+  if (deleteError) throw deleteError;
+
+  const { data: quiz, error: quizError } = await supabase
+    .from("quizzes")
+    .insert({ set_id: setId, questions })
+    .select("id")
+    .single();
+
+  if (quizError) throw quizError;
+
+  return { quizId: quiz.id, questions };
+}
@@ -0,0 +1,28 @@
+import {
+  createClient,
+  type SupabaseClient,
+  type User,
+} from "https://esm.sh/@supabase/supabase-js@2";
+
+export function createServiceClient(): SupabaseClient {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+// Resolve the user behind the request's bearer token, or null if missing or
+// invalid.
+export async function getRequestUser(
+  supabase: SupabaseClient,
+  req: Request
+): Promise<User | null> {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  return error ? null : user;
+}
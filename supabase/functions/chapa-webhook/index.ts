@@ -0,0 +1,57 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { hasValidSignature } from "../_shared/chapa.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { confirmPayment } from "../_shared/payments.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Payment notifications from Chapa. The signed webhook (POST) is the primary
+// path; the unsigned callback (GET ?trx_ref=...) Chapa fires when the payer
+// finishes checkout is accepted too, because either way the transaction is
+// verified with Chapa before anything is granted.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    let txRef: string | null;
+
+    if (req.method === "GET") {
+      const params = new URL(req.url).searchParams;
+      txRef = params.get("trx_ref") ?? params.get("tx_ref");
+    } else {
+      const payload = await req.text();
+      const signature =
+        req.headers.get("x-chapa-signature") ?? req.headers.get("chapa-signature");
+
+      if (!(await hasValidSignature(payload, signature))) {
+        console.error("Rejected webhook with an invalid signature");
+        return jsonResponse({ error: "Invalid signature" }, 401);
+      }
+
+      txRef = JSON.parse(payload).tx_ref ?? null;
+    }
+
+    if (!txRef) {
+      return jsonResponse({ error: "Missing transaction reference" }, 400);
+    }
+
+    console.log("Payment notification:", { txRef, method: req.method });
+
+    const supabase = createServiceClient();
+    const status = await confirmPayment(supabase, txRef);
+    if (!status) {
+      return jsonResponse({ error: "Payment not found" }, 404);
+    }
+
+    return jsonResponse({ success: true, txRef, status });
+  } catch (error) {
+    console.error("Error handling payment notification:", error);
+
+    // A non-2xx answer makes Chapa retry the webhook later
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
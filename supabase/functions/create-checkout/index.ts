@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { initializeCheckout } from "../_shared/chapa.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, getRequestUser } from "../_shared/supabase.ts";
+
+// Start an online payment for a premium plan. Records a pending payment and
+// returns the Chapa checkout page; premium is granted by chapa-webhook once
+// the provider confirms the money arrived.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { planId } = await req.json();
+
+    const supabase = createServiceClient();
+
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: plan, error: planError } = await supabase
+      .from("premium_plans")
+      .select("id, name, price_etb, duration_days")
+      .eq("id", planId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (planError) throw planError;
+    if (!plan) {
+      return jsonResponse({ error: "Plan not found" }, 404);
+    }
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("username")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    const txRef = `ethiocard-${crypto.randomUUID()}`;
+    const amount = Number(plan.price_etb);
+
+    const { error: insertError } = await supabase.from("payments").insert({
+      user_id: user.id,
+      plan_id: plan.id,
+      tx_ref: txRef,
+      amount,
+    });
+
+    if (insertError) throw insertError;
+
+    const siteUrl = Deno.env.get("SITE_URL") ?? req.headers.get("origin");
+    if (!siteUrl) throw new Error("SITE_URL not configured");
+
+    const checkoutUrl = await initializeCheckout({
+      txRef,
+      amount,
+      email: user.email!,
+      firstName: profile?.username ?? user.email!,
+      title: "Ethiocard AI",
+      description: `${plan.name} Premium - ${plan.duration_days} days`,
+      callbackUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/chapa-webhook`,
+      returnUrl: `${siteUrl.replace(/\/$/, "")}/premium?payment=${txRef}`,
+    });
+
+    console.log("Checkout started:", { txRef, planId: plan.id });
+
+    return jsonResponse({ success: true, txRef, checkoutUrl });
+  } catch (error) {
+    console.error("Error starting checkout:", error);
+
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, getRequestUser } from "../_shared/supabase.ts";
+import { createQuizForSet } from "../_shared/quiz.ts";
+
+// Generate (or regenerate) the stored AI quiz for one of the caller's sets.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { setId } = await req.json();
+
+    console.log("Generating quiz:", { setId });
+
+    const supabase = createServiceClient();
+
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: set, error: setError } = await supabase
+      .from("flashcard_sets")
+      .select("id, user_id")
+      .eq("id", setId)
+      .maybeSingle();
+
+    if (setError) throw setError;
+    if (!set || set.user_id !== user.id) {
+      return jsonResponse({ error: "Flashcard set not found" }, 404);
+    }
+
+    const { data: allowed, error: claimError } = await supabase.rpc(
+      "claim_quiz_generation",
+      { _user_id: user.id, _set_id: setId }
+    );
+
+    if (claimError) throw claimError;
+    if (!allowed) {
+      return jsonResponse(
+        { error: "Quiz generation limit reached. Please try again tomorrow." },
+        429
+      );
+    }
+
+    const { quizId, questions } = await createQuizForSet(supabase, setId);
+
+    console.log("Quiz generated:", { quizId, questions: questions.length });
+
+    return jsonResponse({ success: true, quizId, questions });
+  } catch (error) {
+    console.error("Error generating quiz:", error);
+
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,54 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { claimJob, runInBackground, runJob } from "../_shared/jobs.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+// Jobs run per invocation. Each can take a minute or more of AI calls, so
+// keep this small and let the per-minute cron schedule do the rest.
+const BATCH_SIZE = 3;
+
+// Invoked by pg_cron to drain due jobs: new uploads whose tab was closed before
+// process-upload ran, and failed jobs waiting for their retry.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createServiceClient();
+
+    // Claim each job only when it is about to run. Jobs claimed up front
+    // would sit locked behind the earlier ones and, if the worker hit its
+    // time limit first, stay "running" until the stale-job sweep.
+    runInBackground(
+      (async () => {
+        let ran = 0;
+        try {
+          while (ran < BATCH_SIZE) {
+            const job = await claimJob(supabase);
+            if (!job) break;
+            await runJob(supabase, job);
+            ran++;
+          }
+        } catch (error) {
+          console.error("Error draining queue:", error);
+        }
+        console.log("Jobs run:", ran);
+      })()
+    );
+
+    return jsonResponse({ success: true });
+  } catch (error) {
+    console.error("Error draining queue:", error);
+
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,95 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createTransport } from "../_shared/email.ts";
+import { renderEmail, type NotificationRecord } from "../_shared/notifications.ts";
+import { createServiceClient } from "../_shared/supabase.ts";
+
+const BATCH_SIZE = 20;
+// After this many failed sends the email is given up on; the notification
+// still shows in the app
+const MAX_ATTEMPTS = 5;
+
+// Invoked by pg_cron to email notifications the database has queued
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (token !== Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const siteUrl = Deno.env.get("SITE_URL");
+    if (!siteUrl) throw new Error("SITE_URL not configured");
+
+    const supabase = createServiceClient();
+    const transport = createTransport();
+
+    const { data, error } = await supabase.rpc("claim_notification_emails", {
+      _limit: BATCH_SIZE,
+    });
+    if (error) throw error;
+
+    const notifications = (data ?? []) as NotificationRecord[];
+    if (notifications.length === 0) {
+      return jsonResponse({ success: true, sent: 0, failed: 0 });
+    }
+
+    const userIds = [...new Set(notifications.map((notification) => notification.user_id))];
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, email")
+      .in("id", userIds);
+    if (profilesError) throw profilesError;
+
+    const emails = new Map((profiles ?? []).map((profile) => [profile.id, profile.email]));
+    let sent = 0;
+    let failed = 0;
+
+    for (const notification of notifications) {
+      try {
+        const to = emails.get(notification.user_id);
+        if (!to) throw new Error("No email address for user");
+
+        await transport.send({ to, ...renderEmail(notification, siteUrl) });
+
+        await supabase
+          .from("notifications")
+          .update({
+            email_status: "sent",
+            emailed_at: new Date().toISOString(),
+            email_locked_at: null,
+            email_error: null,
+          })
+          .eq("id", notification.id);
+        sent += 1;
+      } catch (sendError) {
+        const message = sendError instanceof Error ? sendError.message : "Unknown error";
+        console.error("Error emailing notification:", notification.id, message);
+
+        await supabase
+          .from("notifications")
+          .update({
+            email_status: notification.email_attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+            email_locked_at: null,
+            email_error: message,
+          })
+          .eq("id", notification.id);
+        failed += 1;
+      }
+    }
+
+    console.log("Notification emails:", { sent, failed });
+
+    return jsonResponse({ success: true, sent, failed });
+  } catch (error) {
+    console.error("Error sending notification emails:", error);
+
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
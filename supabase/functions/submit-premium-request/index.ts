@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { createServiceClient, getRequestUser } from "../_shared/supabase.ts";
+
+const SCREENSHOT_BUCKET = "payment-screenshots";
+
+// Hex SHA-256, so admins can spot the same screenshot sent twice
+async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Record a bank-transfer payment proof for admin review. The screenshot is
+// uploaded by the browser first; it is hashed here from the stored object so
+// the duplicate check can't be fed a made-up value.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      screenshotPath,
+      planId,
+      email,
+      username,
+      transactionReference,
+      amount,
+      payerName,
+      resubmissionOf,
+    } = await req.json();
+
+    const supabase = createServiceClient();
+
+    const user = await getRequestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const paidAmount = Number(amount);
+    if (
+      typeof screenshotPath !== "string" ||
+      !screenshotPath.startsWith(`${user.id}/`) ||
+      typeof transactionReference !== "string" ||
+      !transactionReference.trim() ||
+      typeof payerName !== "string" ||
+      !payerName.trim() ||
+      !(paidAmount > 0)
+    ) {
+      return jsonResponse({ error: "Missing or invalid payment details" }, 400);
+    }
+
+    const { data: plan, error: planError } = await supabase
+      .from("premium_plans")
+      .select("id")
+      .eq("id", planId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (planError) throw planError;
+    if (!plan) {
+      return jsonResponse({ error: "Plan not found" }, 404);
+    }
+
+    const { data: screenshot, error: downloadError } = await supabase.storage
+      .from(SCREENSHOT_BUCKET)
+      .download(screenshotPath);
+
+    if (downloadError || !screenshot) {
+      return jsonResponse({ error: "Screenshot not found" }, 404);
+    }
+
+    const { data: request, error: insertError } = await supabase
+      .from("premium_requests")
+      .insert({
+        user_id: user.id,
+        // The form prefills these from the account but lets the payer edit them
+        email: typeof email === "string" && email.trim() ? email.trim() : user.email!,
+        username: typeof username === "string" && username.trim() ? username.trim() : user.email!,
+        screenshot_url: screenshotPath,
+        screenshot_hash: await sha256Hex(await screenshot.arrayBuffer()),
+        plan_id: plan.id,
+        transaction_reference: transactionReference,
+        amount_etb: paidAmount,
+        payer_name: payerName.trim(),
+        resubmission_of: resubmissionOf ?? null,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      // Raised by check_transaction_reference
+      if (insertError.message === "duplicate_reference") {
+        return jsonResponse({ error: "duplicate_reference" }, 409);
+      }
+      throw insertError;
+    }
+
+    console.log("Premium request submitted:", { requestId: request.id, userId: user.id });
+
+    return jsonResponse({ success: true, requestId: request.id });
+  } catch (error) {
+    console.error("Error submitting premium request:", error);
+
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      500
+    );
+  }
+});
@@ -0,0 +1,4 @@
+-- Store the text pulled out of each upload (PDF text layer or OCR of an image)
+-- so generated flashcards can be traced back to their source and reviewed.
+ALTER TABLE public.uploads
+ADD COLUMN IF NOT EXISTS extracted_text text;
@@ -0,0 +1,3 @@
+-- Remember which slide of a presentation each generated flashcard came from
+ALTER TABLE public.flashcards
+ADD COLUMN IF NOT EXISTS slide_number integer;
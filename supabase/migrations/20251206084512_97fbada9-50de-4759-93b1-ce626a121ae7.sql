@@ -0,0 +1,129 @@
+-- Track real processing progress on uploads
+ALTER TABLE public.uploads
+ADD COLUMN IF NOT EXISTS processing_error text,
+ADD COLUMN IF NOT EXISTS updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Uploads left behind by the old synchronous flow will never finish
+UPDATE public.uploads
+SET processing_status = 'failed',
+    processing_error = 'Processing was interrupted. Please upload the file again.'
+WHERE processing_status IN ('pending', 'processing');
+
+ALTER TABLE public.uploads
+ALTER COLUMN processing_status SET DEFAULT 'queued';
+
+ALTER TABLE public.uploads
+ADD CONSTRAINT uploads_processing_status_check
+CHECK (processing_status IN ('queued', 'extracting', 'generating', 'completed', 'failed'));
+
+CREATE TRIGGER update_uploads_updated_at
+  BEFORE UPDATE ON public.uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Job queue consumed by the process-upload / process-queue edge functions
+CREATE TABLE public.processing_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  upload_id uuid NOT NULL REFERENCES public.uploads(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  run_after timestamp with time zone NOT NULL DEFAULT now(),
+  locked_at timestamp with time zone,
+  last_error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX processing_jobs_due_idx
+ON public.processing_jobs (run_after)
+WHERE status = 'queued';
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the service role only; admins can inspect them
+CREATE POLICY "Admins can view processing jobs"
+ON public.processing_jobs FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_processing_jobs_updated_at
+  BEFORE UPDATE ON public.processing_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every new upload enqueues a processing job
+CREATE OR REPLACE FUNCTION public.enqueue_upload_job()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.processing_jobs (upload_id)
+  VALUES (NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_upload_created
+  AFTER INSERT ON public.uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_upload_job();
+
+-- Atomically claim the next due job (optionally for a specific upload).
+-- SKIP LOCKED lets several workers drain the queue without double-processing.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(_upload_id uuid DEFAULT NULL)
+RETURNS SETOF public.processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.processing_jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_at = now()
+  WHERE id = (
+    SELECT id
+    FROM public.processing_jobs
+    WHERE status = 'queued'
+      AND run_after <= now()
+      AND (_upload_id IS NULL OR upload_id = _upload_id)
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_processing_job(uuid) TO service_role;
+
+-- Let the Dashboard follow status changes live
+ALTER TABLE public.uploads REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.uploads;
+
+-- Drain the queue every minute so jobs survive closed tabs and retries fire.
+-- Expects the service role key in Vault under the name 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-upload-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://ziwzaeaevjnlioijopzd.supabase.co/functions/v1/process-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,98 @@
+-- Re-queue an upload for processing. Owners may retry their failed uploads;
+-- admins may reprocess any upload (its existing set is replaced on success).
+CREATE OR REPLACE FUNCTION public.retry_upload(_upload_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _upload public.uploads%ROWTYPE;
+BEGIN
+  SELECT * INTO _upload FROM public.uploads WHERE id = _upload_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    IF _upload.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'Upload not found';
+    END IF;
+    IF _upload.processing_status <> 'failed' THEN
+      RAISE EXCEPTION 'Only failed uploads can be retried';
+    END IF;
+  END IF;
+
+  -- Drop any job still waiting so the upload is not processed twice
+  UPDATE public.processing_jobs
+  SET status = 'failed', last_error = 'Superseded by a retry'
+  WHERE upload_id = _upload_id AND status = 'queued';
+
+  INSERT INTO public.processing_jobs (upload_id)
+  VALUES (_upload_id);
+
+  UPDATE public.uploads
+  SET processing_status = 'queued', processing_error = NULL
+  WHERE id = _upload_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_upload(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.retry_upload(uuid) TO authenticated;
+
+-- Fail work that will never finish: jobs whose worker died mid-run, and
+-- uploads that have not moved for too long (e.g. the queue was never drained).
+CREATE OR REPLACE FUNCTION public.fail_stale_uploads(
+  _job_timeout interval DEFAULT interval '15 minutes',
+  _upload_timeout interval DEFAULT interval '1 hour'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _failed integer;
+BEGIN
+  UPDATE public.processing_jobs
+  SET status = 'failed',
+      locked_at = NULL,
+      last_error = 'Processing timed out'
+  WHERE status = 'running'
+    AND locked_at < now() - _job_timeout;
+
+  WITH stale AS (
+    UPDATE public.uploads u
+    SET processing_status = 'failed',
+        processing_error = 'Processing timed out. Please try again.'
+    WHERE u.processing_status IN ('queued', 'extracting', 'generating')
+      AND (
+        u.updated_at < now() - _upload_timeout
+        OR NOT EXISTS (
+          SELECT 1 FROM public.processing_jobs j
+          WHERE j.upload_id = u.id AND j.status IN ('queued', 'running')
+        )
+      )
+    RETURNING u.id
+  )
+  SELECT count(*) INTO _failed FROM stale;
+
+  UPDATE public.processing_jobs j
+  SET status = 'failed', last_error = 'Processing timed out'
+  FROM public.uploads u
+  WHERE j.upload_id = u.id
+    AND u.processing_status = 'failed'
+    AND j.status = 'queued';
+
+  RETURN _failed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.fail_stale_uploads(interval, interval) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'fail-stale-uploads',
+  '*/5 * * * *',
+  $$ SELECT public.fail_stale_uploads(); $$
+);
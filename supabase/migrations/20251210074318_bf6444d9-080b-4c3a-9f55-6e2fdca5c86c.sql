@@ -0,0 +1,65 @@
+-- Premium entitlement check shared by RLS policies (admins always qualify)
+CREATE OR REPLACE FUNCTION public.has_premium(_user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE id = _user_id AND is_premium = true
+  )
+$$;
+
+-- Per-user, per-card spaced repetition state for Memory Mode (SM-2)
+CREATE TABLE public.card_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  flashcard_id uuid NOT NULL REFERENCES public.flashcards(id) ON DELETE CASCADE,
+  ease_factor double precision NOT NULL DEFAULT 2.5,
+  interval_days integer NOT NULL DEFAULT 0,
+  repetitions integer NOT NULL DEFAULT 0,
+  lapses integer NOT NULL DEFAULT 0,
+  due_at timestamp with time zone NOT NULL DEFAULT now(),
+  last_grade text CHECK (last_grade IN ('again', 'hard', 'good', 'easy')),
+  last_reviewed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, flashcard_id)
+);
+
+CREATE INDEX card_reviews_user_due_idx ON public.card_reviews (user_id, due_at);
+
+ALTER TABLE public.card_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_card_reviews_updated_at
+  BEFORE UPDATE ON public.card_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view their own card reviews"
+ON public.card_reviews FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Recording reviews is the premium Memory Mode feature
+CREATE POLICY "Premium users can create card reviews"
+ON public.card_reviews FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_premium(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.flashcards f
+    JOIN public.flashcard_sets s ON s.id = f.set_id
+    WHERE f.id = flashcard_id AND s.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Premium users can update their card reviews"
+ON public.card_reviews FOR UPDATE
+USING (auth.uid() = user_id AND public.has_premium(auth.uid()));
+
+CREATE POLICY "Users can delete their own card reviews"
+ON public.card_reviews FOR DELETE
+USING (auth.uid() = user_id);
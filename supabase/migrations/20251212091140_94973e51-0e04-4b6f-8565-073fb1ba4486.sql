@@ -0,0 +1,37 @@
+-- One row per completed quiz: what was asked, what was answered, and the score
+CREATE TABLE public.quiz_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  set_id uuid NOT NULL REFERENCES public.flashcard_sets(id) ON DELETE CASCADE,
+  quiz_id uuid REFERENCES public.quizzes(id) ON DELETE SET NULL,
+  questions jsonb NOT NULL DEFAULT '[]',
+  answers jsonb NOT NULL DEFAULT '[]',
+  score integer NOT NULL,
+  total_questions integer NOT NULL,
+  duration_seconds integer NOT NULL,
+  started_at timestamp with time zone NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX quiz_attempts_user_set_idx ON public.quiz_attempts (user_id, set_id, created_at);
+
+ALTER TABLE public.quiz_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own quiz attempts"
+ON public.quiz_attempts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record quiz attempts for their sets"
+ON public.quiz_attempts FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.flashcard_sets
+    WHERE flashcard_sets.id = quiz_attempts.set_id
+    AND flashcard_sets.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own quiz attempts"
+ON public.quiz_attempts FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,40 @@
+-- Interface language chosen by each user
+ALTER TABLE public.profiles
+  ADD COLUMN language text NOT NULL DEFAULT 'en'
+  CHECK (language IN ('en', 'am', 'om', 'ti'));
+
+-- Keep the language picked on the sign-up screen
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  -- Insert profile
+  INSERT INTO public.profiles (id, username, email, is_premium, language)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', SPLIT_PART(NEW.email, '@', 1)),
+    NEW.email,
+    -- Admin gets premium for free
+    CASE WHEN NEW.email = 'kiyatesfaye82@gmail.com' THEN true ELSE false END,
+    CASE
+      WHEN NEW.raw_user_meta_data->>'language' IN ('en', 'am', 'om', 'ti')
+        THEN NEW.raw_user_meta_data->>'language'
+      ELSE 'en'
+    END
+  );
+  
+  -- Assign admin role if specific email, otherwise default user role
+  IF NEW.email = 'kiyatesfaye82@gmail.com' THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'admin');
+  ELSE
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'user');
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
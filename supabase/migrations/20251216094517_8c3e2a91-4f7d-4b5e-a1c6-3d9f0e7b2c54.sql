@@ -0,0 +1,12 @@
+-- Language the AI writes flashcards in, chosen per upload. Stored on the
+-- upload so queue retries and reprocessing keep it, and copied onto the set.
+ALTER TABLE public.uploads
+  ADD COLUMN output_language text NOT NULL DEFAULT 'en'
+  CHECK (output_language IN ('en', 'am', 'om', 'ti', 'bilingual'));
+
+ALTER TABLE public.flashcard_sets
+  ADD COLUMN language text NOT NULL DEFAULT 'en'
+  CHECK (language IN ('en', 'am', 'om', 'ti', 'bilingual'));
+
+CREATE INDEX idx_flashcard_sets_user_language
+  ON public.flashcard_sets (user_id, language);
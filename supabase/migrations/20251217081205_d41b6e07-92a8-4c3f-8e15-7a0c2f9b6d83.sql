@@ -0,0 +1,104 @@
+-- Free plan upload allowance; premium users and admins are unlimited
+CREATE OR REPLACE FUNCTION public.free_upload_limit()
+RETURNS integer
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT 6
+$$;
+
+-- How many uploads a user has made and how many their plan allows.
+-- upload_limit and remaining are NULL for unlimited plans.
+CREATE OR REPLACE FUNCTION public.upload_quota(_user_id uuid)
+RETURNS TABLE (used integer, upload_limit integer, remaining integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used integer;
+BEGIN
+  SELECT count(*)::integer INTO _used FROM public.uploads WHERE user_id = _user_id;
+
+  IF public.has_premium(_user_id) THEN
+    RETURN QUERY SELECT _used, NULL::integer, NULL::integer;
+  ELSE
+    RETURN QUERY SELECT
+      _used,
+      public.free_upload_limit(),
+      GREATEST(public.free_upload_limit() - _used, 0);
+  END IF;
+END;
+$$;
+
+-- Quota for the calling user, for the upload page
+CREATE OR REPLACE FUNCTION public.get_upload_quota()
+RETURNS TABLE (used integer, upload_limit integer, remaining integer)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.upload_quota(auth.uid())
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_upload(_user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(remaining > 0, true) FROM public.upload_quota(_user_id)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.upload_quota(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_upload_quota() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_upload_quota() TO authenticated;
+
+-- Reject uploads past the plan allowance. Clients match on the message;
+-- DETAIL carries the counts as JSON. The advisory lock stops two concurrent
+-- inserts from both taking the last free slot.
+CREATE OR REPLACE FUNCTION public.enforce_upload_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _quota record;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('upload_quota:' || NEW.user_id::text));
+
+  SELECT * INTO _quota FROM public.upload_quota(NEW.user_id);
+
+  IF _quota.remaining IS NOT NULL AND _quota.remaining <= 0 THEN
+    RAISE EXCEPTION 'quota_exceeded'
+      USING ERRCODE = 'P0001',
+            DETAIL = json_build_object('used', _quota.used, 'limit', _quota.upload_limit)::text,
+            HINT = 'Upgrade to premium for unlimited uploads';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_upload_quota
+  BEFORE INSERT ON public.uploads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_upload_quota();
+
+-- Refuse the file itself too, so storage space and the record insert cannot
+-- be used separately to get around the limit
+DROP POLICY IF EXISTS "Users can upload their own files" ON storage.objects;
+DROP POLICY IF EXISTS "Authenticated users can upload to uploads bucket" ON storage.objects;
+
+CREATE POLICY "Users can upload their own files within quota"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'uploads' AND
+    (storage.foldername(name))[1] = auth.uid()::text AND
+    public.can_upload(auth.uid())
+  );
@@ -0,0 +1,111 @@
+-- Premium lapses at premium_expires_at. A NULL expiry never lapses (the
+-- admin account is created that way).
+CREATE OR REPLACE FUNCTION public.has_premium(_user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE id = _user_id
+      AND is_premium = true
+      AND (premium_expires_at IS NULL OR premium_expires_at > now())
+  )
+$$;
+
+-- Length of one paid premium period
+CREATE OR REPLACE FUNCTION public.premium_period()
+RETURNS interval
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT interval '30 days'
+$$;
+
+-- Approve a pending payment and grant one premium period. A renewal paid
+-- before the current period ends is added on top of it, so no paid days are
+-- lost. Returns the new expiry (NULL for accounts that never expire).
+CREATE OR REPLACE FUNCTION public.approve_premium_request(_request_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.premium_requests%ROWTYPE;
+  _expires_at timestamp with time zone;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve premium requests';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.premium_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Premium request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be approved';
+  END IF;
+
+  UPDATE public.premium_requests
+  SET status = 'approved', reviewed_at = now(), reviewed_by = auth.uid()
+  WHERE id = _request_id;
+
+  UPDATE public.profiles
+  SET is_premium = true,
+      premium_expires_at = CASE
+        WHEN is_premium AND premium_expires_at IS NULL THEN NULL
+        WHEN is_premium AND premium_expires_at > now()
+          THEN premium_expires_at + public.premium_period()
+        ELSE now() + public.premium_period()
+      END
+  WHERE id = _request.user_id
+  RETURNING premium_expires_at INTO _expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.approve_premium_request(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_premium_request(uuid) TO authenticated;
+
+-- Switch off premium for subscriptions past their expiry. premium_expires_at
+-- is kept so the Premium page can say when it ended.
+CREATE OR REPLACE FUNCTION public.expire_premium_subscriptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired integer;
+BEGIN
+  UPDATE public.profiles
+  SET is_premium = false
+  WHERE is_premium = true
+    AND premium_expires_at IS NOT NULL
+    AND premium_expires_at <= now();
+
+  GET DIAGNOSTICS _expired = ROW_COUNT;
+  RETURN _expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_premium_subscriptions() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_premium_subscriptions() TO service_role;
+
+-- has_premium already ignores lapsed rows; this keeps is_premium honest for
+-- everything that reads the column directly
+SELECT cron.schedule(
+  'expire-premium-subscriptions',
+  '0 * * * *',
+  $$ SELECT public.expire_premium_subscriptions(); $$
+);
@@ -0,0 +1,154 @@
+-- Premium plans students can pay for. Prices are in Ethiopian Birr and are
+-- edited by admins; upload_limit NULL means unlimited uploads.
+CREATE TABLE public.premium_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE,
+  name text NOT NULL,
+  price_etb numeric(10, 2) NOT NULL CHECK (price_etb > 0),
+  duration_days integer NOT NULL CHECK (duration_days > 0),
+  upload_limit integer CHECK (upload_limit IS NULL OR upload_limit > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.premium_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_premium_plans_updated_at
+  BEFORE UPDATE ON public.premium_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone can view active premium plans"
+  ON public.premium_plans FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can view all premium plans"
+  ON public.premium_plans FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can create premium plans"
+  ON public.premium_plans FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update premium plans"
+  ON public.premium_plans FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.premium_plans (code, name, price_etb, duration_days, sort_order)
+VALUES
+  ('monthly', 'Monthly', 100, 30, 1),
+  ('semester', 'Semester', 400, 150, 2),
+  ('yearly', 'Yearly', 900, 365, 3);
+
+-- The plan a payment was made for. Requests from before plans existed have
+-- none and are granted the default period.
+ALTER TABLE public.premium_requests
+  ADD COLUMN plan_id uuid REFERENCES public.premium_plans(id);
+
+-- Plan of the current premium period, for its limits
+ALTER TABLE public.profiles
+  ADD COLUMN premium_plan_id uuid REFERENCES public.premium_plans(id);
+
+-- Grant the duration of the plan that was paid for
+CREATE OR REPLACE FUNCTION public.approve_premium_request(_request_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.premium_requests%ROWTYPE;
+  _period interval;
+  _expires_at timestamp with time zone;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve premium requests';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.premium_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Premium request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be approved';
+  END IF;
+
+  SELECT make_interval(days => duration_days) INTO _period
+  FROM public.premium_plans
+  WHERE id = _request.plan_id;
+
+  _period := COALESCE(_period, public.premium_period());
+
+  UPDATE public.premium_requests
+  SET status = 'approved', reviewed_at = now(), reviewed_by = auth.uid()
+  WHERE id = _request_id;
+
+  UPDATE public.profiles
+  SET is_premium = true,
+      premium_plan_id = COALESCE(_request.plan_id, premium_plan_id),
+      premium_expires_at = CASE
+        WHEN is_premium AND premium_expires_at IS NULL THEN NULL
+        WHEN is_premium AND premium_expires_at > now()
+          THEN premium_expires_at + _period
+        ELSE now() + _period
+      END
+  WHERE id = _request.user_id
+  RETURNING premium_expires_at INTO _expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Premium users get their plan's upload limit (unlimited when it has none)
+CREATE OR REPLACE FUNCTION public.upload_quota(_user_id uuid)
+RETURNS TABLE (used integer, upload_limit integer, remaining integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used integer;
+  _limit integer;
+BEGIN
+  SELECT count(*)::integer INTO _used FROM public.uploads WHERE user_id = _user_id;
+
+  IF public.has_premium(_user_id) THEN
+    SELECT plan.upload_limit INTO _limit
+    FROM public.profiles profile
+    JOIN public.premium_plans plan ON plan.id = profile.premium_plan_id
+    WHERE profile.id = _user_id AND NOT public.has_role(_user_id, 'admin');
+  ELSE
+    _limit := public.free_upload_limit();
+  END IF;
+
+  RETURN QUERY SELECT
+    _used,
+    _limit,
+    CASE WHEN _limit IS NULL THEN NULL ELSE GREATEST(_limit - _used, 0) END;
+END;
+$$;
+
+-- A premium plan can have a limit too, so report the plan separately
+DROP FUNCTION public.get_upload_quota();
+
+CREATE FUNCTION public.get_upload_quota()
+RETURNS TABLE (used integer, upload_limit integer, remaining integer, is_premium boolean)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT quota.*, public.has_premium(auth.uid())
+  FROM public.upload_quota(auth.uid()) quota
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_upload_quota() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_upload_quota() TO authenticated;
@@ -0,0 +1,148 @@
+-- Online checkouts through a payment gateway (Chapa, which also takes
+-- Telebirr and CBE Birr). Rows are written by the create-checkout and
+-- chapa-webhook edge functions with the service role; users can only read
+-- their own.
+CREATE TABLE public.payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id uuid NOT NULL REFERENCES public.premium_plans(id),
+  provider text NOT NULL DEFAULT 'chapa' CHECK (provider IN ('chapa')),
+  -- Our reference for the transaction, sent to the provider at checkout
+  tx_ref text NOT NULL UNIQUE,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'ETB',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  -- The provider's own reference, once it has confirmed the payment
+  provider_reference text,
+  paid_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_user_id_idx ON public.payments (user_id, created_at DESC);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Users can view their own payments"
+  ON public.payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all payments"
+  ON public.payments FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Extend a user's premium by one period of the given plan (the default period
+-- when there is none). A renewal bought before the current period ends is
+-- added on top of it. Returns the new expiry, NULL for accounts that never
+-- expire.
+CREATE OR REPLACE FUNCTION public.grant_premium(_user_id uuid, _plan_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _period interval;
+  _expires_at timestamp with time zone;
+BEGIN
+  SELECT make_interval(days => duration_days) INTO _period
+  FROM public.premium_plans
+  WHERE id = _plan_id;
+
+  _period := COALESCE(_period, public.premium_period());
+
+  UPDATE public.profiles
+  SET is_premium = true,
+      premium_plan_id = COALESCE(_plan_id, premium_plan_id),
+      premium_expires_at = CASE
+        WHEN is_premium AND premium_expires_at IS NULL THEN NULL
+        WHEN is_premium AND premium_expires_at > now()
+          THEN premium_expires_at + _period
+        ELSE now() + _period
+      END
+  WHERE id = _user_id
+  RETURNING premium_expires_at INTO _expires_at;
+
+  RETURN _expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_premium(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.grant_premium(uuid, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.approve_premium_request(_request_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.premium_requests%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve premium requests';
+  END IF;
+
+  SELECT * INTO _request
+  FROM public.premium_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Premium request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be approved';
+  END IF;
+
+  UPDATE public.premium_requests
+  SET status = 'approved', reviewed_at = now(), reviewed_by = auth.uid()
+  WHERE id = _request_id;
+
+  RETURN public.grant_premium(_request.user_id, _request.plan_id);
+END;
+$$;
+
+-- Record a payment the provider has confirmed and grant its plan. The
+-- provider can report the same payment more than once (webhook retries, the
+-- browser callback), so only the first confirmation grants anything.
+-- Returns true when this call activated premium.
+CREATE OR REPLACE FUNCTION public.complete_payment(_tx_ref text, _provider_reference text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payments%ROWTYPE;
+BEGIN
+  SELECT * INTO _payment
+  FROM public.payments
+  WHERE tx_ref = _tx_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF _payment.status = 'succeeded' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'succeeded', provider_reference = _provider_reference, paid_at = now()
+  WHERE id = _payment.id;
+
+  PERFORM public.grant_premium(_payment.user_id, _payment.plan_id);
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payment(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_payment(text, text) TO service_role;
@@ -0,0 +1,18 @@
+-- Details of the bank transfer behind a payment screenshot, so admins can
+-- match it against the bank statement. Requests from before this have none.
+ALTER TABLE public.premium_requests
+  ADD COLUMN transaction_reference text,
+  ADD COLUMN amount_etb numeric(10, 2) CHECK (amount_etb IS NULL OR amount_etb > 0),
+  ADD COLUMN payer_name text,
+  -- SHA-256 of the uploaded screenshot, hex encoded
+  ADD COLUMN screenshot_hash text;
+
+-- The same receipt submitted more than once is flagged in the admin panel;
+-- references are stored upper-cased without spaces so they compare equal
+CREATE INDEX premium_requests_transaction_reference_idx
+  ON public.premium_requests (transaction_reference)
+  WHERE transaction_reference IS NOT NULL;
+
+CREATE INDEX premium_requests_screenshot_hash_idx
+  ON public.premium_requests (screenshot_hash)
+  WHERE screenshot_hash IS NOT NULL;
@@ -0,0 +1,45 @@
+-- Why a request was rejected, as one of the reasons the app can translate.
+-- admin_notes carries any extra explanation in the admin's own words.
+ALTER TABLE public.premium_requests
+  ADD COLUMN rejection_reason text CHECK (
+    rejection_reason IS NULL OR rejection_reason IN (
+      'amount_mismatch',
+      'reference_not_found',
+      'unreadable_screenshot',
+      'duplicate_receipt',
+      'other'
+    )
+  ),
+  -- The rejected request this one corrects
+  ADD COLUMN resubmission_of uuid REFERENCES public.premium_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX premium_requests_resubmission_of_idx
+  ON public.premium_requests (resubmission_of)
+  WHERE resubmission_of IS NOT NULL;
+
+-- A resubmission has to correct one of the user's own rejected requests
+CREATE OR REPLACE FUNCTION public.check_premium_resubmission()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.resubmission_of IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.premium_requests
+    WHERE id = NEW.resubmission_of
+      AND user_id = NEW.user_id
+      AND status = 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'Only your own rejected requests can be resubmitted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_premium_resubmission
+  BEFORE INSERT ON public.premium_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_premium_resubmission();
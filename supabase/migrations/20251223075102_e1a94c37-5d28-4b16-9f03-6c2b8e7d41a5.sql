@@ -0,0 +1,252 @@
+-- Account events shown in the Dashboard bell and emailed to the user. The
+-- database writes them from triggers; the send-notification-emails function
+-- delivers the email side. Texts are rendered by the app from type + data.
+CREATE TABLE public.notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN (
+    'premium_approved',
+    'premium_rejected',
+    'payment_received',
+    'premium_expiring',
+    'premium_expired',
+    'upload_completed',
+    'upload_failed'
+  )),
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamp with time zone,
+  email_status text NOT NULL DEFAULT 'pending' CHECK (email_status IN ('pending', 'sending', 'sent', 'failed')),
+  email_attempts integer NOT NULL DEFAULT 0,
+  email_locked_at timestamp with time zone,
+  email_error text,
+  emailed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+CREATE INDEX notifications_email_pending_idx ON public.notifications (created_at)
+  WHERE email_status IN ('pending', 'sending');
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users only read theirs; marking as read goes through mark_notifications_read
+CREATE POLICY "Users can view their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Let the bell update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE OR REPLACE FUNCTION public.notify(_user_id uuid, _type text, _data jsonb DEFAULT '{}'::jsonb)
+RETURNS void
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (user_id, type, data)
+  VALUES (_user_id, _type, jsonb_strip_nulls(_data))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify(uuid, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify(uuid, text, jsonb) TO service_role;
+
+-- Mark the caller's notifications as read: the given ones, or all of them
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(_ids uuid[] DEFAULT NULL)
+RETURNS void
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications
+  SET read_at = now()
+  WHERE user_id = auth.uid()
+    AND read_at IS NULL
+    AND (_ids IS NULL OR id = ANY(_ids))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) TO authenticated;
+
+-- Hand out a batch of notifications to email. Rows left in 'sending' by a
+-- worker that died are picked up again after a while.
+CREATE OR REPLACE FUNCTION public.claim_notification_emails(_limit integer DEFAULT 20)
+RETURNS SETOF public.notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.notifications
+  SET email_status = 'sending',
+      email_attempts = email_attempts + 1,
+      email_locked_at = now()
+  WHERE id IN (
+    SELECT id
+    FROM public.notifications
+    WHERE email_status = 'pending'
+       OR (email_status = 'sending' AND email_locked_at < now() - interval '15 minutes')
+    ORDER BY created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_notification_emails(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_notification_emails(integer) TO service_role;
+
+-- Premium review outcome
+CREATE OR REPLACE FUNCTION public.notify_premium_request_reviewed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' THEN
+    PERFORM public.notify(NEW.user_id, 'premium_approved', jsonb_build_object('request_id', NEW.id));
+  ELSIF NEW.status = 'rejected' THEN
+    PERFORM public.notify(NEW.user_id, 'premium_rejected', jsonb_build_object(
+      'request_id', NEW.id,
+      'rejection_reason', NEW.rejection_reason,
+      'admin_notes', NEW.admin_notes
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_premium_request_reviewed
+  AFTER UPDATE OF status ON public.premium_requests
+  FOR EACH ROW
+  WHEN (OLD.status = 'pending' AND NEW.status <> 'pending')
+  EXECUTE FUNCTION public.notify_premium_request_reviewed();
+
+-- Online payment confirmed by the gateway
+CREATE OR REPLACE FUNCTION public.notify_payment_received()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify(NEW.user_id, 'payment_received', jsonb_build_object(
+    'payment_id', NEW.id,
+    'amount', NEW.amount
+  ));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_payment_received
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW
+  WHEN (OLD.status <> 'succeeded' AND NEW.status = 'succeeded')
+  EXECUTE FUNCTION public.notify_payment_received();
+
+-- Processing finished, one way or the other
+CREATE OR REPLACE FUNCTION public.notify_upload_processed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.processing_status = 'completed' THEN
+    PERFORM public.notify(NEW.user_id, 'upload_completed', jsonb_build_object(
+      'upload_id', NEW.id,
+      'file_name', NEW.file_name,
+      'set_id', (
+        SELECT id FROM public.flashcard_sets
+        WHERE upload_id = NEW.id
+        ORDER BY created_at DESC
+        LIMIT 1
+      )
+    ));
+  ELSE
+    PERFORM public.notify(NEW.user_id, 'upload_failed', jsonb_build_object(
+      'upload_id', NEW.id,
+      'file_name', NEW.file_name,
+      'error', NEW.processing_error
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_upload_processed
+  AFTER UPDATE OF processing_status ON public.uploads
+  FOR EACH ROW
+  WHEN (
+    OLD.processing_status IS DISTINCT FROM NEW.processing_status
+    AND NEW.processing_status IN ('completed', 'failed')
+  )
+  EXECUTE FUNCTION public.notify_upload_processed();
+
+-- The hourly expiry job now also tells users: a reminder three days ahead
+-- (once per expiry date, so a renewal gets its own reminder) and a notice
+-- when premium has ended.
+CREATE OR REPLACE FUNCTION public.expire_premium_subscriptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired integer;
+BEGIN
+  INSERT INTO public.notifications (user_id, type, data)
+  SELECT p.id, 'premium_expiring', jsonb_build_object('expires_at', p.premium_expires_at)
+  FROM public.profiles p
+  WHERE p.is_premium = true
+    AND p.premium_expires_at > now()
+    AND p.premium_expires_at <= now() + interval '3 days'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications n
+      WHERE n.user_id = p.id
+        AND n.type = 'premium_expiring'
+        AND (n.data->>'expires_at')::timestamptz = p.premium_expires_at
+    );
+
+  WITH expired AS (
+    UPDATE public.profiles
+    SET is_premium = false
+    WHERE is_premium = true
+      AND premium_expires_at IS NOT NULL
+      AND premium_expires_at <= now()
+    RETURNING id, premium_expires_at
+  ),
+  notified AS (
+    INSERT INTO public.notifications (user_id, type, data)
+    SELECT id, 'premium_expired', jsonb_build_object('expired_at', premium_expires_at)
+    FROM expired
+    RETURNING 1
+  )
+  SELECT count(*) INTO _expired FROM notified;
+
+  RETURN _expired;
+END;
+$$;
+
+-- Send queued emails every minute. Expects the service role key in Vault
+-- under the name 'service_role_key', like the upload queue.
+SELECT cron.schedule(
+  'send-notification-emails',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://ziwzaeaevjnlioijopzd.supabase.co/functions/v1/send-notification-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (
+        SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+      )
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,52 @@
+-- Create a set from imported cards in one transaction, so a failed import
+-- never leaves an empty set behind. Imports don't go through the uploads
+-- table, so they don't count against the upload quota. Runs as the caller:
+-- the flashcard_sets and flashcards policies still apply.
+CREATE OR REPLACE FUNCTION public.import_flashcard_set(
+  _title text,
+  _description text,
+  _language text,
+  _cards jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _set_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF jsonb_typeof(_cards) <> 'array' OR jsonb_array_length(_cards) = 0 THEN
+    RAISE EXCEPTION 'no_cards';
+  END IF;
+
+  IF jsonb_array_length(_cards) > 2000 THEN
+    RAISE EXCEPTION 'too_many_cards';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_cards) AS card
+    WHERE COALESCE(btrim(card->>'question'), '') = ''
+       OR COALESCE(btrim(card->>'answer'), '') = ''
+  ) THEN
+    RAISE EXCEPTION 'empty_card';
+  END IF;
+
+  INSERT INTO public.flashcard_sets (user_id, title, description, language)
+  VALUES (auth.uid(), btrim(_title), NULLIF(btrim(_description), ''), _language)
+  RETURNING id INTO _set_id;
+
+  INSERT INTO public.flashcards (set_id, question, answer, order_index)
+  SELECT _set_id, btrim(card->>'question'), btrim(card->>'answer'), (position - 1)::integer
+  FROM jsonb_array_elements(_cards) WITH ORDINALITY AS cards(card, position);
+
+  RETURN _set_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_flashcard_set(text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_flashcard_set(text, text, text, jsonb) TO authenticated;
@@ -0,0 +1,130 @@
+-- Sharing. Sets stay private unless the owner opens them up: 'unlisted' sets
+-- can be read by anyone with the link, 'public' ones are also listed for
+-- browsing. Shared sets are read through the functions below rather than
+-- extra RLS policies, so the app's own queries (Memory's card list, the
+-- export) keep seeing only the caller's sets.
+ALTER TABLE public.flashcard_sets
+  ADD COLUMN visibility text NOT NULL DEFAULT 'private'
+    CHECK (visibility IN ('private', 'unlisted', 'public')),
+  -- Replacing the token breaks links that were handed out
+  ADD COLUMN share_token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  -- Where a copied set came from. The author's name is kept so the credit
+  -- survives the original being deleted.
+  ADD COLUMN source_set_id uuid REFERENCES public.flashcard_sets(id) ON DELETE SET NULL,
+  ADD COLUMN source_author text;
+
+CREATE INDEX flashcard_sets_public_idx ON public.flashcard_sets (created_at DESC)
+  WHERE visibility = 'public';
+
+-- A shared set with its cards, for anyone holding the link
+CREATE OR REPLACE FUNCTION public.get_shared_set(_token uuid)
+RETURNS jsonb
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'title', s.title,
+    'description', s.description,
+    'language', s.language,
+    'author', p.username,
+    'is_owner', s.user_id = auth.uid(),
+    'created_at', s.created_at,
+    'cards', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', f.id, 'question', f.question, 'answer', f.answer)
+        ORDER BY f.order_index
+      )
+      FROM public.flashcards f
+      WHERE f.set_id = s.id
+    ), '[]'::jsonb)
+  )
+  FROM public.flashcard_sets s
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE s.share_token = _token
+    AND s.visibility <> 'private'
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_set(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_set(uuid) TO anon, authenticated;
+
+-- Newest public sets, optionally filtered by title
+CREATE OR REPLACE FUNCTION public.list_public_sets(_search text DEFAULT NULL, _limit integer DEFAULT 50)
+RETURNS TABLE (
+  share_token uuid,
+  title text,
+  description text,
+  language text,
+  author text,
+  card_count bigint,
+  created_at timestamp with time zone
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.share_token,
+    s.title,
+    s.description,
+    s.language,
+    p.username,
+    (SELECT count(*) FROM public.flashcards f WHERE f.set_id = s.id),
+    s.created_at
+  FROM public.flashcard_sets s
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE s.visibility = 'public'
+    AND (COALESCE(btrim(_search), '') = '' OR s.title ILIKE '%' || btrim(_search) || '%')
+  ORDER BY s.created_at DESC
+  LIMIT LEAST(_limit, 100)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_public_sets(text, integer) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.list_public_sets(text, integer) TO anon, authenticated;
+
+-- Copy a shared set and its cards into the caller's library, crediting the
+-- original author. Study history and quizzes stay with the original.
+CREATE OR REPLACE FUNCTION public.clone_shared_set(_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.flashcard_sets%ROWTYPE;
+  _author text;
+  _set_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _source
+  FROM public.flashcard_sets
+  WHERE share_token = _token
+    AND visibility <> 'private';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'set_not_found';
+  END IF;
+
+  SELECT username INTO _author FROM public.profiles WHERE id = _source.user_id;
+
+  INSERT INTO public.flashcard_sets (user_id, title, description, language, source_set_id, source_author)
+  VALUES (auth.uid(), _source.title, _source.description, _source.language, _source.id, _author)
+  RETURNING id INTO _set_id;
+
+  INSERT INTO public.flashcards (set_id, question, answer, order_index, slide_number)
+  SELECT _set_id, question, answer, order_index, slide_number
+  FROM public.flashcards
+  WHERE set_id = _source.id;
+
+  RETURN _set_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.clone_shared_set(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.clone_shared_set(uuid) TO authenticated;
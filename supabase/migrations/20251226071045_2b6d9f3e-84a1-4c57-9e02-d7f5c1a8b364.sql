@@ -0,0 +1,33 @@
+-- "Users can update their own profile" has no column list, so a student could
+-- switch on premium (and with it unlimited uploads, Memory Mode and any
+-- plan's limits) by writing these columns on their own row. Only admins,
+-- the service role and SECURITY DEFINER functions such as
+-- approve_premium_request and grant_premium may change them.
+CREATE OR REPLACE FUNCTION public.protect_premium_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF (
+    NEW.is_premium IS DISTINCT FROM OLD.is_premium
+    OR NEW.premium_expires_at IS DISTINCT FROM OLD.premium_expires_at
+    OR NEW.premium_plan_id IS DISTINCT FROM OLD.premium_plan_id
+  )
+  -- Inside a SECURITY DEFINER function current_user is its owner, not the
+  -- API role
+  AND current_user IN ('anon', 'authenticated')
+  AND NOT public.has_role(auth.uid(), 'admin')
+  THEN
+    RAISE EXCEPTION 'Premium status can only be changed by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_premium_columns
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_premium_columns();
@@ -0,0 +1,42 @@
+-- Payment proofs are now submitted through the submit-premium-request edge
+-- function, which hashes the stored screenshot itself. Accepting rows from
+-- the browser let anyone send a made-up screenshot_hash and slip a reused
+-- receipt past the duplicate check.
+DROP POLICY "Users can create premium requests" ON public.premium_requests;
+
+-- A bank reference can back one request at a time. Resubmitting after a
+-- rejection reuses it, so rejected requests don't count.
+CREATE OR REPLACE FUNCTION public.check_transaction_reference()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.transaction_reference IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Stored upper-cased without spaces so the same reference compares equal
+  NEW.transaction_reference := upper(regexp_replace(NEW.transaction_reference, '\s+', '', 'g'));
+
+  -- Two submissions of the same reference at once must not both get through
+  PERFORM pg_advisory_xact_lock(hashtext('premium_reference:' || NEW.transaction_reference));
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.premium_requests
+    WHERE transaction_reference = NEW.transaction_reference
+      AND status <> 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'duplicate_reference';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_transaction_reference
+  BEFORE INSERT ON public.premium_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_transaction_reference();
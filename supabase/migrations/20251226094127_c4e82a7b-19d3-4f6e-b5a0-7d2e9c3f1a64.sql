@@ -0,0 +1,49 @@
+-- Retrying is for uploads that failed. Re-running a completed upload
+-- regenerated its set and threw away whatever the owner had done with it, and
+-- re-queueing one that was still being worked on processed it twice.
+CREATE OR REPLACE FUNCTION public.retry_upload(_upload_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _upload public.uploads%ROWTYPE;
+BEGIN
+  -- Lock the row so two retries at once can't both queue a job
+  SELECT * INTO _upload FROM public.uploads WHERE id = _upload_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+
+  IF _upload.user_id <> auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Upload not found';
+  END IF;
+
+  IF _upload.processing_status <> 'failed' THEN
+    RAISE EXCEPTION 'Only failed uploads can be retried';
+  END IF;
+
+  -- The upload can be marked failed by the stale sweep while its worker is
+  -- still running; wait for that job to finish or time out
+  IF EXISTS (
+    SELECT 1 FROM public.processing_jobs
+    WHERE upload_id = _upload_id AND status = 'running'
+  ) THEN
+    RAISE EXCEPTION 'This upload is still being processed';
+  END IF;
+
+  -- Drop any job still waiting so the upload is not processed twice
+  UPDATE public.processing_jobs
+  SET status = 'failed', last_error = 'Superseded by a retry'
+  WHERE upload_id = _upload_id AND status = 'queued';
+
+  INSERT INTO public.processing_jobs (upload_id)
+  VALUES (_upload_id);
+
+  UPDATE public.uploads
+  SET processing_status = 'queued', processing_error = NULL
+  WHERE id = _upload_id;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- Every manual AI quiz generation costs a model call, so they are counted per
+-- user and capped over a rolling day. Quizzes made while processing an upload
+-- are covered by the upload quota and are not recorded here.
+CREATE TABLE public.quiz_generations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  set_id uuid REFERENCES public.flashcard_sets(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX quiz_generations_user_created_idx ON public.quiz_generations (user_id, created_at);
+
+-- Only the generate-quiz function (service role) reads or writes these rows
+ALTER TABLE public.quiz_generations ENABLE ROW LEVEL SECURITY;
+
+-- AI quiz generations allowed per rolling 24 hours
+CREATE OR REPLACE FUNCTION public.quiz_generation_limit(_user_id uuid)
+RETURNS integer
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN public.has_premium(_user_id) OR public.has_role(_user_id, 'admin') THEN 30
+    ELSE 5
+  END
+$$;
+
+-- Record a generation if the user is still under their limit. Returns false,
+-- recording nothing, once the limit is reached.
+CREATE OR REPLACE FUNCTION public.claim_quiz_generation(_user_id uuid, _set_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Serialise a user's claims so parallel requests can't overshoot the limit
+  PERFORM pg_advisory_xact_lock(hashtext('quiz_generation:' || _user_id::text));
+
+  IF (
+    SELECT count(*)
+    FROM public.quiz_generations
+    WHERE user_id = _user_id
+      AND created_at > now() - interval '24 hours'
+  ) >= public.quiz_generation_limit(_user_id) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.quiz_generations (user_id, set_id)
+  VALUES (_user_id, _set_id);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quiz_generation_limit(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.quiz_generation_limit(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.claim_quiz_generation(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_quiz_generation(uuid, uuid) TO service_role;
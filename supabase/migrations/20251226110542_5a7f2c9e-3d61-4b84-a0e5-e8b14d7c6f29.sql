@@ -0,0 +1,23 @@
+-- Manual grants from the admin panel go through grant_premium like approved
+-- payments do, so they get the plan's length and extend time already paid for
+-- instead of resetting it to a fixed 30 days.
+CREATE OR REPLACE FUNCTION public.admin_grant_premium(_user_id uuid, _plan_id uuid DEFAULT NULL)
+RETURNS timestamp with time zone
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grant premium';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  RETURN public.grant_premium(_user_id, _plan_id);
+END;
+$$;
+REVOKE EXECUTE ON FUNCTION public.admin_grant_premium(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_grant_premium(uuid, uuid) TO authenticated;
@@ -0,0 +1,63 @@
+-- The owner policies on flashcard_sets have no column list, so an owner could
+-- pick their own share_token (e.g. reuse one from a set they had shared) or
+-- credit a set to someone else through source_author. Those columns are now
+-- set only by the database: a fresh token on insert, rotate_share_token to
+-- replace it, and clone_shared_set for the copy credit.
+CREATE OR REPLACE FUNCTION public.protect_sharing_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  -- Inside a SECURITY DEFINER function current_user is its owner, not the
+  -- API role
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.share_token := gen_random_uuid();
+    NEW.source_set_id := NULL;
+    NEW.source_author := NULL;
+  ELSIF NEW.share_token IS DISTINCT FROM OLD.share_token
+    OR NEW.source_set_id IS DISTINCT FROM OLD.source_set_id
+    OR NEW.source_author IS DISTINCT FROM OLD.source_author
+  THEN
+    RAISE EXCEPTION 'Share links and copy credits cannot be edited directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_sharing_columns
+  BEFORE INSERT OR UPDATE ON public.flashcard_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_sharing_columns();
+
+-- Give one of the caller's sets a new share link; the old one stops working
+CREATE OR REPLACE FUNCTION public.rotate_share_token(_set_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _token uuid;
+BEGIN
+  UPDATE public.flashcard_sets
+  SET share_token = gen_random_uuid()
+  WHERE id = _set_id AND user_id = auth.uid()
+  RETURNING share_token INTO _token;
+
+  IF _token IS NULL THEN
+    RAISE EXCEPTION 'Flashcard set not found';
+  END IF;
+
+  RETURN _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rotate_share_token(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.rotate_share_token(uuid) TO authenticated;
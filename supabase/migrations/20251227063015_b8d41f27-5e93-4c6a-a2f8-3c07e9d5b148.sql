@@ -0,0 +1,59 @@
+-- "Cards are due" reminders for Memory Mode: once a day, users with reviews
+-- that have come due get one notification with how many are waiting.
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check CHECK (type IN (
+  'premium_approved',
+  'premium_rejected',
+  'payment_received',
+  'premium_expiring',
+  'premium_expired',
+  'upload_completed',
+  'upload_failed',
+  'cards_due'
+));
+
+-- Only users who can still open Memory Mode are reminded, and not again
+-- within a day of the last reminder.
+CREATE OR REPLACE FUNCTION public.notify_cards_due()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _notified integer;
+BEGIN
+  WITH due AS (
+    SELECT r.user_id, count(*) AS cards
+    FROM public.card_reviews r
+    WHERE r.due_at <= now()
+    GROUP BY r.user_id
+  ),
+  notified AS (
+    INSERT INTO public.notifications (user_id, type, data)
+    SELECT due.user_id, 'cards_due', jsonb_build_object('count', due.cards)
+    FROM due
+    WHERE (public.has_premium(due.user_id) OR public.has_role(due.user_id, 'admin'))
+      AND NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.user_id = due.user_id
+          AND n.type = 'cards_due'
+          AND n.created_at > now() - interval '20 hours'
+      )
+    RETURNING 1
+  )
+  SELECT count(*) INTO _notified FROM notified;
+
+  RETURN _notified;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_cards_due() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.notify_cards_due() TO service_role;
+
+-- 05:00 UTC is the start of the morning in Ethiopia
+SELECT cron.schedule(
+  'notify-cards-due',
+  '0 5 * * *',
+  $$ SELECT public.notify_cards_due(); $$
+);
@@ -0,0 +1,52 @@
+-- A plan's upload_limit is an allowance per paid period, not for the life of
+-- the account. Counting every upload ever made meant free-tier uploads and
+-- earlier periods used up the allowance, and renewing added nothing.
+--
+-- grant_premium adds whole plan periods onto premium_expires_at, so the
+-- periods are counted back from it: the current one is the period that
+-- contains now(). Without an expiry date the last plan length is used.
+CREATE OR REPLACE FUNCTION public.upload_quota(_user_id uuid)
+RETURNS TABLE (used integer, upload_limit integer, remaining integer)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _used integer;
+  _limit integer;
+  _period interval;
+  _expires_at timestamp with time zone;
+  _since timestamp with time zone;
+BEGIN
+  IF public.has_premium(_user_id) THEN
+    SELECT plan.upload_limit, make_interval(days => plan.duration_days), profile.premium_expires_at
+    INTO _limit, _period, _expires_at
+    FROM public.profiles profile
+    JOIN public.premium_plans plan ON plan.id = profile.premium_plan_id
+    WHERE profile.id = _user_id AND NOT public.has_role(_user_id, 'admin');
+
+    IF _limit IS NOT NULL THEN
+      _since := CASE
+        WHEN _expires_at IS NULL THEN now() - _period
+        ELSE _expires_at - _period * ceil(
+          extract(epoch FROM _expires_at - now()) / extract(epoch FROM _period)
+        )::integer
+      END;
+    END IF;
+  ELSE
+    -- The free allowance is for the life of the account
+    _limit := public.free_upload_limit();
+  END IF;
+
+  SELECT count(*)::integer INTO _used
+  FROM public.uploads
+  WHERE user_id = _user_id
+    AND (_since IS NULL OR created_at >= _since);
+
+  RETURN QUERY SELECT
+    _used,
+    _limit,
+    CASE WHEN _limit IS NULL THEN NULL ELSE GREATEST(_limit - _used, 0) END;
+END;
+$$;
@@ -0,0 +1,33 @@
+-- A negative _limit made LIMIT raise an error for anyone calling the RPC,
+-- signed in or not. Clamp it to 0..100 instead.
+-- Newest public sets, optionally filtered by title
+CREATE OR REPLACE FUNCTION public.list_public_sets(_search text DEFAULT NULL, _limit integer DEFAULT 50)
+RETURNS TABLE (
+  share_token uuid,
+  title text,
+  description text,
+  language text,
+  author text,
+  card_count bigint,
+  created_at timestamp with time zone
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.share_token,
+    s.title,
+    s.description,
+    s.language,
+    p.username,
+    (SELECT count(*) FROM public.flashcards f WHERE f.set_id = s.id),
+    s.created_at
+  FROM public.flashcard_sets s
+  LEFT JOIN public.profiles p ON p.id = s.user_id
+  WHERE s.visibility = 'public'
+    AND (COALESCE(btrim(_search), '') = '' OR s.title ILIKE '%' || btrim(_search) || '%')
+  ORDER BY s.created_at DESC
+  LIMIT GREATEST(LEAST(_limit, 100), 0)
+$$;
@@ -0,0 +1,142 @@
+// Stand-in for the Chapa API, to exercise online checkout end to end without
+// a merchant account or real money.
+//
+//   CHAPA_WEBHOOK_SECRET=test-secret deno run --allow-net --allow-env supabase/mocks/chapa.ts
+//
+// Then serve the edge functions with CHAPA_API_BASE pointing here (from inside
+// the functions container that is http://host.docker.internal:8787),
+// CHAPA_SECRET_KEY set to anything and the same CHAPA_WEBHOOK_SECRET. The
+// checkout page it hands out lets you pick the outcome; it then sends a signed
+// webhook to MOCK_WEBHOOK_URL and returns the browser to the app, like Chapa.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { signPayload } from "../functions/_shared/chapa.ts";
+
+const PORT = Number(Deno.env.get("MOCK_CHAPA_PORT") ?? 8787);
+// Address the browser reaches this mock on
+const PUBLIC_URL = Deno.env.get("MOCK_PUBLIC_URL") ?? `http://localhost:${PORT}`;
+const WEBHOOK_URL =
+  Deno.env.get("MOCK_WEBHOOK_URL") ?? "http://localhost:54321/functions/v1/chapa-webhook";
+const WEBHOOK_SECRET = Deno.env.get("CHAPA_WEBHOOK_SECRET") ?? "test-secret";
+
+interface MockTransaction {
+  tx_ref: string;
+  amount: string;
+  currency: string;
+  email: string;
+  return_url: string;
+  status: "pending" | "success" | "failed";
+  reference: string | null;
+}
+
+const transactions = new Map<string, MockTransaction>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const checkoutPage = (transaction: MockTransaction) => `<!doctype html>
+<html>
+  <body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+    <h1>Mock Chapa checkout</h1>
+    <p>${transaction.amount} ${transaction.currency} from ${transaction.email}</p>
+    <form method="post" action="/checkout/${transaction.tx_ref}?outcome=success">
+      <button>Pay</button>
+    </form>
+    <form method="post" action="/checkout/${transaction.tx_ref}?outcome=failed">
+      <button>Decline</button>
+    </form>
+  </body>
+</html>`;
+
+async function sendWebhook(transaction: MockTransaction) {
+  const payload = JSON.stringify({
+    event: transaction.status === "success" ? "charge.success" : "charge.failed",
+    tx_ref: transaction.tx_ref,
+    reference: transaction.reference,
+    status: transaction.status,
+    amount: transaction.amount,
+    currency: transaction.currency,
+  });
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-chapa-signature": await signPayload(WEBHOOK_SECRET, payload),
+    },
+    body: payload,
+  });
+
+  console.log("Webhook sent:", transaction.tx_ref, response.status, await response.text());
+}
+
+serve(async (req) => {
+  const url = new URL(req.url);
+  const [, first, second, third] = url.pathname.split("/");
+
+  if (req.method === "POST" && url.pathname === "/v1/transaction/initialize") {
+    const body = await req.json();
+    if (!req.headers.get("Authorization")?.startsWith("Bearer ")) {
+      return json({ status: "failed", message: "Invalid API Key" }, 401);
+    }
+    if (transactions.has(body.tx_ref)) {
+      return json({ status: "failed", message: "Transaction reference has been used before" }, 400);
+    }
+
+    transactions.set(body.tx_ref, {
+      tx_ref: body.tx_ref,
+      amount: body.amount,
+      currency: body.currency,
+      email: body.email,
+      return_url: body.return_url,
+      status: "pending",
+      reference: null,
+    });
+
+    return json({
+      status: "success",
+      message: "Hosted Link",
+      data: { checkout_url: `${PUBLIC_URL}/checkout/${body.tx_ref}` },
+    });
+  }
+
+  if (req.method === "GET" && first === "v1" && second === "transaction" && third === "verify") {
+    const transaction = transactions.get(decodeURIComponent(url.pathname.split("/")[4] ?? ""));
+    if (!transaction) {
+      return json({ status: "failed", message: "Invalid transaction or Transaction not found" }, 404);
+    }
+
+    return json({
+      status: "success",
+      message: "Payment details",
+      data: {
+        tx_ref: transaction.tx_ref,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        status: transaction.status,
+        reference: transaction.reference,
+      },
+    });
+  }
+
+  if (first === "checkout") {
+    const transaction = transactions.get(second);
+    if (!transaction) return new Response("Unknown transaction", { status: 404 });
+
+    if (req.method === "GET") {
+      return new Response(checkoutPage(transaction), {
+        headers: { "Content-Type": "text/html" },
+      });
+    }
+
+    transaction.status = url.searchParams.get("outcome") === "failed" ? "failed" : "success";
+    transaction.reference = `MOCK${Date.now()}`;
+    await sendWebhook(transaction);
+
+    return Response.redirect(transaction.return_url, 303);
+  }
+
+  return json({ status: "failed", message: "Not found" }, 404);
+}, { port: PORT });